@@ -66,8 +66,6 @@ jsonSchema.examples = [
     awsRegion: 'us-east-1',
     ecsCluster: 'production-cluster',
     ecsService: 'my-app-service',
-    devEcsCluster: 'dev-cluster',
-    devEcsService: 'my-app-dev-service',
     prepareCommands: [
       'yarn install',
       {
@@ -81,6 +79,23 @@ jsonSchema.examples = [
         ecsCluster: 'staging-cluster',
         ecsService: 'my-app-staging',
       },
+      'client-preview': {
+        extends: 'staging',
+        ecsService: 'my-app-preview',
+        dockerBuildArgs: {
+          SITE_VARIANT: 'preview',
+        },
+      },
+    },
+    environments: {
+      dev: {
+        ecsCluster: 'dev-cluster',
+        ecsService: 'my-app-dev-service',
+      },
+      uat: {
+        ecsCluster: 'uat-cluster',
+        ecsService: 'my-app-uat-service',
+      },
     },
   },
 ]
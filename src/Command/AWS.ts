@@ -3,7 +3,7 @@ import ansis from 'ansis'
 import { type BaseContext, Option } from 'clipanion'
 import * as t from 'typanion'
 import { AWSConsoleUrlGenerator } from '../AWSConsoleUrlGenerator.js'
-import { delay, execC } from '../utils.js'
+import { delay, execC, isDryRun, writeDryRunCommand } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
 abstract class AWSCommand extends JoltCommand {
@@ -20,8 +20,7 @@ abstract class AWSCommand extends JoltCommand {
       return await config.parseArg(region)
     }
 
-    const configRegion = await config.get('awsRegion')
-    return configRegion || 'eu-west-1'
+    return await config.get('awsRegion')
   }
 
   protected async getRegionArg() {
@@ -29,6 +28,14 @@ abstract class AWSCommand extends JoltCommand {
     return region ? `--region=${region}` : ''
   }
 
+  /**
+   * Get the name of a resource such as the ECS cluster from a Terraform output for the current environment
+   */
+  protected async getTfName(key: string): Promise<string | undefined> {
+    const value = await this.config.environmentTfVar(key)
+    return typeof value === 'string' ? value : undefined
+  }
+
   /**
    * Monitor a CodeBuild build until it completes
    * @param buildId The build ID to monitor
@@ -47,6 +54,7 @@ abstract class AWSCommand extends JoltCommand {
         [regionArg, 'codebuild', 'batch-get-builds', `--ids=${buildId}`],
         {
           env: { AWS_PAGER: '' },
+          readOnly: true,
         },
       )
 
@@ -76,22 +84,21 @@ export class ECSDeployCommand extends AWSCommand {
   async command(): Promise<number | undefined> {
     const {
       config,
-      dev,
       context: { stdout, stderr },
     } = this
 
     const awsCommand = await config.command('aws')
 
-    let cluster = await config.get(dev ? 'devEcsCluster' : 'ecsCluster')
+    let cluster = await config.get('ecsCluster')
 
     if (!cluster) {
-      cluster = await config.tfVar(dev ? 'dev_ecs_cluster' : 'ecs_cluster')
+      cluster = await this.getTfName('ecs_cluster')
     }
 
-    let service = await config.get(dev ? 'devEcsService' : 'ecsService')
+    let service = await config.get('ecsService')
 
     if (!service) {
-      service = await config.tfVar(dev ? 'dev_ecs_service' : 'ecs_service')
+      service = await this.getTfName('ecs_service')
     }
 
     const args = [
@@ -114,6 +121,7 @@ export class ECSDeployCommand extends AWSCommand {
     }
 
     stdout.write(ansis.blue(`⛅ Deploying service ${service} on cluster ${cluster}...\n`))
+    this.setResult({ cluster, service })
 
     const result = await execC(awsCommand, args, {
       stderr: this.context.stderr,
@@ -123,6 +131,10 @@ export class ECSDeployCommand extends AWSCommand {
       extendEnv: true,
     })
 
+    if (isDryRun()) {
+      return 0
+    }
+
     const output = result.stdout?.toString()
 
     if (!result.exitCode && output) {
@@ -136,11 +148,20 @@ export class ECSDeployCommand extends AWSCommand {
       stdout.write(`${ansis.white('Service ARN:')} ${service.serviceArn}\n`)
 
       // Add console URLs
+      const consoleUrls = {
+        ecsService: AWSConsoleUrlGenerator.ecsService(region, cluster, service.serviceName),
+        ecsCluster: AWSConsoleUrlGenerator.ecsCluster(region, cluster),
+      }
       stdout.write(`\n${ansis.blue.bold('🔗 AWS Console Links:')}\n`)
-      stdout.write(
-        `${ansis.white('ECS Service:')} ${AWSConsoleUrlGenerator.ecsService(region, cluster, service.serviceName)}\n`,
-      )
-      stdout.write(`${ansis.white('ECS Cluster:')} ${AWSConsoleUrlGenerator.ecsCluster(region, cluster)}\n`)
+      stdout.write(`${ansis.white('ECS Service:')} ${consoleUrls.ecsService}\n`)
+      stdout.write(`${ansis.white('ECS Cluster:')} ${consoleUrls.ecsCluster}\n`)
+
+      this.setResult({
+        clusterArn: service.clusterArn,
+        serviceName: service.serviceName,
+        serviceArn: service.serviceArn,
+        consoleUrls,
+      })
 
       return 0
     }
@@ -178,6 +199,7 @@ export class S3SyncCommand extends AWSCommand {
       { context },
     )
     stdout.write(ansis.blue('⛅ Syncing complete.\n'))
+    this.setResult({ from: parsedFrom, to: parsedTo })
 
     // Add console URLs for S3 buckets
     const region = await this.getRegion()
@@ -186,12 +208,18 @@ export class S3SyncCommand extends AWSCommand {
 
     if (fromBucket || toBucket) {
       stdout.write(`\n${ansis.blue.bold('🔗 AWS Console Links:')}\n`)
+      const consoleUrls: Record<string, string> = {}
+
       if (fromBucket) {
-        stdout.write(`${ansis.white('Source Bucket:')} ${AWSConsoleUrlGenerator.s3Bucket(region, fromBucket)}\n`)
+        consoleUrls.sourceBucket = AWSConsoleUrlGenerator.s3Bucket(region, fromBucket)
+        stdout.write(`${ansis.white('Source Bucket:')} ${consoleUrls.sourceBucket}\n`)
       }
       if (toBucket) {
-        stdout.write(`${ansis.white('Target Bucket:')} ${AWSConsoleUrlGenerator.s3Bucket(region, toBucket)}\n`)
+        consoleUrls.targetBucket = AWSConsoleUrlGenerator.s3Bucket(region, toBucket)
+        stdout.write(`${ansis.white('Target Bucket:')} ${consoleUrls.targetBucket}\n`)
       }
+
+      this.setResult({ consoleUrls })
     }
 
     return result.exitCode
@@ -263,6 +291,11 @@ export class LogsTailCommand extends AWSCommand {
     const patterns = this.getSpamPatterns()
     const colorizedArgs = ['--color', 'on', ...awsArgs.filter((arg) => arg !== null)]
 
+    if (isDryRun()) {
+      writeDryRunCommand([command, ...colorizedArgs].join(' '), { context })
+      return Promise.resolve(0)
+    }
+
     return new Promise<number>((resolve) => {
       const proc = spawn(command, colorizedArgs, {
         stdio: ['inherit', 'pipe', 'inherit'],
@@ -332,7 +365,6 @@ export class CodeBuildStartCommand extends AWSCommand {
       batch,
       config,
       context: { stdout, stderr },
-      dev,
       project,
     } = this
 
@@ -341,11 +373,11 @@ export class CodeBuildStartCommand extends AWSCommand {
     if (project) {
       target = await config.parseArg(project)
     } else {
-      target = await await config.get(dev ? 'devCodebuildProject' : 'codebuildProject')
+      target = await config.get('codebuildProject')
     }
 
     if (!target) {
-      target = await config.tfVar(dev ? 'dev_codebuild_project_name' : 'codebuild_project_name')
+      target = await this.getTfName('codebuild_project_name')
     }
 
     if (!target) {
@@ -354,6 +386,7 @@ export class CodeBuildStartCommand extends AWSCommand {
     }
 
     stdout.write(ansis.blue(`⛅ Starting the ${target} CodeBuild project...\n`))
+    this.setResult({ project: target })
     const regionArg = await this.getRegionArg()
 
     const result = await execC(
@@ -364,6 +397,10 @@ export class CodeBuildStartCommand extends AWSCommand {
       },
     )
 
+    if (isDryRun()) {
+      return 0
+    }
+
     if (result.stdout === undefined) {
       stderr.write(ansis.red('⛅ Missing output for codebuild start command'))
       return 5
@@ -379,9 +416,15 @@ export class CodeBuildStartCommand extends AWSCommand {
     stdout.write(`${ansis.white('Build Number:')} ${build.buildNumber}\n`)
 
     // Add console URLs
+    const consoleUrls = {
+      codeBuildProject: AWSConsoleUrlGenerator.codeBuildProject(region, target),
+      build: AWSConsoleUrlGenerator.codeBuildBuild(region, target, build.id),
+    }
     stdout.write(`\n${ansis.blue.bold('🔗 AWS Console Links:')}\n`)
-    stdout.write(`${ansis.white('CodeBuild Project:')} ${AWSConsoleUrlGenerator.codeBuildProject(region, target)}\n`)
-    stdout.write(`${ansis.white('This Build:')} ${AWSConsoleUrlGenerator.codeBuildBuild(region, target, build.id)}\n\n`)
+    stdout.write(`${ansis.white('CodeBuild Project:')} ${consoleUrls.codeBuildProject}\n`)
+    stdout.write(`${ansis.white('This Build:')} ${consoleUrls.build}\n\n`)
+
+    this.setResult({ buildId: build.id, buildNumber: build.buildNumber, consoleUrls })
 
     stdout.write(
       ansis.blue.bold(
@@ -422,6 +465,7 @@ export class CodeBuildStartCommand extends AWSCommand {
       abortController.abort()
 
       stdout.write(`\n${ansis.blue.bold('⛅ Build completed with status:')} ${ansis.white(finalStatus)}\n`)
+      this.setResult({ buildStatus: finalStatus })
 
       return finalStatus === 'SUCCEEDED' ? 0 : 1
     } catch (error) {
@@ -474,11 +518,12 @@ export class CloudFrontInvalidateCommand extends AWSCommand {
     if (distribution) {
       target = await config.parseArg(distribution)
     } else {
-      target = await await config.get('cloudfrontDistribution')
+      target = await config.get('cloudfrontDistribution')
     }
 
     if (!target) {
-      target = await config.tfVar('cloudfront_distribution')
+      const distribution = await config.tfVar('cloudfront_distribution')
+      target = typeof distribution === 'string' ? distribution : undefined
     }
 
     if (!target) {
@@ -492,6 +537,7 @@ export class CloudFrontInvalidateCommand extends AWSCommand {
     }
 
     stdout.write(ansis.blue(`⛅ Invalidating the ${target} CloudFront distribution cache...\n`))
+    this.setResult({ distribution: target })
     const regionArg = await this.getRegionArg()
     let additionalArgs = []
 
@@ -512,6 +558,10 @@ export class CloudFrontInvalidateCommand extends AWSCommand {
       ...additionalArgs,
     ])
 
+    if (isDryRun()) {
+      return 0
+    }
+
     const output = result.stdout?.toString()
 
     if (!result.exitCode && output) {
@@ -523,10 +573,11 @@ export class CloudFrontInvalidateCommand extends AWSCommand {
       stdout.write(`${ansis.white('Invalidation ID:')} ${invalidation.Id}\n`)
 
       // Add console URL
+      const consoleUrls = { cloudFrontDistribution: AWSConsoleUrlGenerator.cloudFrontDistribution(region, target) }
       stdout.write(`\n${ansis.blue.bold('🔗 AWS Console Link:')}\n`)
-      stdout.write(
-        `${ansis.white('CloudFront Distribution:')} ${AWSConsoleUrlGenerator.cloudFrontDistribution(region, target)}\n`,
-      )
+      stdout.write(`${ansis.white('CloudFront Distribution:')} ${consoleUrls.cloudFrontDistribution}\n`)
+
+      this.setResult({ invalidationId: invalidation.Id, consoleUrls })
 
       return 0
     }
@@ -545,7 +596,6 @@ export class ECSStatusCommand extends AWSCommand {
   async command(): Promise<number | undefined> {
     const {
       config,
-      dev,
       context: { stdout, stderr },
     } = this
 
@@ -553,14 +603,14 @@ export class ECSStatusCommand extends AWSCommand {
     const regionArg = await this.getRegionArg()
 
     // Try to get ECS configuration
-    let cluster = await config.get(dev ? 'devEcsCluster' : 'ecsCluster')
+    let cluster = await config.get('ecsCluster')
     if (!cluster) {
-      cluster = await config.tfVar(dev ? 'dev_ecs_cluster' : 'ecs_cluster')
+      cluster = await this.getTfName('ecs_cluster')
     }
 
-    let service = await config.get(dev ? 'devEcsService' : 'ecsService')
+    let service = await config.get('ecsService')
     if (!service) {
-      service = await config.tfVar(dev ? 'dev_ecs_service' : 'ecs_service')
+      service = await this.getTfName('ecs_service')
     }
 
     // Check if ECS is configured
@@ -572,18 +622,25 @@ export class ECSStatusCommand extends AWSCommand {
 
     stdout.write(ansis.blue.bold('⛅ AWS ECS Status\n'))
     stdout.write(ansis.blue(`${'─'.repeat(50)}\n`))
+    this.setResult({ cluster, service })
 
     // Add console URLs if we have configuration
     const region = await this.getRegion()
     if (cluster || service) {
+      const consoleUrls: Record<string, string> = {}
+
       stdout.write(`${ansis.blue.bold('🔗 AWS Console Links:')}\n`)
       if (cluster) {
-        stdout.write(`${ansis.white('ECS Cluster:')} ${AWSConsoleUrlGenerator.ecsCluster(region, cluster)}\n`)
+        consoleUrls.ecsCluster = AWSConsoleUrlGenerator.ecsCluster(region, cluster)
+        stdout.write(`${ansis.white('ECS Cluster:')} ${consoleUrls.ecsCluster}\n`)
       }
       if (cluster && service) {
-        stdout.write(`${ansis.white('ECS Service:')} ${AWSConsoleUrlGenerator.ecsService(region, cluster, service)}\n`)
+        consoleUrls.ecsService = AWSConsoleUrlGenerator.ecsService(region, cluster, service)
+        stdout.write(`${ansis.white('ECS Service:')} ${consoleUrls.ecsService}\n`)
       }
       stdout.write('\n')
+
+      this.setResult({ consoleUrls })
     }
 
     if (cluster) {
@@ -597,6 +654,7 @@ export class ECSStatusCommand extends AWSCommand {
           {
             env: { AWS_PAGER: '' },
             extendEnv: true,
+            readOnly: true,
           },
         )
 
@@ -612,6 +670,16 @@ export class ECSStatusCommand extends AWSCommand {
             stdout.write(
               `${ansis.white('Registered Container Instances:')} ${clusterInfo.registeredContainerInstancesCount}\n`,
             )
+
+            this.setResult({
+              clusterStatus: {
+                status: clusterInfo.status,
+                activeServicesCount: clusterInfo.activeServicesCount,
+                runningTasksCount: clusterInfo.runningTasksCount,
+                pendingTasksCount: clusterInfo.pendingTasksCount,
+                registeredContainerInstancesCount: clusterInfo.registeredContainerInstancesCount,
+              },
+            })
           }
         }
       } catch (error) {
@@ -631,6 +699,7 @@ export class ECSStatusCommand extends AWSCommand {
             {
               env: { AWS_PAGER: '' },
               extendEnv: true,
+              readOnly: true,
             },
           )
 
@@ -645,6 +714,17 @@ export class ECSStatusCommand extends AWSCommand {
               stdout.write(`${ansis.white('Desired Count:')} ${serviceInfo.desiredCount}\n`)
               stdout.write(`${ansis.white('Task Definition:')} ${serviceInfo.taskDefinition}\n`)
 
+              this.setResult({
+                serviceStatus: {
+                  status: serviceInfo.status,
+                  runningCount: serviceInfo.runningCount,
+                  pendingCount: serviceInfo.pendingCount,
+                  desiredCount: serviceInfo.desiredCount,
+                  taskDefinition: serviceInfo.taskDefinition,
+                  deployments: serviceInfo.deployments ?? [],
+                },
+              })
+
               if (serviceInfo.deployments?.length > 0) {
                 stdout.write(`\n${ansis.white.bold('Deployments:')}\n`)
                 serviceInfo.deployments.forEach(
@@ -675,6 +755,7 @@ export class ECSStatusCommand extends AWSCommand {
                 {
                   env: { AWS_PAGER: '' },
                   extendEnv: true,
+                  readOnly: true,
                 },
               )
 
@@ -690,11 +771,13 @@ export class ECSStatusCommand extends AWSCommand {
                     {
                       env: { AWS_PAGER: '' },
                       extendEnv: true,
+                      readOnly: true,
                     },
                   )
 
                   if (taskDetailsResult.exitCode === 0 && taskDetailsResult.stdout) {
                     const taskDetails = JSON.parse(taskDetailsResult.stdout.toString())
+                    this.setResult({ tasks: taskDetails.tasks ?? [] })
                     taskDetails.tasks?.forEach(
                       (
                         task: { taskArn: string; lastStatus: string; cpu: string; memory: string; createdAt?: string },
@@ -737,15 +820,15 @@ export class ECSDeploySpecificCommand extends AWSCommand {
     const {
       cli,
       config,
-      dev,
       context: { stdout, stderr },
+      environmentArgs,
       tag,
     } = this
 
     const awsCommand = await config.command('aws')
-    const cluster = await config.tfVar(dev ? 'ecs_cluster_dev' : 'ecs_cluster')
-    const service = await config.tfVar(dev ? 'ecs_service_dev' : 'ecs_service')
-    const family = await config.tfVar(dev ? 'ecs_task_definition_dev' : 'ecs_task_definition')
+    const cluster = await this.getTfName('ecs_cluster')
+    const service = await this.getTfName('ecs_service')
+    const family = await this.getTfName('ecs_task_definition')
 
     if (!tag) {
       stderr.write(ansis.red('⛅ Image tag parameter must be specified\n'))
@@ -801,6 +884,7 @@ export class ECSDeploySpecificCommand extends AWSCommand {
       },
       shell: false,
       extendEnv: true,
+      readOnly: true,
     })
 
     const taskDefinitionOutput = taskDefinitionResult.stdout?.toString()
@@ -813,6 +897,11 @@ export class ECSDeploySpecificCommand extends AWSCommand {
     const taskDefinition = JSON.parse(taskDefinitionOutput)
     const oldImage: string = taskDefinition.containerDefinitions[0].image
     taskDefinition.containerDefinitions[0].image = oldImage.replace(/:.+$/, `:${tag}`)
+    this.setResult({
+      taskDefinition: family,
+      previousImage: oldImage,
+      image: taskDefinition.containerDefinitions[0].image,
+    })
 
     await execC(
       awsCommand,
@@ -830,10 +919,15 @@ export class ECSDeploySpecificCommand extends AWSCommand {
 
     // Add console URLs before deploying
     const region = await this.getRegion()
+    const consoleUrls = {
+      ecsCluster: AWSConsoleUrlGenerator.ecsCluster(region, cluster),
+      ecsService: AWSConsoleUrlGenerator.ecsService(region, cluster, service),
+    }
     stdout.write(`\n${ansis.blue.bold('🔗 AWS Console Links:')}\n`)
-    stdout.write(`${ansis.white('ECS Cluster:')} ${AWSConsoleUrlGenerator.ecsCluster(region, cluster)}\n`)
-    stdout.write(`${ansis.white('ECS Service:')} ${AWSConsoleUrlGenerator.ecsService(region, cluster, service)}\n\n`)
+    stdout.write(`${ansis.white('ECS Cluster:')} ${consoleUrls.ecsCluster}\n`)
+    stdout.write(`${ansis.white('ECS Service:')} ${consoleUrls.ecsService}\n\n`)
+    this.setResult({ consoleUrls })
 
-    return await cli.run(['aws', 'ecs', 'deploy'])
+    return await cli.run(['aws', 'ecs', 'deploy', ...environmentArgs])
   }
 }
@@ -13,19 +13,17 @@ export class BuildCommand extends JoltCommand {
       config,
       context,
       context: { stdout, stderr },
-      dev,
+      environmentArgs,
     } = this
 
-    const imageName = await config.get('imageName')
+    const imageName = await config.getDockerImageName()
 
     if (imageName) {
       stdout.write(
         ansis.yellow(`Found a configured image name (${imageName}) - assuming you wanted to build Docker.\n\n`),
       )
 
-      const args = ['build', 'docker']
-      args.push(dev ? '--dev' : '')
-      return await this.cli.run(args, context)
+      return await this.cli.run(['build', 'docker', ...environmentArgs], context)
     }
 
     stderr.write(this.cli.usage(DockerBuildCommand))
@@ -28,6 +28,7 @@ export class CacheFlushCommand extends JoltCommand {
 
     const { name: container, cliCommand } = cacheInfo
     stdout.write(ansis.blue(`🗃️ Clearing cache in container '${container}' using the ${cliCommand} command.\n`))
+    this.setResult({ container })
     args.push('exec', container, cliCommand, 'flushall')
     const result = await execC(composeCommand, args, { context })
     stdout.write(ansis.blue('🗃️ Cache cleared.\n'))
@@ -1,5 +1,6 @@
 import ansis from 'ansis'
 import { Option } from 'clipanion'
+import { redactSecrets } from '../secrets.js'
 import { execC } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
@@ -47,7 +48,7 @@ export class CmdCommand extends JoltCommand {
     const commandArgs = parsedArgs.slice(i)
 
     if (!quiet) {
-      stdout.write(ansis.blue(`Running command: ${commandArgs.join(' ')}...\n`))
+      stdout.write(ansis.blue(`Running command: ${redactSecrets(commandArgs.join(' '))}...\n`))
     }
 
     const result = await execC(commandArgs[0], commandArgs.slice(1), { cwd: cwdArg, context, shell: true })
@@ -1,10 +1,86 @@
-import { access, readFile, writeFile } from 'node:fs/promises'
+import { access, copyFile, readFile, rename, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import path from 'node:path'
 import ansis from 'ansis'
 import { Option } from 'clipanion'
+import { createTwoFilesPatch } from 'diff'
 import * as t from 'typanion'
-import { execC, which } from '../utils.js'
+import type { Config } from '../Config.js'
+import { getUserConfigPath } from '../ConfigLoader.js'
+import { migrateConfig } from '../ConfigMigrator.js'
+import { findPlaceholders, validateConfig } from '../ConfigValidator.js'
+import {
+  CONFIG_INIT_FILES,
+  type ConfigFile,
+  type ConfigFileFormat,
+  detectIndent,
+  getConfigValue,
+  readConfigFile,
+  serialiseConfig,
+  serialiseConfigFile,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfigFile,
+} from '../ConfigWriter.js'
+import { ConfigValidationError, InterpolationError } from '../errors.js'
+import type { InterpolationTrace } from '../Interpolation.js'
+import { getLoadedPlugins, getPluginCommandPaths } from '../PluginLoader.js'
+import { redactSecrets } from '../secrets.js'
+import type { EnvOverride } from '../types/index.js'
+import { execC, fileExists, which } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
+// The config file that `jolt config set` and `jolt config migrate` create if the project has none
+const EDITABLE_CONFIG_FILE = '.jolt.json'
+
+// The uncommitted config that `jolt config migrate` moves local values and credentials into
+const LOCAL_CONFIG_FILE = '.jolt.local.json'
+
+/**
+ * Split a dotted key such as `dockerBuildArgs.NPM_TOKEN` into a path, within the given site's config if there is one
+ */
+function getKeyPath(key: string, site: string | undefined): string[] {
+  const keyPath = key.split('.')
+  return site ? ['sites', site, ...keyPath] : keyPath
+}
+
+/**
+ * Get the file that `jolt config set`, `jolt config unset` and `jolt config migrate` edit: the user config with
+ * `--global`, otherwise the project's config file that was loaded, which may be YAML or the file given with `--config`
+ */
+function getEditableConfigPath(config: Config, global: boolean): string {
+  if (global) {
+    return getUserConfigPath()
+  }
+
+  return config.configPath ?? EDITABLE_CONFIG_FILE
+}
+
+/**
+ * Format the path of a config file for display, relative to the project or to the home directory for the user config
+ */
+function formatSourcePath(source: string): string {
+  const relative = path.relative(process.cwd(), source)
+
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative || source
+  }
+
+  const fromHome = path.relative(homedir(), source)
+  return fromHome.startsWith('..') || path.isAbsolute(fromHome) ? source : path.join('~', fromHome)
+}
+
+/**
+ * Format a config value for display, masking any secrets
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return ansis.dim('(not set)')
+  }
+
+  return redactSecrets(typeof value === 'string' ? value : JSON.stringify(value))
+}
+
 enum ConfigCommandFormat {
   Pretty = 'pretty',
   Json = 'json',
@@ -19,27 +95,47 @@ export class ConfigCommand extends JoltCommand {
     validator: t.isEnum(ConfigCommandFormat),
     description: 'Output format for configuration values',
   })
+  reveal = Option.Boolean('--reveal', false, {
+    description: 'Show secrets in the json and env formats instead of masking them',
+  })
 
-  commands = ['aws', 'compose', 'docker', 'git', 'gzip', 'node', 'rsync', 'ssh', 'tofu', 'yarn']
+  get redactResult(): boolean {
+    return !this.reveal
+  }
 
   async command(): Promise<number | undefined> {
     const {
       config,
       format,
       context: { stderr, stdout },
+      reveal,
     } = this
 
+    const redact = (output: string) => (reveal ? output : redactSecrets(output))
+
+    if (this.jsonOutput) {
+      const plugins = getLoadedPlugins().map((plugin) => ({
+        name: plugin.name,
+        source: plugin.source,
+        path: plugin.path,
+        commands: getPluginCommandPaths(plugin),
+      }))
+
+      this.setResult({ config: JSON.parse(config.asJson()), plugins })
+    }
+
     if (format === undefined || format === ConfigCommandFormat.Pretty) {
       stdout.write(ansis.bold.whiteBright(this.getHeader('Config')))
 
       await this.listCommands()
       stdout.write('\n')
+      this.listPlugins()
       await this.listConfig()
       return 0
     }
 
     if (format === ConfigCommandFormat.Json) {
-      stdout.write(`${config.asJson()}\n`)
+      stdout.write(`${redact(config.asJson())}\n`)
       return 0
     }
 
@@ -48,7 +144,7 @@ export class ConfigCommand extends JoltCommand {
       const varsString = Object.entries(envVars)
         .map(([k, v]) => `${k}=${v}`)
         .join('\n')
-      stdout.write(`${varsString}\n`)
+      stdout.write(`${redact(varsString)}\n`)
       return 0
     }
 
@@ -59,7 +155,6 @@ export class ConfigCommand extends JoltCommand {
   async listCommands() {
     const {
       config,
-      commands,
       context: { stdout },
     } = this
 
@@ -67,7 +162,7 @@ export class ConfigCommand extends JoltCommand {
 
     // Parallelize command override and which checks
     const commandInfos = await Promise.all(
-      commands.map(async (commandName) => {
+      config.getCommandNames().map(async (commandName) => {
         const { command, source, sourceType } = await config.getCommandOverride(commandName)
         const isAvailable = await which(command)
         return { commandName, command, source, sourceType, isAvailable }
@@ -102,18 +197,79 @@ export class ConfigCommand extends JoltCommand {
     }
   }
 
+  listPlugins() {
+    const {
+      context: { stdout },
+    } = this
+
+    const plugins = getLoadedPlugins()
+
+    if (plugins.length === 0) {
+      return
+    }
+
+    stdout.write(ansis.bold.blue('Plugins:\n'))
+
+    for (const plugin of plugins) {
+      const paths = getPluginCommandPaths(plugin).join(', ')
+      const sourceString = plugin.source === 'directory' ? '[Project]' : '[Package]'
+
+      stdout.write(`${ansis.bold(`${plugin.name}: `)}${ansis.green(paths)} ${ansis.gray(sourceString)}\n`)
+    }
+
+    stdout.write('\n')
+  }
+
+  /**
+   * Interpolate a value for display. Values that can't be interpolated, such as a `{tf:…}` output that's a list, show
+   * the reason instead of stopping the whole listing.
+   */
+  private async parseForDisplay(value: string): Promise<string> {
+    try {
+      return await this.config.parseArg(value)
+    } catch (error) {
+      if (error instanceof InterpolationError) {
+        return ansis.red(`(${error.message})`)
+      }
+
+      throw error
+    }
+  }
+
   async listConfig() {
     const {
       config,
       context: { stdout },
     } = this
 
-    const sourceString = config.configPath ? ansis.dim(`[Source file: ${config.configPath}]`) : ''
+    const configFiles = config.configFiles.length ? config.configFiles : [config.configPath].filter((x) => !!x)
+    const sourceLabel = configFiles.length > 1 ? 'Source files' : 'Source file'
+    const sourceString = configFiles.length ? ansis.dim(`[${sourceLabel}: ${configFiles.join(', ')}]`) : ''
+    const showKeySources = configFiles.length > 1
     const indent = '  '
 
     stdout.write(ansis.bold.blue(`Config: ${sourceString}\n`))
 
-    for (const [key, value] of config) {
+    const envOverrides = config.getEnvOverrides()
+
+    const writeKeySource = (keyPath: string, envOverride?: EnvOverride) => {
+      const source = config.provenance[keyPath]
+
+      if (envOverride) {
+        stdout.write(ansis.dim(` [Env var: ${envOverride.varName}]`))
+      } else if (showKeySources && source) {
+        stdout.write(ansis.dim(` [From: ${formatSourcePath(source)}]`))
+      }
+    }
+
+    // Keys that are only set by environment variables are listed after those in the config files
+    const entries = new Map<string, unknown>(config)
+
+    for (const [key, { value }] of Object.entries(envOverrides)) {
+      entries.set(key, typeof value === 'string' || Array.isArray(value) ? value : JSON.stringify(value))
+    }
+
+    for (const [key, value] of entries) {
       if (key === '$schema') {
         continue
       }
@@ -121,41 +277,56 @@ export class ConfigCommand extends JoltCommand {
       stdout.write(ansis.bold(`${key}: `))
 
       if (typeof value === 'string') {
-        if (key === 'sites') {
-          const siteConfig = JSON.parse(value) as Record<string, Record<string, string>>
+        if (key === 'sites' || key === 'environments') {
+          const siteConfig = JSON.parse(value) as Record<string, Record<string, unknown>>
+
+          for (const [siteKey, fileValues] of Object.entries(siteConfig)) {
+            const siteOverrides = key === 'sites' ? config.getEnvOverrides(siteKey) : {}
+            const siteValues = {
+              ...fileValues,
+              ...Object.fromEntries(Object.entries(siteOverrides).map(([k, x]) => [k, x.value])),
+            }
 
-          for (const [siteKey, siteValues] of Object.entries(siteConfig)) {
             stdout.write(ansis.bold(`\n${indent}${siteKey}:\n`))
             const siteValueKeys = Object.keys(siteValues)
-            const parsedSiteValuesList = await Promise.all(Object.values(siteValues).map((x) => config.parseArg(x)))
+            const parsedSiteValuesList = await Promise.all(
+              Object.values(siteValues).map((x) =>
+                typeof x === 'string' ? this.parseForDisplay(x) : JSON.stringify(x),
+              ),
+            )
             const parsedSiteValues = Object.fromEntries(siteValueKeys.map((x, i) => [x, parsedSiteValuesList[i]]))
 
             for (const [siteValueKey, siteValue] of Object.entries(siteValues)) {
               const parsedSiteValue = parsedSiteValues[siteValueKey]
               stdout.write(ansis.bold(`${indent}${indent}${siteValueKey}: `))
-              stdout.write(parsedSiteValue)
+              stdout.write(redactSecrets(parsedSiteValue))
 
-              if (parsedSiteValue !== siteValue) {
+              if (typeof siteValue === 'string' && parsedSiteValue !== siteValue) {
                 stdout.write(ansis.dim(` [Parsed from: ${siteValue}]`))
               }
 
+              writeKeySource(`${key}.${siteKey}.${siteValueKey}`, siteOverrides[siteValueKey])
               stdout.write('\n')
             }
           }
         } else {
-          const parsedValue = await config.parseArg(value)
-          stdout.write(parsedValue)
+          const parsedValue = await this.parseForDisplay(value)
+          stdout.write(redactSecrets(parsedValue))
 
           if (parsedValue !== value) {
             stdout.write(ansis.dim(` [Parsed from: ${value}]`))
           }
+
+          writeKeySource(key, envOverrides[key])
         }
       } else if (Array.isArray(value)) {
-        const parsedEntries = await Promise.all(value.map((x) => config.parseArg(typeof x === 'string' ? x : x.cmd)))
+        const parsedEntries = await Promise.all(
+          value.map((x) => this.parseForDisplay(typeof x === 'string' ? x : x.cmd)),
+        )
         const outputs: string[] = []
 
         for (const [i, entry] of parsedEntries.entries()) {
-          let line = `  ${entry}`
+          let line = `  ${redactSecrets(entry)}`
           const compare = typeof value[i] === 'string' ? value[i] : value[i].cmd
 
           if (entry !== compare) {
@@ -167,6 +338,7 @@ export class ConfigCommand extends JoltCommand {
 
         const output = parsedEntries.length ? `[\n${outputs.join('\n')}\n]` : '[]'
         stdout.write(output)
+        writeKeySource(key, envOverrides[key])
       } else {
         stdout.write(`Unsupported type: ${JSON.stringify(value)}`)
       }
@@ -181,26 +353,39 @@ export class ConfigInitCommand extends JoltCommand {
 
   requiredCommands: string[] = []
 
+  format: ConfigFileFormat = Option.String('--format', 'json', {
+    validator: t.isEnum(['json', 'yaml', 'ts']),
+    description: 'Format of the config file to create',
+  })
+
   async command(): Promise<number | undefined> {
     const {
       config,
       context: { stdout },
+      format,
     } = this
 
-    const configPath = '.jolt.json'
+    const configPath = CONFIG_INIT_FILES[format]
     let configData: Record<string, unknown> = {}
     let existingFile = false
     let existingContent: string | undefined
 
-    // Check if .jolt.json already exists
+    // Check if the config file already exists
     try {
       existingContent = await readFile(configPath, 'utf-8')
+
+      // Only JSON files are updated, since rewriting YAML or TypeScript would lose comments and code
+      if (format !== 'json') {
+        stdout.write(ansis.yellow(`⚠️  ${configPath} already exists and hasn't been changed\n`))
+        return 0
+      }
+
       configData = JSON.parse(existingContent)
       existingFile = true
-      stdout.write(ansis.yellow('⚠️  .jolt.json already exists\n'))
+      stdout.write(ansis.yellow(`⚠️  ${configPath} already exists\n`))
     } catch (_error) {
       // File doesn't exist or is invalid JSON, create new one
-      stdout.write(ansis.green('📄 Creating new .jolt.json file\n'))
+      stdout.write(ansis.green(`📄 Creating new ${configPath} file\n`))
     }
 
     // Determine the best schema reference to use
@@ -236,6 +421,7 @@ export class ConfigInitCommand extends JoltCommand {
           const remoteResult = await execC(gitCommand, ['remote', 'get-url', 'origin'], {
             shell: false,
             reject: false,
+            readOnly: true,
           })
 
           if (!remoteResult.failed && remoteResult.stdout) {
@@ -300,6 +486,7 @@ export class ConfigInitCommand extends JoltCommand {
           const defaultBranchResult = await execC(gitCommand, ['symbolic-ref', 'refs/remotes/origin/HEAD'], {
             shell: false,
             reject: false,
+            readOnly: true,
           })
 
           if (!defaultBranchResult.failed && defaultBranchResult.stdout) {
@@ -310,6 +497,7 @@ export class ConfigInitCommand extends JoltCommand {
             const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'], {
               shell: false,
               reject: false,
+              readOnly: true,
             })
 
             if (!currentBranchResult.failed && currentBranchResult.stdout) {
@@ -326,38 +514,397 @@ export class ConfigInitCommand extends JoltCommand {
     configData = newConfigData
 
     // Preserve existing indentation style or use 2 spaces for new files
-    let indent: string | number = 2
+    const indent = existingFile && existingContent ? detectIndent(existingContent) : 2
+
+    // Write the file
+    await writeFile(configPath, serialiseConfig(configData, format, indent))
 
-    if (existingFile && existingContent) {
-      // Detect existing indentation by looking for the first indented line
-      const lines = existingContent.split('\n')
+    if (existingFile) {
+      stdout.write(ansis.green(`✅ Updated ${configPath} with schema reference\n`))
+    } else {
+      stdout.write(ansis.green(`✅ Created ${configPath} with example configuration\n`))
+    }
 
-      for (const line of lines) {
-        const match = line.match(/^(\s+)/)
+    if (format !== 'ts') {
+      stdout.write(ansis.dim(`Schema reference: ${schemaReference} (${schemaSource})\n`))
+    }
 
-        if (match) {
-          indent = match[1].includes('\t') ? '\t' : match[1].length
-          break
+    stdout.write(ansis.dim(`You can now edit ${configPath} with full IDE autocompletion support!\n`))
+
+    return 0
+  }
+}
+
+export class ConfigGetCommand extends JoltCommand {
+  static paths = [['config', 'get']]
+
+  raw = Option.Boolean('--raw', false, { description: 'Show the value before placeholders are replaced' })
+  reveal = Option.Boolean('--reveal', false, {
+    description: 'Show secrets, such as values from {ssm:…} and {secretsmanager:…}, instead of masking them',
+  })
+  key = Option.String({ name: 'key' })
+
+  get redactResult(): boolean {
+    return !this.reveal
+  }
+
+  async command(): Promise<number | undefined> {
+    const {
+      config,
+      context: { stderr, stdout },
+      key,
+      raw,
+      reveal,
+    } = this
+
+    const [rootKey, ...keyPath] = key.split('.')
+    let rootValue: unknown
+
+    try {
+      rootValue = raw ? config.getRawValue(rootKey) : await config.get(rootKey)
+    } catch (error) {
+      if (error instanceof InterpolationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    const value = getConfigValue(rootValue, keyPath)
+
+    if (value === undefined) {
+      stderr.write(ansis.red(`Config key "${key}" isn't set\n`))
+      return 1
+    }
+
+    const output = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+    stdout.write(`${reveal ? output : redactSecrets(output)}\n`)
+    this.setResult({ key, value })
+    return 0
+  }
+}
+
+export class ConfigSetCommand extends JoltCommand {
+  static paths = [['config', 'set']]
+
+  parseJson = Option.Boolean('--parse-json', false, {
+    description: 'Parse the value as JSON, e.g. to set a number, list or object',
+  })
+  append = Option.Boolean('--append', false, {
+    description: 'Add the value to the end of a list such as prepareCommands',
+  })
+  global = Option.Boolean('--global', false, {
+    description: "Edit the user config in ~/.config/jolt instead of the project's config file",
+  })
+  key = Option.String({ name: 'key' })
+  value = Option.String({ name: 'value' })
+
+  async command(): Promise<number | undefined> {
+    const {
+      append,
+      context: { stderr, stdout },
+      global,
+      key,
+      parseJson,
+      site,
+      value,
+    } = this
+
+    const keyPath = getKeyPath(key, site)
+    let newValue: unknown = value
+
+    if (parseJson) {
+      try {
+        newValue = JSON.parse(value)
+      } catch {
+        stderr.write(ansis.red(`Invalid JSON value: ${value}\n`))
+        return 1
+      }
+    }
+
+    const configPath = getEditableConfigPath(this.config, global)
+    let file: ConfigFile
+
+    try {
+      file = await readConfigFile(configPath)
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    if (append) {
+      const existing = getConfigValue(file.data, keyPath) ?? []
+
+      if (!Array.isArray(existing)) {
+        stderr.write(ansis.red(`Can't append to ${keyPath.join('.')} because it isn't a list\n`))
+        return 1
+      }
+
+      newValue = [...existing, newValue]
+    }
+
+    try {
+      setConfigValue(file.data, keyPath, newValue)
+      await writeConfigFile(file)
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    stdout.write(ansis.green(`✅ Set ${keyPath.join('.')} in ${formatSourcePath(configPath)}\n`))
+    return 0
+  }
+}
+
+export class ConfigUnsetCommand extends JoltCommand {
+  static paths = [['config', 'unset']]
+
+  global = Option.Boolean('--global', false, {
+    description: "Edit the user config in ~/.config/jolt instead of the project's config file",
+  })
+  key = Option.String({ name: 'key' })
+
+  async command(): Promise<number | undefined> {
+    const {
+      context: { stderr, stdout },
+      global,
+      key,
+      site,
+    } = this
+
+    const keyPath = getKeyPath(key, site)
+    const configPath = getEditableConfigPath(this.config, global)
+
+    try {
+      const file = await readConfigFile(configPath)
+
+      if (!unsetConfigValue(file.data, keyPath)) {
+        stderr.write(ansis.yellow(`${keyPath.join('.')} isn't set in ${formatSourcePath(configPath)}\n`))
+        return 1
+      }
+
+      await writeConfigFile(file)
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    stdout.write(ansis.green(`✅ Removed ${keyPath.join('.')} from ${formatSourcePath(configPath)}\n`))
+    return 0
+  }
+}
+
+/**
+ * Format the changes to a file as a coloured unified diff
+ */
+function formatDiff(fileName: string, before: string, after: string): string {
+  const lines = createTwoFilesPatch(fileName, fileName, before, after).split('\n')
+  // Skip the `Index:` and separator lines that come before the file names
+  const start = lines.findIndex((x) => x.startsWith('---'))
+
+  return lines
+    .slice(start)
+    .map((line) => {
+      if (line.startsWith('---') || line.startsWith('+++')) {
+        return ansis.bold(line)
+      }
+
+      if (line.startsWith('@@')) {
+        return ansis.cyan(line)
+      }
+
+      if (line.startsWith('+')) {
+        return ansis.green(line)
+      }
+
+      return line.startsWith('-') ? ansis.red(line) : line
+    })
+    .join('\n')
+    .trimEnd()
+}
+
+export class ConfigMigrateCommand extends JoltCommand {
+  static paths = [['config', 'migrate']]
+
+  requiredCommands: string[] = []
+
+  dryRun = Option.Boolean('--dry-run', false, {
+    description: 'Show the changes without writing any files',
+  })
+
+  async command(): Promise<number | undefined> {
+    const {
+      config,
+      context: { stderr, stdout },
+      dryRun,
+    } = this
+
+    let file: ConfigFile
+
+    try {
+      file = await readConfigFile(getEditableConfigPath(config, false))
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    const localFile = await readConfigFile(LOCAL_CONFIG_FILE)
+    const { data, localData, files, completedFiles, warnings } = await migrateConfig(file, localFile)
+
+    for (const warning of warnings) {
+      stderr.write(ansis.yellow(`⚠️  ${warning}\n`))
+    }
+
+    if (files.length === 0) {
+      stdout.write(ansis.green('✅ Nothing to migrate\n'))
+      return 0
+    }
+
+    const changes = [
+      { file, data },
+      { file: localFile, data: localData },
+    ]
+    const changedFiles: Array<{ file: ConfigFile; data: Record<string, unknown>; existed: boolean }> = []
+
+    for (const change of changes) {
+      const before = serialiseConfigFile({ ...change.file, data: change.file.original })
+      const after = serialiseConfigFile({ ...change.file, data: change.data })
+
+      if (before === after) {
+        continue
+      }
+
+      const existed = await fileExists(change.file.path)
+      stdout.write(`${formatDiff(change.file.path, existed ? before : '', after)}\n`)
+      changedFiles.push({ ...change, existed })
+    }
+
+    if (dryRun) {
+      const renamed = completedFiles.length > 0 ? ` and ${completedFiles.join(', ')} renamed to *.bak` : ''
+      stdout.write(ansis.dim(`\nDry run - ${files.join(', ')} would be migrated${renamed}\n`))
+      return 0
+    }
+
+    try {
+      for (const { file: changedFile, data: changedData, existed } of changedFiles) {
+        if (existed) {
+          await copyFile(changedFile.path, `${changedFile.path}.bak`)
         }
+
+        await writeConfigFile({ ...changedFile, data: changedData })
+      }
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
       }
+
+      throw error
     }
 
-    // Write the file
-    await writeFile(configPath, `${JSON.stringify(configData, null, indent)}\n`)
+    // Rename the files that were fully migrated so they aren't loaded as well
+    for (const migratedFile of completedFiles) {
+      await rename(migratedFile, `${migratedFile}.bak`)
+    }
 
-    if (existingFile) {
-      stdout.write(ansis.green('✅ Updated .jolt.json with schema reference\n'))
-    } else {
-      stdout.write(ansis.green('✅ Created .jolt.json with example configuration\n'))
+    const targets = changedFiles.map((x) => x.file.path).join(' and ')
+    stdout.write(ansis.green(`\n✅ Migrated ${files.join(', ')} into ${targets}\n`))
+
+    if (completedFiles.length > 0) {
+      stdout.write(ansis.dim(`${completedFiles.join(', ')} renamed to *.bak\n`))
     }
 
-    stdout.write(ansis.dim(`Schema reference: ${schemaReference} (${schemaSource})\n`))
-    stdout.write(ansis.dim('You can now edit .jolt.json with full IDE autocompletion support!\n'))
+    const kept = files.filter((x) => !completedFiles.includes(x))
+
+    if (kept.length > 0) {
+      stdout.write(ansis.dim(`${kept.join(', ')} kept, as they still have values that other tools may use\n`))
+    }
 
     return 0
   }
 }
 
+export class ConfigExplainCommand extends JoltCommand {
+  static paths = [['config', 'explain']]
+
+  key = Option.String({ name: 'key' })
+
+  async command(): Promise<number | undefined> {
+    const {
+      config,
+      context: { stdout },
+      key,
+    } = this
+
+    const explanation = await config.explain(key)
+    const { environment, helper, selected, site } = explanation
+    const scope = [site && `site: ${site}`, environment && `environment: ${environment}`].filter((x) => !!x).join(', ')
+
+    stdout.write(ansis.bold.whiteBright(this.getHeader(`Config: ${key}${scope ? ` (${scope})` : ''}`)))
+    stdout.write(ansis.bold.blue('Checked in order:\n'))
+
+    for (const candidate of explanation.candidates) {
+      const isSelected = candidate.path === selected?.path
+      const marker = isSelected ? ansis.green('✔') : ansis.dim('·')
+      const source = candidate.source ? ` ${ansis.gray(`[${candidate.source}]`)}` : ''
+      const line = `${candidate.path} ${ansis.dim(`(${candidate.label})`)}: ${formatValue(candidate.value)}${source}`
+
+      stdout.write(`  ${marker} ${isSelected ? ansis.bold(line) : line}\n`)
+    }
+
+    if (!selected && explanation.schemaDefault !== undefined) {
+      stdout.write(`  ${ansis.green('✔')} ${ansis.bold(`Schema default: ${formatValue(explanation.schemaDefault)}`)}\n`)
+    }
+
+    if (explanation.environmentOnly) {
+      stdout.write(
+        ansis.yellow(`\n⚠️ ${key} doesn't fall back to the site or root config in the ${environment} environment\n`),
+      )
+    }
+
+    stdout.write(`\n${ansis.bold('Raw value:')} ${formatValue(explanation.rawValue)}\n`)
+    stdout.write(`${ansis.bold('Value:')} ${formatValue(explanation.value)}\n`)
+
+    if (explanation.trace.length > 0) {
+      stdout.write(ansis.bold.blue('\nPlaceholders:\n'))
+      this.writeTrace(explanation.trace)
+    }
+
+    if (helper) {
+      stdout.write(`\n${ansis.bold(`Used by commands through ${helper.name}():`)} ${formatValue(helper.value)}\n`)
+      this.writeTrace(helper.trace)
+    }
+
+    return 0
+  }
+
+  private writeTrace(trace: InterpolationTrace[], depth = 1) {
+    const { stdout } = this.context
+
+    for (const node of trace) {
+      stdout.write(`${'  '.repeat(depth)}${node.lookup} ${ansis.dim('→')} ${formatValue(node.value)}\n`)
+      this.writeTrace(node.children, depth + 1)
+    }
+  }
+}
+
 export class ConfigSitesCommand extends JoltCommand {
   static paths = [['config', 'sites']]
 
@@ -375,6 +922,7 @@ export class ConfigSitesCommand extends JoltCommand {
 
     const sites = config.getSites()
     const siteKeys = Object.keys(sites)
+    this.setResult({ sites: siteKeys })
 
     switch (format) {
       case 'spaces':
@@ -391,3 +939,57 @@ export class ConfigSitesCommand extends JoltCommand {
     return 0
   }
 }
+
+export class ConfigValidateCommand extends JoltCommand {
+  static paths = [['config', 'validate']]
+
+  strict = Option.Boolean('--strict', false, { description: 'Also exit with an error code if there are warnings' })
+
+  async command(): Promise<number | undefined> {
+    const {
+      config,
+      context: { stdout },
+      strict,
+    } = this
+
+    const issues = validateConfig(config.internalConfig)
+    const tfPlaceholders = findPlaceholders(config.internalConfig).filter(
+      (x) => ['tf', 'tofu', 'terraform'].includes(x.type) && !x.hasFallback,
+    )
+
+    for (const placeholder of tfPlaceholders) {
+      const value = await config.tfVar(placeholder.name)
+
+      if (value === undefined) {
+        issues.push({
+          path: placeholder.path,
+          message: `Placeholder {${placeholder.type}:${placeholder.name}} doesn't match a Terraform output`,
+          severity: 'warning',
+        })
+      }
+    }
+
+    stdout.write(ansis.bold.whiteBright(this.getHeader('Config Validation')))
+    this.setResult({ issues })
+
+    if (issues.length === 0) {
+      stdout.write(ansis.green('✅ Config is valid\n'))
+      return 0
+    }
+
+    const errors = issues.filter((x) => x.severity === 'error')
+    const warnings = issues.filter((x) => x.severity === 'warning')
+
+    for (const issue of errors) {
+      stdout.write(ansis.red(`❌ ${issue.path ? `${issue.path}: ` : ''}${issue.message}\n`))
+    }
+
+    for (const issue of warnings) {
+      stdout.write(ansis.yellow(`⚠️ ${issue.path ? `${issue.path}: ` : ''}${issue.message}\n`))
+    }
+
+    stdout.write(`\n${errors.length} error(s), ${warnings.length} warning(s)\n`)
+
+    return errors.length > 0 || (strict && warnings.length > 0) ? 1 : 0
+  }
+}
@@ -5,9 +5,8 @@ import { pipeline } from 'node:stream/promises'
 import { createGzip } from 'node:zlib'
 import ansis from 'ansis'
 import { Option } from 'clipanion'
-import { execa } from 'execa'
 import * as t from 'typanion'
-import { delay, execC, which } from '../utils.js'
+import { delay, execC, isDryRun, which } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
 /**
@@ -60,6 +59,7 @@ async function getDatabaseSize(
       {
         shell: false,
         reject: false,
+        readOnly: true,
       },
     )
 
@@ -205,9 +205,10 @@ export class DBDumpCommand extends JoltCommand {
     // Start progress monitoring (only if not quiet)
     const stopProgress = quiet ? () => {} : startProgressMonitor(filePath, stderr, dbSize || undefined)
 
-    let result: Awaited<ReturnType<typeof execa>>
+    let result: Awaited<ReturnType<typeof execC>>
     try {
-      result = await execa(composeCommand, args, {
+      result = await execC(composeCommand, args, {
+        shell: false,
         buffer: { stdout: false },
         stderr,
         stdout: { file: filePath },
@@ -220,9 +221,9 @@ export class DBDumpCommand extends JoltCommand {
     if (shouldGzip) {
       if (await which('gzip')) {
         stderr.write(ansis.blue('🛢️ Gzipping file...\n'))
-        await execa('gzip', ['--force', filePath], { stdout, stderr })
+        await execC('gzip', ['--force', filePath], { shell: false, stdout, stderr })
         filePath = `${filePath}.gz`
-      } else {
+      } else if (!isDryRun()) {
         stderr.write(ansis.blue('🛢️ Gzipping file using Node zlib...\n'))
         stderr.write(
           ansis.yellow('⚠️  Note: Using Node.js compression may be slower than external gzip for large files.\n'),
@@ -264,6 +265,13 @@ export class DBDumpCommand extends JoltCommand {
       stdout.write(ansis.blue(`🛢️ Successfully dumped contents of the DB in container '${container}' to ${filePath}.\n`))
     }
 
+    this.setResult({
+      container,
+      file: filePath,
+      size: statSync(filePath, { throwIfNoEntry: false })?.size,
+      databaseSize: dbSize ?? undefined,
+    })
+
     return result.exitCode
   }
 }
@@ -336,6 +344,8 @@ export class DBResetCommand extends JoltCommand {
         stdout.write(ansis.blue(`🛢️ Deleting the following volumes: ${fullVolumeNames.join(', ')}\n`))
       }
 
+      this.setResult({ deletedVolumes: fullVolumeNames })
+
       await execC(await config.command('docker'), ['volume', 'rm', ...fullVolumeNames], {
         stdout: 'ignore',
         stderr,
@@ -354,7 +364,7 @@ export class DBResetCommand extends JoltCommand {
     }
 
     await execC(composeCommand, [...args, 'up', '--detach'], { context })
-    const devPlugins = await await config.get('devPlugins')
+    const devPlugins = await config.get('devPlugins')
 
     if (devPlugins) {
       const devPluginDelay = await config.get('devPluginDelay')
@@ -460,6 +470,8 @@ export class DBAwaitCommand extends JoltCommand {
           stdout.write(ansis.blue(`\n🛢️ DB container ${realTarget} is loaded.\n`))
         }
 
+        this.setResult({ container: realTarget })
+
         return 0
       }
 
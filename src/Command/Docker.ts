@@ -1,11 +1,10 @@
 import ansis from 'ansis'
 import { Option } from 'clipanion'
 import { ExecaError, execa } from 'execa'
-import { execC, which } from '../utils.js'
+import { redactSecrets } from '../secrets.js'
+import { execC, isDryRun, toStdio, which, writeDryRunCommand } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
-const notEmpty = (x: string) => x !== ''
-
 export abstract class DockerCommand extends JoltCommand {
   requiredCommands = ['docker']
   dev = Option.Boolean('--dev', false, { description: 'Use development configuration' })
@@ -17,16 +16,16 @@ export class DockerCombinedCommand extends DockerCommand {
   deploy = Option.Boolean('--deploy', { description: 'Also deploy to AWS ECS after building and pushing' })
 
   async command(): Promise<number | undefined> {
-    const { cli, context, deploy, dev } = this
-    const devArg = dev ? '--dev' : ''
+    const { cli, context, deploy, environmentArgs } = this
 
-    await cli.run(['docker', 'build', devArg].filter(notEmpty), context)
-    await cli.run(['docker', 'tag', devArg].filter(notEmpty), context)
+    // docker build passes the rest of its arguments on, so the environment goes before its path
+    await cli.run([...environmentArgs, 'docker', 'build'], context)
+    await cli.run(['docker', 'tag', ...environmentArgs], context)
 
     if (deploy) {
-      await cli.run(['docker', 'login'], context)
-      await cli.run(['docker', 'push', devArg].filter(notEmpty), context)
-      await cli.run(['aws', 'ecs', 'deploy', devArg].filter(notEmpty), context)
+      await cli.run(['docker', 'login', ...environmentArgs], context)
+      await cli.run(['docker', 'push', ...environmentArgs], context)
+      await cli.run(['aws', 'ecs', 'deploy', ...environmentArgs], context)
     }
 
     return 0
@@ -43,11 +42,11 @@ export class DockerBuildCommand extends DockerCommand {
       config,
       context,
       context: { stdout, stderr },
-      dev,
+      environment,
     } = this
 
-    const imageName = await config.getDockerImageName(dev)
-    const imageType = dev ? 'dev' : 'prod'
+    const imageName = await config.getDockerImageName()
+    const imageType = environment ?? 'prod'
     const dockerCommand = await config.command('docker')
 
     if (!imageName) {
@@ -61,10 +60,11 @@ export class DockerBuildCommand extends DockerCommand {
     }
 
     stdout.write(ansis.blue(`🐳 Building image ${imageName} for ${imageType} using ${dockerCommand}...\n`))
+    this.setResult({ image: imageName, imageType })
 
     const args = await this.buildCommandArgs()
     const command = [dockerCommand, ...args].join(' ')
-    stdout.write(`Running command: ${command}\n`)
+    stdout.write(`Running command: ${redactSecrets(command)}\n`)
 
     const result = await execC(dockerCommand, args, { context })
 
@@ -72,17 +72,17 @@ export class DockerBuildCommand extends DockerCommand {
   }
 
   async buildCommandArgs(): Promise<string[]> {
-    const { args, config, dev } = this
+    const { args, config, environment } = this
 
     // Include backwards compat for old --no-provenance config
     const parsedArgsPromises = args.map((x) => (x === '--no-provenance' ? '--provenance=false' : config.parseArg(x)))
     const parsedArgs = await Promise.all(parsedArgsPromises)
-    const imageName = await config.getDockerImageName(dev)
+    const imageName = await config.getDockerImageName()
     const platform = await config.get('buildPlatform')
     const context = await config.get('buildContext')
     const configuredBuildArgs = await this.getConfiguredBuildArgsAsStrings()
     const dockerFile = await config.getDockerfilePath()
-    const devBuildArg = dev ? '--build-arg=DEVBUILD=1' : ''
+    const devBuildArg = environment === 'dev' ? '--build-arg=DEVBUILD=1' : ''
     const allBuildArgs = [devBuildArg, ...configuredBuildArgs, ...parsedArgs]
 
     return [
@@ -92,7 +92,7 @@ export class DockerBuildCommand extends DockerCommand {
       dockerFile && `-f ${dockerFile}`,
       `-t ${imageName}`,
       ...allBuildArgs,
-      context ?? '.',
+      context,
     ]
       .filter((x) => !!x)
       .map(String)
@@ -122,8 +122,17 @@ export class DockerLoginCommand extends DockerCommand {
     } = this
 
     // First try to get the ECR repo URL and base URL
-    const ecrRepoUrl = await config.get('ecrRepoUrl').then((url) => url ?? config.tfVar('ecr_repo_url'))
-    const ecrBaseUrl = await config.get('ecrBaseUrl').then((url) => url ?? config.tfVar('ecr_base_url'))
+    const getUrl = async (key: string, tfKey: string) => {
+      const url = (await config.get(key)) ?? (await config.tfVar(tfKey))
+      return typeof url === 'string' ? url : undefined
+    }
+    const ecrRepoUrl = await getUrl('ecrRepoUrl', 'ecr_repo_url')
+    const ecrBaseUrl = await getUrl('ecrBaseUrl', 'ecr_base_url')
+
+    if (!ecrBaseUrl) {
+      stderr.write(ansis.red('🐳 ECR base URL must be configured!\n'))
+      return 1
+    }
 
     // Try to extract region from ECR repo URL first
     let region = null
@@ -137,14 +146,13 @@ export class DockerLoginCommand extends DockerCommand {
 
     // Fall back to other region sources if we couldn't extract it from URL
     if (!region) {
-      const awsRegion = await config.get('awsRegion')
-
-      if (awsRegion) {
-        region = awsRegion
+      // Only use an explicitly configured region here so that the Terraform output can take priority over the default
+      if (config.has('awsRegion')) {
+        region = await config.get('awsRegion')
       } else {
         const tfRegion = await config.tfVar('region')
 
-        if (tfRegion) {
+        if (typeof tfRegion === 'string' && tfRegion) {
           region = tfRegion
         } else {
           region = await config.awsRegion()
@@ -153,12 +161,24 @@ export class DockerLoginCommand extends DockerCommand {
     }
 
     stdout.write(ansis.blue(`🐳 Logging in to ECR repository ${ecrBaseUrl} on ${region}...\n`))
+    this.setResult({ registry: ecrBaseUrl, region })
+
+    const awsCommand = await config.command('aws')
+    const dockerCommand = await config.command('docker')
+
+    if (isDryRun()) {
+      writeDryRunCommand(
+        `${awsCommand} ecr get-login-password --region ${region} | ${dockerCommand} login --username AWS --password-stdin ${ecrBaseUrl}`,
+        { context: this.context },
+      )
+      return 0
+    }
 
     try {
-      const result = await execa(await config.command('aws'), ['ecr', 'get-login-password', '--region', region]).pipe(
-        await config.command('docker'),
+      const result = await execa(awsCommand, ['ecr', 'get-login-password', '--region', region]).pipe(
+        dockerCommand,
         ['login', '--username', 'AWS', '--password-stdin', ecrBaseUrl],
-        { stdout, stderr },
+        { stdout: toStdio(stdout), stderr: toStdio(stderr) },
       )
 
       return result.exitCode
@@ -183,16 +203,16 @@ export class DockerTagCommand extends DockerCommand {
     const {
       cli,
       config,
-      dev,
       context,
       context: { stdout, stderr },
+      environmentArgs,
       gitTag,
       tag,
     } = this
 
     const dockerCommand = await config.command('docker')
-    const imageName = await config.getDockerImageName(dev)
-    const remoteRepo = await config.getRemoteRepo(dev)
+    const imageName = await config.getDockerImageName()
+    const remoteRepo = await config.getRemoteRepo()
     const localTag = 'latest'
     const remoteTag = tag ?? 'latest'
     const args = ['tag', `${imageName}:${localTag}`, `${remoteRepo}:${remoteTag}`]
@@ -208,29 +228,17 @@ export class DockerTagCommand extends DockerCommand {
     }
 
     stdout.write(ansis.blue(`🐳 Tagging image ${imageName}:${localTag} as ${remoteRepo}:${remoteTag}...\n`))
+    this.setResult({ image: `${imageName}:${localTag}`, tag: `${remoteRepo}:${remoteTag}` })
 
     const result = await execC(dockerCommand, args, { context })
 
     if (gitTag) {
-      const gitCommand = await config.command('git')
+      const shaTag = await config.gitVar('shortSha')
 
-      if (gitCommand) {
-        const commitShaResult = await execC(gitCommand, ['rev-parse', 'HEAD'], { shell: false, reject: false, stderr })
-
-        if (commitShaResult.failed) {
-          stderr.write(ansis.yellow('🐳 Failed to find Git SHA.\n'))
-        } else {
-          const sha = commitShaResult.stdout?.toString()
-
-          if (sha) {
-            const shaTag = sha.slice(0, 8)
-            await cli.run(['docker', 'tag', '--no-git-tag', shaTag])
-          } else {
-            stderr.write(ansis.yellow('🐳 Cannot tag image with Git SHA because the tag command returned nothing.\n'))
-          }
-        }
+      if (shaTag) {
+        await cli.run(['docker', 'tag', '--no-git-tag', ...environmentArgs, shaTag])
       } else {
-        stderr.write(ansis.yellow('🐳 Cannot tag image with Git SHA because git command was not found.\n'))
+        stderr.write(ansis.yellow('🐳 Failed to find Git SHA.\n'))
       }
     }
 
@@ -252,13 +260,13 @@ export class DockerPushCommand extends DockerCommand {
       config,
       context,
       context: { stdout, stderr },
-      dev,
+      environmentArgs,
       gitTag,
       tag,
     } = this
 
     const dockerCommand = await config.command('docker')
-    const remoteRepo = await config.getRemoteRepo(dev)
+    const remoteRepo = await config.getRemoteRepo()
     const remoteTag = tag ?? 'latest'
 
     const args = ['push', `${remoteRepo}:${remoteTag}`]
@@ -274,28 +282,16 @@ export class DockerPushCommand extends DockerCommand {
     }
 
     stdout.write(ansis.blue(`🐳 Pushing image ${remoteRepo}:${remoteTag}...\n`))
+    this.setResult({ image: `${remoteRepo}:${remoteTag}` })
     const result = await execC(dockerCommand, args, { context })
 
     if (gitTag) {
-      const gitCommand = await config.command('git')
-
-      if (gitCommand) {
-        const commitShaResult = await execC(gitCommand, ['rev-parse', 'HEAD'], { shell: false, reject: false, stderr })
+      const shaTag = await config.gitVar('shortSha')
 
-        if (commitShaResult.failed) {
-          stderr.write(ansis.yellow('🐳 Failed to find Git SHA.\n'))
-        } else {
-          const sha = commitShaResult.stdout?.toString()
-
-          if (sha) {
-            const shaTag = sha.slice(0, 8)
-            await cli.run(['docker', 'push', '--no-git-tag', shaTag])
-          } else {
-            stderr.write(ansis.yellow('🐳 Cannot tag image with Git SHA because the tag command returned nothing.\n'))
-          }
-        }
+      if (shaTag) {
+        await cli.run(['docker', 'push', '--no-git-tag', ...environmentArgs, shaTag])
       } else {
-        stderr.write(ansis.yellow('🐳 Cannot tag image with Git SHA because git command was not found.\n'))
+        stderr.write(ansis.yellow('🐳 Failed to find Git SHA.\n'))
       }
     }
 
@@ -314,30 +310,28 @@ export class DockerManifestCommand extends DockerCommand {
       cli,
       config,
       context: { stdout, stderr },
-      dev,
+      environmentArgs,
     } = this
 
-    const devArg = dev ? '--dev' : ''
-    const remoteRepo = config.getRemoteRepo(dev)
+    const remoteRepo = config.getRemoteRepo()
 
-    await cli.run(['docker', 'login', devArg].filter(notEmpty), { stdout: stderr })
+    await cli.run(['docker', 'login', ...environmentArgs], { stdout: stderr })
 
     if (build) {
-      await cli.run(['docker', 'build', devArg, '--no-provenance'].filter(notEmpty), { stdout: stderr })
+      await cli.run([...environmentArgs, 'docker', 'build', '--no-provenance'], { stdout: stderr })
     }
 
-    const result = await execC(await config.command('docker'), [
-      'buildx',
-      'imagetools',
-      'inspect',
-      await remoteRepo,
-      "--format='{{json .Manifest}}'",
-    ])
+    const result = await execC(
+      await config.command('docker'),
+      ['buildx', 'imagetools', 'inspect', await remoteRepo, "--format='{{json .Manifest}}'"],
+      { readOnly: true },
+    )
 
     const json = JSON.parse(result.stdout?.toString() || '{}')
 
     if (json.digest) {
       stdout.write(`${json.digest}\n`)
+      this.setResult({ digest: json.digest })
       return 0
     }
 
@@ -3,18 +3,76 @@ import ansis from 'ansis'
 import { Command, Option } from 'clipanion'
 import * as t from 'typanion'
 import type { Config } from '../Config.js'
-import getConfig, { getSiteConfig } from '../Config.js'
-import { which } from '../utils.js'
+import getConfig, { getSiteConfig, runWithHookResult } from '../Config.js'
+import { redactSecrets } from '../secrets.js'
+import type { CommandResult, HookTiming, PrepareCommandConfig } from '../types/index.js'
+import { isDryRun, PrefixedStream, runDryRun, which } from '../utils.js'
 
 // Per-execution async context for config to support parallel site execution
 const configContext = new AsyncLocalStorage<Config>()
 
+type ResultScope = {
+  result: CommandResult
+  // Whether the result is written as JSON, in which case stdout is kept for it
+  json: boolean
+}
+
+// The result of the running command, which hooks can refer to and commands run through cli.run() add their own
+// results to
+const resultContext = new AsyncLocalStorage<ResultScope>()
+
+// Set while hooks are running, so that the commands they run don't run hooks of their own
+const hookContext = new AsyncLocalStorage<boolean>()
+
+// Colours for the site prefixes with `--for-each-site`, avoiding red so that they don't look like errors
+const SITE_COLOURS = [ansis.cyan, ansis.magenta, ansis.green, ansis.yellow, ansis.blue]
+
+// How a site's run went with `--for-each-site`. Sites without an exit code were skipped after another site failed.
+type SiteRun = {
+  site: string
+  exitCode?: number
+  duration?: number
+}
+
+/**
+ * Split options that can be repeated or given as comma-separated lists
+ */
+function splitList(values: string[] = []): string[] {
+  return [
+    ...new Set(
+      values
+        .flatMap((x) => x.split(','))
+        .map((x) => x.trim())
+        .filter((x) => !!x),
+    ),
+  ]
+}
+
 export default abstract class JoltCommand extends Command {
   logo = ansis.magentaBright('⚡')
   private _config!: Config
   requiredCommands: string[] = []
   requiredConfig: string[] = []
   site = Option.String('-s,--site', { required: false, description: 'Target site configuration to use' })
+  env = Option.String('--env', { required: false, description: 'Target environment configuration to use' })
+  configFile = Option.String('--config', {
+    required: false,
+    description: 'Config file to use instead of searching for one (defaults to $JOLT_CONFIG)',
+  })
+
+  dryRun = Option.Boolean('--dry-run', false, {
+    description: 'Print the commands that would be run, with secrets masked, instead of running them',
+  })
+
+  json = Option.Boolean('--json', false, {
+    description: 'Write the result to stdout as JSON, and everything else to stderr (same as --output json)',
+  })
+
+  output = Option.String('--output', {
+    required: false,
+    validator: t.isEnum(['text', 'json']),
+    description: 'Output format: text (the default) or json',
+  })
 
   forEachSite = Option.String('-x,--for-each-site', false, {
     tolerateBoolean: true,
@@ -23,7 +81,37 @@ export default abstract class JoltCommand extends Command {
     validator: t.isEnum([false, 'series', 'parallel']),
   })
 
-  static schema = [t.hasMutuallyExclusiveKeys(['site', 'forEachSite'], { missingIf: 'falsy' })]
+  sites = Option.String('--sites', {
+    required: false,
+    description: 'Comma-separated list of sites to run the command for. Implies --for-each-site.',
+  })
+
+  excludeSite = Option.Array('--exclude-site', {
+    required: false,
+    description: 'Site to leave out when running the command for each site. Can be repeated or comma-separated.',
+  })
+
+  siteTag = Option.Array('--site-tag', {
+    required: false,
+    description: 'Only run the command for sites with this tag. Can be repeated to match sites with any of the tags.',
+  })
+
+  concurrency = Option.String('--concurrency', {
+    required: false,
+    validator: t.cascade(t.isNumber(), [t.isInteger(), t.isAtLeast(1)]),
+    description: 'Number of sites to run at once. Defaults to 1 in series and every site in parallel.',
+  })
+
+  continueOnError = Option.Boolean('--continue-on-error', false, {
+    description: 'Keep running the command for the remaining sites when it fails for one',
+  })
+
+  static schema = [
+    t.hasMutuallyExclusiveKeys(['site', 'forEachSite'], { missingIf: 'falsy' }),
+    t.hasMutuallyExclusiveKeys(['site', 'sites'], { missingIf: 'falsy' }),
+    t.hasMutuallyExclusiveKeys(['site', 'excludeSite'], { missingIf: 'falsy' }),
+    t.hasMutuallyExclusiveKeys(['site', 'siteTag'], { missingIf: 'falsy' }),
+  ]
 
   abstract command(): Promise<number | undefined>
 
@@ -42,6 +130,50 @@ export default abstract class JoltCommand extends Command {
     this._config = value
   }
 
+  /**
+   * Whether the command should write its result as JSON
+   */
+  get jsonOutput(): boolean {
+    return this.json || this.output === 'json'
+  }
+
+  /**
+   * Whether to mask secrets in the JSON result, which commands that can reveal them override
+   */
+  get redactResult(): boolean {
+    return true
+  }
+
+  /**
+   * Add details to the command's result, which is written out with `--json` and available to hooks
+   */
+  setResult(values: Record<string, unknown>) {
+    const scope = resultContext.getStore()
+
+    if (scope) {
+      Object.assign(scope.result, values)
+    }
+  }
+
+  /**
+   * The environment to use, from `--env` or the legacy `--dev` flag that some commands provide
+   */
+  get environment(): string | undefined {
+    if (this.env) {
+      return this.env
+    }
+
+    return 'dev' in this && this.dev === true ? 'dev' : undefined
+  }
+
+  /**
+   * Arguments to pass the current environment on when running another command through `cli.run()`
+   */
+  get environmentArgs(): string[] {
+    const { environment } = this
+    return environment ? [`--env=${environment}`] : []
+  }
+
   /**
    * Override this method to provide dynamic config requirements based on command options
    */
@@ -71,8 +203,11 @@ export default abstract class JoltCommand extends Command {
     }
 
     if (missingConfig.length > 0) {
+      const { environment } = this
+      const suffix = environment ? ` for the ${environment} environment` : ''
+
       stderr.write(this.getHeader())
-      stderr.write(ansis.red('Missing the following required config entries:\n'))
+      stderr.write(ansis.red(`Missing the following required config entries${suffix}:\n`))
 
       for (const missingConfigKey of missingConfig) {
         stderr.write(ansis.red(`- ${missingConfigKey}\n`))
@@ -91,12 +226,100 @@ export default abstract class JoltCommand extends Command {
   }
 
   async execute(): Promise<number | undefined> {
+    const parent = resultContext.getStore()
+    const json = parent?.json ?? this.jsonOutput
+    const { stdout, stderr } = this.context
+
+    if (json) {
+      // Keep stdout for the JSON result, including in commands run through cli.run() with their own context
+      this.context = { ...this.context, stdout: stderr }
+    }
+
+    const result: CommandResult = {
+      command: this.path.join(' '),
+      exitCode: 0,
+      ...((this.dryRun || isDryRun()) && { dryRun: true }),
+    }
+    let exitCode: number | undefined
+
+    try {
+      exitCode = await resultContext.run({ result, json }, () => this.executeWithDryRun())
+    } catch (error) {
+      if (parent || !json) {
+        throw error
+      }
+
+      // Clipanion would print the error to stdout, so report it in the result instead
+      result.error = error instanceof Error ? error.message : String(error)
+      stderr.write(ansis.red(`${result.error}\n`))
+      exitCode = 1
+    }
+
+    result.exitCode = exitCode ?? 0
+
+    if (parent) {
+      parent.result.steps = [...(parent.result.steps ?? []), result]
+    } else if (json) {
+      const output = JSON.stringify(result, null, 2)
+      stdout.write(`${this.redactResult ? redactSecrets(output) : output}\n`)
+    }
+
+    return exitCode
+  }
+
+  private async executeWithDryRun(): Promise<number | undefined> {
+    // Commands run through cli.run() are already in dry-run mode if the command that ran them is
+    if (this.dryRun && !isDryRun()) {
+      this.context.stderr.write(ansis.yellow('🔍 Dry run - commands will be printed instead of being run\n\n'))
+      return await runDryRun(() => this.executeCommand())
+    }
+
+    return await this.executeCommand()
+  }
+
+  private async executeCommand(): Promise<number | undefined> {
     const { stderr } = this.context
-    const config = await getConfig()
+    const config = await getConfig(this.configFile ?? process.env.JOLT_CONFIG)
     this.config = config
 
-    if (this.forEachSite) {
-      const mode = this.getForEachSiteMode(this.forEachSite)
+    // Relative paths in the config are relative to the project root, wherever jolt is run from
+    if (config.rootDir && config.rootDir !== process.cwd()) {
+      process.chdir(config.rootDir)
+    }
+
+    const { environment } = this
+
+    if (environment && !config.hasEnvironment(environment)) {
+      const available = ['dev', ...Object.keys(config.getEnvironments()).filter((name) => name !== 'dev')]
+
+      stderr.write(this.getHeader())
+      stderr.write(ansis.red(`Unknown environment "${environment}". Available environments: ${available.join(', ')}\n`))
+      stderr.write('\n\nSee `jolt config` for more information.\n')
+      return 5
+    }
+
+    // Commands run through cli.run() share the config, so put back the caller's environment and site afterwards
+    const previousEnvironment = config.environment
+    const previousSite = config.siteName
+    config.setEnvironment(environment)
+
+    try {
+      return await this.executeInEnvironment(config)
+    } finally {
+      config.setEnvironment(previousEnvironment)
+
+      if (config.siteName !== previousSite) {
+        config.setSite(previousSite)
+      }
+    }
+  }
+
+  private async executeInEnvironment(config: Config): Promise<number | undefined> {
+    const { stderr } = this.context
+
+    // Choosing sites implies running for each of them, one at a time unless told otherwise
+    if (this.forEachSite || this.hasSiteSelection) {
+      const mode = this.forEachSite ? this.getForEachSiteMode(this.forEachSite) : 'series'
 
       if (!mode) {
         throw new Error(`Invalid for each mode: ${mode}`)
@@ -146,6 +369,13 @@ export default abstract class JoltCommand extends Command {
     return await this.runCommandWithValidation()
   }
 
+  /**
+   * Whether sites were chosen with --sites, --exclude-site or --site-tag
+   */
+  private get hasSiteSelection(): boolean {
+    return !!this.sites || !!this.excludeSite?.length || !!this.siteTag?.length
+  }
+
   private getForEachSiteMode(forEachSite: string | boolean): 'series' | 'parallel' | false {
     if (forEachSite === true) {
       return 'series'
@@ -168,11 +398,48 @@ export default abstract class JoltCommand extends Command {
     return false
   }
 
+  /**
+   * Get the sites chosen with --sites, --exclude-site and --site-tag, or every site if none were chosen
+   */
+  private getSelectedSites(): string[] {
+    const excluded = splitList(this.excludeSite)
+    const tags = splitList(this.siteTag)
+    const siteNames = this.sites ? splitList([this.sites]) : Object.keys(this.config.getSites())
+
+    return siteNames.filter((siteName) => {
+      if (excluded.includes(siteName)) {
+        return false
+      }
+
+      return tags.length === 0 || (this.config.getResolvedSiteConfig(siteName).tags ?? []).some((x) => tags.includes(x))
+    })
+  }
+
   private async executeForAllSites(forEachSiteMode: string): Promise<number | undefined> {
-    const sites = this.config.getSites()
-    const siteNames = Object.keys(sites)
+    const { stdout, stderr } = this.context
+    const available = Object.keys(this.config.getSites())
+    const unknownSites = splitList([this.sites ?? '', ...(this.excludeSite ?? [])]).filter(
+      (siteName) => !available.includes(siteName),
+    )
+
+    if (unknownSites.length > 0) {
+      stderr.write(this.getHeader())
+      stderr.write(
+        ansis.red(
+          `Unknown ${unknownSites.length === 1 ? 'site' : 'sites'} ${unknownSites.map((x) => `"${x}"`).join(', ')}. Available sites: ${available.join(', ')}\n`,
+        ),
+      )
+      stderr.write('\n\nSee `jolt config` for more information.\n')
+      return 5
+    }
+
+    const siteNames = this.getSelectedSites()
 
     if (siteNames.length === 0) {
+      if (this.hasSiteSelection) {
+        stderr.write(ansis.yellow('No sites match the chosen sites and tags\n'))
+      }
+
       return 0
     }
 
@@ -204,44 +471,145 @@ export default abstract class JoltCommand extends Command {
       }
     }
 
-    // Run all sites in parallel
-    if (forEachSiteMode === 'parallel') {
-      const promises = siteNames.map((siteName) => this.executeForSite(siteName))
-      const exitCodes = await Promise.all(promises)
-      const failedResult = exitCodes.find((code) => code !== 0 && code !== undefined)
+    const concurrency = this.concurrency ?? (forEachSiteMode === 'parallel' ? siteNames.length : 1)
+    const prefixes = siteNames.length > 1 ? this.getSitePrefixes(siteNames) : {}
+    const runs: SiteRun[] = siteNames.map((site) => ({ site }))
+    const queue = [...runs]
+    let failed = false
+
+    // Each worker takes the next site from the queue until it's empty, or until a site fails
+    const worker = async () => {
+      for (let run = queue.shift(); run; run = queue.shift()) {
+        if (failed && !this.continueOnError) {
+          return
+        }
+
+        try {
+          await this.executeForSite(run, prefixes[run.site])
+        } catch (error) {
+          failed = true
+          throw error
+        }
 
-      return failedResult ?? 0
+        if (run.exitCode !== 0) {
+          failed = true
+        }
+      }
     }
 
-    // Run sites in series (default)
-    for (const siteName of siteNames) {
-      const exitCode = await this.executeForSite(siteName)
+    await Promise.all(Array.from({ length: Math.min(concurrency, runs.length) }, () => worker()))
 
-      if (exitCode !== 0 && exitCode !== undefined) {
-        return exitCode
-      }
+    const result = resultContext.getStore()?.result
+
+    if (result) {
+      const skipped = runs.filter((run) => run.exitCode === undefined)
+      result.sites = [
+        ...(result.sites ?? []),
+        ...skipped.map(({ site }) => ({ command: result.command, site, skipped: true })),
+      ]
     }
 
-    return 0
+    if (runs.length > 1) {
+      stdout.write(this.getSiteSummary(runs))
+    }
+
+    return runs.find((run) => run.exitCode !== undefined && run.exitCode !== 0)?.exitCode ?? 0
+  }
+
+  /**
+   * Get a coloured `[site]` prefix for each site's output, padded so that the output lines up
+   */
+  private getSitePrefixes(siteNames: string[]): Record<string, string> {
+    const width = Math.max(...siteNames.map((x) => x.length)) + 2
+
+    return Object.fromEntries(
+      siteNames.map((siteName, i) => [
+        siteName,
+        `${SITE_COLOURS[i % SITE_COLOURS.length](`[${siteName}]`.padEnd(width))} `,
+      ]),
+    )
+  }
+
+  /**
+   * Get a table of each site's exit code and how long it took
+   */
+  private getSiteSummary(runs: SiteRun[]): string {
+    const rows = runs.map(({ site, exitCode, duration }) => [
+      site,
+      exitCode === undefined ? 'skipped' : String(exitCode),
+      duration === undefined ? '-' : `${(duration / 1000).toFixed(1)}s`,
+    ])
+    const header = ['Site', 'Exit code', 'Duration']
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)))
+    const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ')
+
+    const lines = rows.map((row, i) => {
+      const { exitCode } = runs[i]
+      const colour = exitCode === undefined ? ansis.yellow : exitCode === 0 ? ansis.green : ansis.red
+
+      return colour(formatRow(row))
+    })
+
+    return `\n${ansis.bold(formatRow(header))}\n${lines.join('\n')}\n`
   }
 
-  private async executeForSite(siteName: string): Promise<number | undefined> {
+  private async executeForSite(run: SiteRun, prefix?: string): Promise<void> {
     // Get a site-specific cached config instance
     // Each site gets its own Config instance, but they are cached and reused
-    const siteConfig = await getSiteConfig(siteName)
+    const siteConfig = await getSiteConfig(run.site)
+    siteConfig.setEnvironment(this.environment)
+
+    // Label each line of output with the site when running for several sites, using a copy of the command so that
+    // sites running at the same time each write to their own streams
+    const streams = prefix
+      ? [new PrefixedStream(this.context.stdout, prefix), new PrefixedStream(this.context.stderr, prefix)]
+      : []
+    const command: this = prefix
+      ? Object.assign(Object.create(this), { context: { ...this.context, stdout: streams[0], stderr: streams[1] } })
+      : this
+
+    const parent = resultContext.getStore()
+    const siteResult: CommandResult = {
+      command: parent?.result.command ?? this.path.join(' '),
+      site: run.site,
+      exitCode: 0,
+    }
+    const start = performance.now()
+
+    try {
+      // Run this site's execution within its own async context
+      // This prevents race conditions when multiple sites execute in parallel
+      // Each site also gets its own result so that parallel sites don't overwrite each other's details
+      const exitCode = await configContext.run(siteConfig, () =>
+        resultContext.run({ result: siteResult, json: parent?.json ?? false }, () =>
+          command.runCommandWithValidation(),
+        ),
+      )
+
+      run.exitCode = exitCode ?? 0
+    } catch (error) {
+      if (!this.continueOnError) {
+        throw error
+      }
 
-    // Run this site's execution within its own async context
-    // This prevents race conditions when multiple sites execute in parallel
-    return await configContext.run(siteConfig, async () => {
-      // Validate required config for this site
-      const configValidationResult = await this.validateRequiredConfig()
+      const message = error instanceof Error ? error.message : String(error)
+      command.context.stderr.write(ansis.red(`${message}\n`))
+      run.exitCode = 1
+      siteResult.error = message
+    } finally {
+      run.duration = performance.now() - start
 
-      if (configValidationResult !== undefined) {
-        return configValidationResult
+      for (const stream of streams) {
+        stream.flush()
       }
+    }
 
-      return await this.command()
-    })
+    siteResult.exitCode = run.exitCode
+    siteResult.duration = Math.round(run.duration)
+
+    if (parent) {
+      parent.result.sites = [...(parent.result.sites ?? []), siteResult]
+    }
   }
 
   private async runCommandWithValidation(): Promise<number | undefined> {
@@ -252,6 +620,81 @@ export default abstract class JoltCommand extends Command {
       return configValidationResult
     }
 
-    return await this.command()
+    return await this.runWithHooks()
+  }
+
+  /**
+   * Run the command between the `before` and `after` hooks configured for its path, or run the `onError` hooks if it
+   * fails
+   */
+  private async runWithHooks(): Promise<number | undefined> {
+    const commandPath = this.path.join(' ')
+    const hooks = hookContext.getStore() ? undefined : this.config.getHooks(commandPath)
+
+    if (!hooks) {
+      return await this.command()
+    }
+
+    const result = resultContext.getStore()?.result ?? { command: commandPath }
+    const beforeExitCode = await this.runHooks('before', hooks.before, result)
+
+    if (beforeExitCode > 0) {
+      return beforeExitCode
+    }
+
+    let exitCode: number | undefined
+
+    try {
+      exitCode = await this.command()
+    } catch (error) {
+      result.exitCode = 1
+      result.error = error instanceof Error ? error.message : String(error)
+      await this.runHooks('onError', hooks.onError, result)
+      throw error
+    }
+
+    result.exitCode = exitCode ?? 0
+
+    if (result.exitCode > 0) {
+      await this.runHooks('onError', hooks.onError, result)
+      return exitCode
+    }
+
+    return await this.runHooks('after', hooks.after, result)
+  }
+
+  private async runHooks(timing: HookTiming, hooks: PrepareCommandConfig[], result: CommandResult): Promise<number> {
+    const {
+      cli,
+      config,
+      context,
+      context: { stderr, stdout },
+    } = this
+
+    // Hooks run in the command's environment and site, rather than falling back to production and the default site
+    const site = config.siteName
+    const forwardArgs = [...this.environmentArgs, ...(site ? [`--site=${site}`] : [])]
+
+    for (const hook of hooks) {
+      const name = hook.name || hook.cmd
+
+      stdout.write(ansis.white(`🪝 Running ${timing} hook: ${ansis.blue(name)}...\n`))
+
+      const cwdArgs = hook.dir ? ['--cwd', hook.dir] : []
+      const quietArgs = hook.hidden ? ['--quiet'] : []
+      const args = [...forwardArgs, 'cmd', ...quietArgs, ...cwdArgs, hook.cmd]
+      const retval = await hookContext.run(true, () => runWithHookResult(result, () => cli.run(args, context)))
+
+      if (hook.hidden && retval === 0) {
+        stdout.write(ansis.blue(`Running command: ${ansis.dim('[output hidden by configuration]')}\n`))
+      }
+
+      if (hook.fail && retval > 0) {
+        stderr.write(ansis.red(`Error running ${timing} hook ${name}: Returned code ${retval}\n`))
+        return retval
+      }
+    }
+
+    return 0
   }
 }
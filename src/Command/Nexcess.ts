@@ -9,26 +9,21 @@ export class NexcessDeployCommand extends JoltCommand {
 
   dev = Option.Boolean('--dev', false, { description: 'Deploy to development environment' })
   requiredCommands = ['ssh']
-
-  getRequiredConfig(): string[] {
-    const baseConfigs = ['repo', 'codeSubfolder']
-    const additionalConfigs = this.dev ? ['devFolder', 'devBranch'] : ['liveFolder', 'branch']
-    return [...baseConfigs, ...additionalConfigs]
-  }
+  requiredConfig = ['repo', 'codeSubfolder', 'liveFolder', 'branch']
 
   async command(): Promise<number | undefined> {
     const {
       cli,
       config,
       context: { stdout },
-      dev,
+      environmentArgs,
     } = this
 
     const [deployFolder, deployScript, cleanupScript, branch, repo, codeSubfolder] = await Promise.all([
-      dev ? config.get('devFolder') : config.get('liveFolder'),
-      config.get('nexcessDeployScript').then((script) => script ?? 'bin/nexcess-deploy-script.sh'),
-      config.get('nexcessCleanupScript').then((script) => script ?? 'bin/nexcess-cleanup.sh'),
-      dev ? config.get('devBranch') : config.get('branch'),
+      config.get('liveFolder'),
+      config.get('nexcessDeployScript'),
+      config.get('nexcessCleanupScript'),
+      config.get('branch'),
       config.get('repo'),
       config.get('codeSubfolder'),
     ])
@@ -69,9 +64,11 @@ export class NexcessDeployCommand extends JoltCommand {
     }
 
     const command = commands.join(' && ')
-    const args = ['ssh', '-T', '-C', `<<EOF\n${command}\nEOF`]
+    // The environment goes before the command's path, as ssh passes the rest of its arguments on
+    const args = [...environmentArgs, 'ssh', '-T', '-C', `<<EOF\n${command}\nEOF`]
 
     stdout.write(ansis.blue(`❎ Cloning into ${folder} and deploying to ${deployFolder}...\n`))
+    this.setResult({ folder, deployFolder })
 
     const result = await cli.run(args)
     return result
@@ -84,20 +81,15 @@ export class NexcessDeploySpecificCommand extends JoltCommand {
   dev = Option.Boolean('--dev', false, { description: 'Deploy to development environment' })
   commit = Option.String({ required: true })
   requiredCommands = ['ssh']
-
-  getRequiredConfig(): string[] {
-    const baseConfigs = ['repo', 'codeSubfolder']
-    const additionalConfigs = this.dev ? ['devFolder'] : ['liveFolder']
-    return [...baseConfigs, ...additionalConfigs]
-  }
+  requiredConfig = ['repo', 'codeSubfolder', 'liveFolder']
 
   async command(): Promise<number | undefined> {
     const {
       cli,
       config,
       context: { stdout, stderr },
-      dev,
       commit,
+      environmentArgs,
     } = this
 
     if (!commit) {
@@ -105,9 +97,9 @@ export class NexcessDeploySpecificCommand extends JoltCommand {
       return 2
     }
 
-    const deployFolder = dev ? await config.get('devFolder') : await config.get('liveFolder')
-    const deployScript = (await config.get('nexcessDeployScript')) ?? 'bin/nexcess-deploy-script.sh'
-    const cleanupScript = (await config.get('nexcessCleanupScript')) ?? 'bin/nexcess-cleanup.sh'
+    const deployFolder = await config.get('liveFolder')
+    const deployScript = await config.get('nexcessDeployScript')
+    const cleanupScript = await config.get('nexcessCleanupScript')
     const repo = await config.get('repo')
     const codeSubfolder = await config.get('codeSubfolder')
     const now = new Date()
@@ -147,9 +139,10 @@ export class NexcessDeploySpecificCommand extends JoltCommand {
     }
 
     const command = commands.join(' && ')
-    const args = ['ssh', '-T', '-C', `<<EOF\n${command}\nEOF`]
+    const args = [...environmentArgs, 'ssh', '-T', '-C', `<<EOF\n${command}\nEOF`]
 
     stdout.write(ansis.blue(`⚡ Cloning commit ${commit} into ${folder} and deploying to ${deployFolder}...\n`))
+    this.setResult({ commit, folder, deployFolder })
 
     const result = await cli.run(args)
     return result
@@ -165,15 +158,14 @@ export class NexcessDeployLocalCommand extends JoltCommand {
   requiredConfig = ['codeSubfolder']
 
   async command(): Promise<number | undefined> {
-    const { cli, config, dev, dryRun } = this
+    const { cli, config, dryRun, environmentArgs } = this
     const excludeArg = (await fileExists('.rsyncignore')) ? '--exclude-from=.rsyncignore' : ''
-    const devArg = dev ? '--dev' : ''
     const dryRunArg = dryRun ? '--dry-run' : ''
 
     return await cli.run(
       [
+        ...environmentArgs,
         'rsync',
-        devArg,
         dryRunArg,
         excludeArg,
         `./${await config.get('codeSubfolder')}/`,
@@ -12,9 +12,18 @@ async function shouldPrepareHusky(): Promise<boolean> {
   return await directoryExists('.husky')
 }
 
-async function shouldPrepareTofu(): Promise<boolean> {
-  const files = await readdir('.')
-  return Boolean(files.find((x) => x.match(/\.(tf|tofu)$/)))
+async function shouldPrepareTofu(dir: string): Promise<boolean> {
+  try {
+    const files = await readdir(dir)
+    return Boolean(files.find((x) => x.match(/\.(tf|tofu)$/)))
+  } catch (error) {
+    // A configured Terraform directory that hasn't been created yet has nothing to prepare
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false
+    }
+
+    throw error
+  }
 }
 
 async function shouldPrepareDbSeeds(): Promise<boolean> {
@@ -25,7 +34,7 @@ async function shouldPrepareDbSeeds(): Promise<boolean> {
 
 async function shouldPrepareDevPlugins(): Promise<boolean> {
   const config = await getConfig()
-  const devPlugins = config.get('devPlugins')
+  const devPlugins = await config.get('devPlugins')
 
   if (!devPlugins) {
     return false
@@ -152,11 +161,15 @@ export class PrepareCommand extends JoltCommand {
       stdout.write(ansis.green('OK\n'))
     }
 
-    if (tofu && (await shouldPrepareTofu())) {
+    const terraformContext = tofu ? await config.getTerraformContext() : undefined
+
+    if (terraformContext && (await shouldPrepareTofu(terraformContext.dir))) {
       stdout.write(ansis.white(`${indent}🌍 Preparing Terraform variables... `))
       const tofuCmd = await config.command('tofu')
-      await execC(tofuCmd, ['init'])
-      await execC(tofuCmd, ['refresh'])
+      const tofuOptions = await config.getTerraformExecOptions()
+      const { varFile } = terraformContext
+      await execC(tofuCmd, ['init'], tofuOptions)
+      await execC(tofuCmd, ['refresh', varFile && `-var-file=${varFile}`], tofuOptions)
       stdout.write(ansis.green('OK\n'))
     }
 
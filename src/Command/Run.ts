@@ -0,0 +1,195 @@
+import ansis from 'ansis'
+import { Option } from 'clipanion'
+import { ConfigValidationError } from '../errors.js'
+import type { TaskConfig, TaskStep } from '../types/index.js'
+import { splitArgs } from '../utils.js'
+import JoltCommand from './JoltCommand.js'
+
+// A step to run, along with the task that it belongs to
+export type PlannedStep = TaskStep & { task: string }
+
+type StepTiming = {
+  task: string
+  step: string
+  exitCode: number
+  duration: number
+}
+
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Get the steps to run for a task in order, after the steps of the tasks that it depends on. Each task only runs
+ * once, however many tasks depend on it, and dependencies that aren't tasks are run as Jolt commands.
+ */
+export function planTask(tasks: Record<string, TaskConfig>, name: string): PlannedStep[] {
+  const steps: PlannedStep[] = []
+  const planned = new Set<string>()
+
+  const visit = (taskName: string, chain: string[]) => {
+    if (chain.includes(taskName)) {
+      throw new ConfigValidationError(`Circular task dependency: ${[...chain, taskName].join(' → ')}`)
+    }
+
+    if (planned.has(taskName)) {
+      return
+    }
+
+    for (const dependency of tasks[taskName].dependsOn) {
+      if (dependency in tasks) {
+        visit(dependency, [...chain, taskName])
+      } else if (!planned.has(dependency)) {
+        planned.add(dependency)
+        steps.push({ task: taskName, command: dependency, name: dependency, continueOnError: false })
+      }
+    }
+
+    planned.add(taskName)
+    steps.push(...tasks[taskName].steps.map((step) => ({ ...step, task: taskName })))
+  }
+
+  visit(name, [])
+  return steps
+}
+
+/**
+ * Find where to resume a task from, given a step's name or command, or the name of a task to start at
+ */
+export function findStartStep(steps: PlannedStep[], from: string): number {
+  const index = steps.findIndex((step) => step.name === from || step.command === from)
+  return index === -1 ? steps.findIndex((step) => step.task === from) : index
+}
+
+export class RunCommand extends JoltCommand {
+  static paths = [['run']]
+
+  task = Option.String({ required: false })
+  from = Option.String('--from', {
+    required: false,
+    description: 'Resume the task from this step, given by its name or command',
+  })
+
+  listTasks(tasks: Record<string, TaskConfig>) {
+    const {
+      context: { stdout },
+    } = this
+
+    const names = Object.keys(tasks)
+
+    if (names.length === 0) {
+      stdout.write(ansis.yellow('No tasks are configured. Add them under "tasks" in your Jolt config.\n'))
+      return
+    }
+
+    stdout.write(ansis.bold.whiteBright('Tasks:\n'))
+
+    for (const name of names) {
+      const { description, steps, dependsOn } = tasks[name]
+      stdout.write(`  ${ansis.cyan(name)}${description ? ansis.dim(` - ${description}`) : ''}\n`)
+
+      if (dependsOn.length > 0) {
+        stdout.write(ansis.dim(`    Depends on: ${dependsOn.join(', ')}\n`))
+      }
+
+      for (const step of steps) {
+        const suffix = step.name === step.command ? '' : ansis.dim(` (${step.command})`)
+        stdout.write(`    - ${step.name}${suffix}\n`)
+      }
+    }
+  }
+
+  async command(): Promise<number | undefined> {
+    const {
+      cli,
+      config,
+      context,
+      context: { stderr, stdout },
+      from,
+      site,
+      task,
+    } = this
+
+    let tasks: Record<string, TaskConfig>
+    let steps: PlannedStep[]
+
+    try {
+      tasks = config.getTasks()
+
+      if (!task) {
+        this.listTasks(tasks)
+        return 0
+      }
+
+      if (!(task in tasks)) {
+        const available = Object.keys(tasks)
+        stderr.write(ansis.red(`Unknown task "${task}".`))
+        stderr.write(ansis.red(available.length > 0 ? ` Available tasks: ${available.join(', ')}\n` : '\n'))
+        return 1
+      }
+
+      steps = planTask(tasks, task)
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr.write(ansis.red(`${error.message}\n`))
+        return 1
+      }
+
+      throw error
+    }
+
+    const startIndex = from ? findStartStep(steps, from) : 0
+
+    if (startIndex === -1) {
+      stderr.write(ansis.red(`Task ${task} has no step "${from}"\n`))
+      return 1
+    }
+
+    // Options go before the command's path, so that commands which pass their remaining arguments on don't take them
+    const forwardArgs = [...this.environmentArgs, ...(site ? [`--site=${site}`] : [])]
+    const timings: StepTiming[] = []
+    const taskStart = performance.now()
+
+    this.setResult({ task, timings })
+    stdout.write(ansis.blue.bold(`🏃 Running task ${task}...\n`))
+
+    for (const [i, step] of steps.entries()) {
+      const label = step.task === task ? step.name : `${step.task}: ${step.name}`
+      const counter = ansis.dim(`[${i + 1}/${steps.length}]`)
+
+      if (i < startIndex) {
+        stdout.write(ansis.dim(`\n⏭️  [${i + 1}/${steps.length}] Skipping ${label}\n`))
+        continue
+      }
+
+      stdout.write(ansis.white(`\n▶️  ${counter} ${ansis.blue(label)}\n`))
+
+      const start = performance.now()
+      const exitCode = await cli.run([...forwardArgs, ...splitArgs(step.command)], context)
+      const duration = performance.now() - start
+
+      timings.push({ task: step.task, step: step.name, exitCode, duration: Math.round(duration) })
+
+      if (exitCode === 0) {
+        stdout.write(ansis.green(`✅ ${label} finished in ${formatDuration(duration)}\n`))
+        continue
+      }
+
+      if (step.continueOnError) {
+        stderr.write(
+          ansis.yellow(`⚠️  ${label} failed with exit code ${exitCode} after ${formatDuration(duration)}, continuing\n`),
+        )
+        continue
+      }
+
+      stderr.write(ansis.red(`❌ ${label} failed with exit code ${exitCode} after ${formatDuration(duration)}\n`))
+      stderr.write(
+        ansis.white(`Fix the problem and resume with: jolt run ${task} --from ${JSON.stringify(step.name)}\n`),
+      )
+      return exitCode
+    }
+
+    stdout.write(ansis.blue.bold(`\n🏁 Task ${task} finished in ${formatDuration(performance.now() - taskStart)}\n`))
+    return 0
+  }
+}
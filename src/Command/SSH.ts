@@ -1,5 +1,6 @@
 import ansis from 'ansis'
 import { Option } from 'clipanion'
+import { redactSecrets } from '../secrets.js'
 import { execC } from '../utils.js'
 import JoltCommand from './JoltCommand.js'
 
@@ -9,18 +10,15 @@ export class SSHCommand extends JoltCommand {
 
   dev = Option.Boolean('--dev', false, { description: 'Connect to development environment' })
   args = Option.Proxy()
-
-  getRequiredConfig(): string[] {
-    return this.dev ? ['devSshAccount'] : ['sshAccount']
-  }
+  requiredConfig = ['sshAccount']
 
   async command(): Promise<number | undefined> {
-    const { args, config, context, dev } = this
+    const { args, config, context } = this
 
     const sshCommand = await config.command('ssh')
-    const sshAccount = dev ? await config.get('devSshAccount') : await config.get('sshAccount')
+    const sshAccount = await config.get('sshAccount')
 
-    // sshAccount is guaranteed to exist due to getRequiredConfig() validation
+    // sshAccount is guaranteed to exist due to requiredConfig validation
     const parsedArgs = await Promise.all(args.map((x) => config.parseArg(x)))
     const result = await execC(sshCommand, [sshAccount as string, ...parsedArgs], { context })
     return result.exitCode
@@ -34,10 +32,7 @@ export class RsyncCommand extends JoltCommand {
   dev = Option.Boolean('--dev', false, { description: 'Sync to development environment' })
   dryRun = Option.Boolean('--dry-run', false, { description: 'Show what would be synced without actually syncing' })
   args = Option.Proxy()
-
-  getRequiredConfig(): string[] {
-    return this.dev ? ['devSshAccount'] : ['sshAccount']
-  }
+  requiredConfig = ['sshAccount']
 
   async command(): Promise<number | undefined> {
     const {
@@ -45,20 +40,19 @@ export class RsyncCommand extends JoltCommand {
       config,
       context,
       context: { stdout },
-      dev,
       dryRun,
     } = this
 
     const [sshCommand, rsyncCommand, sshPort, sshAccount, contentFolder] = await Promise.all([
       config.command('ssh'),
       config.command('rsync'),
-      config.get('sshPort').then((port) => port || '22'),
-      dev ? config.get('devSshAccount') : config.get('sshAccount'),
-      dev ? config.get('devFolder') : config.get('liveFolder'),
+      config.get('sshPort'),
+      config.get('sshAccount'),
+      config.get('liveFolder'),
     ])
     const dryRunArg = dryRun ? '--dry-run' : ''
 
-    // sshAccount is guaranteed to exist due to getRequiredConfig() validation
+    // sshAccount is guaranteed to exist due to requiredConfig validation
     const params = {
       acc: sshAccount as string,
       contentFolder: contentFolder ?? '',
@@ -66,8 +60,9 @@ export class RsyncCommand extends JoltCommand {
 
     const parsedArgs = await Promise.all(args.map((x) => config.parseArg(x, params)))
     const fullArgs = [`--rsh="${sshCommand} -p${sshPort}"`, '-av', dryRunArg, ...parsedArgs]
-    stdout.write(ansis.blue(`Running command: ${rsyncCommand} ${fullArgs.join(' ')}...\n`))
-    const result = await execC(rsyncCommand, fullArgs, { context })
+    stdout.write(ansis.blue(`Running command: ${redactSecrets(`${rsyncCommand} ${fullArgs.join(' ')}`)}...\n`))
+    // rsync's own --dry-run doesn't change anything, so it can still run
+    const result = await execC(rsyncCommand, fullArgs, { context, readOnly: dryRun })
 
     return result.exitCode
   }
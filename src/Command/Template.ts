@@ -52,6 +52,7 @@ export class TemplateCommand extends JoltCommand {
             stdout.write(ansis.blue(`  Output: ${output}\n`))
           }
 
+          this.setResult({ input, output, written: false })
           return 0
         }
       }
@@ -65,6 +66,8 @@ export class TemplateCommand extends JoltCommand {
           stdout.write(ansis.blue(`  Input:  ${input}\n`))
           stdout.write(ansis.blue(`  Output: ${output}\n`))
         }
+
+        this.setResult({ input, output, written: true })
       } catch (error) {
         stderr.write(
           ansis.red(
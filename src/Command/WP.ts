@@ -108,7 +108,8 @@ export class WPCLICommand extends JoltCommand {
     } = this
 
     // Check if wp executable exists and no wp script in package.json
-    const wpExecutable = await which('wp')
+    const wpCommand = await config.command('wp')
+    const wpExecutable = await which(wpCommand)
     const packageJson = await config.getPackageJson()
     const hasWpScript = packageJson?.scripts?.wp
 
@@ -121,7 +122,7 @@ export class WPCLICommand extends JoltCommand {
       }
 
       const parsedArgs = await Promise.all(realArgs.map((x) => config.parseArg(x)))
-      const result = await execC('wp', parsedArgs, { context, reject: false })
+      const result = await execC(wpCommand, parsedArgs, { context, reject: false })
       return result.exitCode
     }
 
@@ -311,6 +312,8 @@ export class WPUpdateCommand extends JoltCommand {
       }
     }
 
+    this.setResult({ branch: branchRef.branch, ...updateSummary })
+
     if (totalUpdates > 0 && branchRef.created) {
       stdout.write(ansis.yellow('\nNext steps:\n'))
       stdout.write(`• Review updates: ${ansis.dim(await this.getUpdateCommand('modify'))}\n`)
@@ -662,7 +665,11 @@ export class WPUpdateCommand extends JoltCommand {
     const gitCommand = await config.command('git')
 
     try {
-      const result = await execC(gitCommand, ['config', '--get', 'core.hooksPath'], { stderr, reject: false })
+      const result = await execC(gitCommand, ['config', '--get', 'core.hooksPath'], {
+        stderr,
+        reject: false,
+        readOnly: true,
+      })
       const originalHookPath = String(result.stdout || '').trim()
       await execC(gitCommand, ['config', 'core.hooksPath', '/dev/null'], { context })
       return originalHookPath
@@ -799,6 +806,7 @@ export class WPUpdateCommand extends JoltCommand {
       const gitCommand = await config.command('git')
       const result = await execC(gitCommand, ['status', '--porcelain=v1', '--', path], {
         reject: false,
+        readOnly: true,
       })
       return String(result.stdout || '').trim() !== ''
     } catch {
@@ -893,6 +901,7 @@ export class WPUpdateCommand extends JoltCommand {
         // Check if there are any changes to commit
         const statusResult = await execC(gitCommand, ['diff', '--cached', '--exit-code'], {
           reject: false,
+          readOnly: true,
         })
 
         if (statusResult.exitCode !== 0) {
@@ -997,7 +1006,7 @@ export class WPUpdateMergeCommand extends JoltCommand {
       const gitCommand = await config.command('git')
 
       // Get current branch
-      const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'])
+      const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'], { readOnly: true })
       const currentBranch = String(currentBranchResult.stdout || '').trim()
 
       if (!currentBranch.startsWith('joltWpUpdate/')) {
@@ -1029,6 +1038,7 @@ export class WPUpdateMergeCommand extends JoltCommand {
 
       const operation = this.rebase ? 'rebased' : 'merged'
       stdout.write(ansis.green(`✅ Successfully ${operation} WordPress updates!\n`))
+      this.setResult({ branch: currentBranch, targetBranch, operation })
       return 0
     } catch (error) {
       stderr.write(ansis.red(`Error during merge: ${error}\n`))
@@ -1070,12 +1080,14 @@ export class WPUpdateCleanCommand extends JoltCommand {
       // Get current branch to avoid deleting it
       const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'], {
         reject: false,
+        readOnly: true,
       })
       const currentBranch = String(currentBranchResult.stdout || '').trim()
 
       // List all branches with our prefix
       const branchListResult = await execC(gitCommand, ['branch', '--list', 'joltWpUpdate/*'], {
         reject: false,
+        readOnly: true,
       })
 
       if (branchListResult.exitCode !== 0) {
@@ -1122,22 +1134,23 @@ export class WPUpdateCleanCommand extends JoltCommand {
             `\n🔍 Dry run complete. Would process ${branches.length} WordPress update branch${branches.length === 1 ? '' : 'es'}${modeNote}\n`,
           ),
         )
+        this.setResult({ branches })
       } else {
         // Actually delete branches
         const deleteFlag = deleteUnmerged ? '-D' : '-d'
-        let deletedCount = 0
-        let skippedCount = 0
+        const deleted: string[] = []
+        const skipped: string[] = []
 
         for (const branch of branches) {
           try {
             const deleteResult = await execC(gitCommand, ['branch', deleteFlag, branch], { reject: false })
             if (deleteResult.exitCode === 0) {
               stdout.write(ansis.green(`✅ Deleted ${branch}\n`))
-              deletedCount++
+              deleted.push(branch)
             } else {
               if (!deleteUnmerged && String(deleteResult.stderr || '').includes('not fully merged')) {
                 stdout.write(ansis.yellow(`⚠️ Skipped ${branch} (unmerged - use --delete-unmerged to force)\n`))
-                skippedCount++
+                skipped.push(branch)
               } else {
                 stderr.write(ansis.red(`❌ Failed to delete ${branch}\n`))
               }
@@ -1147,16 +1160,18 @@ export class WPUpdateCleanCommand extends JoltCommand {
           }
         }
 
-        if (deletedCount > 0 || skippedCount > 0) {
+        if (deleted.length > 0 || skipped.length > 0) {
           const messages: string[] = []
-          if (deletedCount > 0) {
-            messages.push(`deleted ${deletedCount} branch${deletedCount === 1 ? '' : 'es'}`)
+          if (deleted.length > 0) {
+            messages.push(`deleted ${deleted.length} branch${deleted.length === 1 ? '' : 'es'}`)
           }
-          if (skippedCount > 0) {
-            messages.push(`skipped ${skippedCount} unmerged branch${skippedCount === 1 ? '' : 'es'}`)
+          if (skipped.length > 0) {
+            messages.push(`skipped ${skipped.length} unmerged branch${skipped.length === 1 ? '' : 'es'}`)
           }
           stdout.write(ansis.green(`\n🎉 Successfully ${messages.join(', ')}\n`))
         }
+
+        this.setResult({ deleted, skipped })
       }
 
       return 0
@@ -1194,7 +1209,7 @@ export class WPUpdateModifyCommand extends JoltCommand {
     try {
       const gitCommand = await config.command('git')
       // Get current branch
-      const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'])
+      const currentBranchResult = await execC(gitCommand, ['branch', '--show-current'], { readOnly: true })
       const currentBranch = String(currentBranchResult.stdout || '').trim()
 
       if (!currentBranch.startsWith('joltWpUpdate/')) {
@@ -1206,6 +1221,7 @@ export class WPUpdateModifyCommand extends JoltCommand {
       const branchName = (await config.get('branch')) || 'master'
       const commitCountResult = await execC(gitCommand, ['rev-list', '--count', `${branchName}..HEAD`], {
         reject: false,
+        readOnly: true,
       })
 
       if (commitCountResult.exitCode !== 0) {
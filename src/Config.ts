@@ -1,50 +1,204 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
 import { access, readFile } from 'node:fs/promises'
 import path from 'node:path'
-import dotenv from 'dotenv'
+import ansis from 'ansis'
 import resolvePath from 'object-resolve-path'
 import { z } from 'zod'
-import { ConfigValidationError } from './errors.js'
-import { PrepareCommandsSchema } from './schemas.js'
+import { findProjectRoot, loadConfig } from './ConfigLoader.js'
+import { LEGACY_WP_UPDATER_FILE } from './ConfigMigrator.js'
+import { validateConfig } from './ConfigValidator.js'
+import { ConfigValidationError, InterpolationError } from './errors.js'
+import { Interpolator, slugify, traceInterpolation, traceLookup } from './Interpolation.js'
+import { HookSchema, JoltConfigSchema, PrepareCommandsSchema, TaskSchema } from './schemas.js'
+import { registerSecret } from './secrets.js'
 import type {
+  CommandDefinition,
   CommandOverride,
+  CommandResult,
   ComposeConfig,
+  ConfigCandidate,
   ConfigEntry,
+  ConfigExplanation,
+  ConfigKey,
+  ConfigProvenance,
+  ConfigValue,
   DBContainerInfo,
+  EnvironmentConfig,
+  EnvOverride,
+  HookConfig,
   InternalConfig,
   PackageJson,
   PrepareCommandConfig,
   PrepareTimingOption,
+  SiteConfig,
+  TaskConfig,
+  TerraformContext,
   TerraformOutputJson,
+  TerraformValue,
   WordPressConfig,
   WordPressUpdatesConfig,
 } from './types/index.js'
-import { constToCamel, execC, fileExists, keyToConst, replaceAsync, which } from './utils.js'
+import { constToCamel, execC, fileExists, keyToConst, splitArgs, which } from './utils.js'
 
 const dbImageRegex = /\b(?<type>mysql|mariadb)\b/i
-const ARG_REGEX =
-  /{(?<type>(?:arg|param|cmd|db|tf|tofu|terraform|conf|config|git|site)):(?<variable>[a-z0-9_.[\]"-]+)}/gi
+// The chain of config keys currently being resolved through `{conf:…}` placeholders, used to detect cycles
+const resolutionStack = new AsyncLocalStorage<string[]>()
+// The result of the command that hooks are running for, used by `{result:…}` placeholders
+const hookResultStorage = new AsyncLocalStorage<CommandResult>()
 const DEFAULT_DEV_PLUGIN_DELAY = 120
 
-function parseEnvFile(env: Record<string, string>): InternalConfig {
-  const parsed: InternalConfig = {}
+export const DEFAULT_AWS_REGION = 'eu-west-1'
+
+// Git commands used for each `{git:…}` variable
+const GIT_COMMANDS: Record<string, string[]> = {
+  longSha: ['rev-parse', 'HEAD'],
+  branch: ['rev-parse', '--abbrev-ref', 'HEAD'],
+  tag: ['describe', '--tags', '--exact-match'],
+  describe: ['describe', '--tags', '--always', '--dirty'],
+  dirty: ['status', '--porcelain'],
+  commitDate: ['log', '-1', '--format=%cI'],
+  commitTimestamp: ['log', '-1', '--format=%ct'],
+  author: ['log', '-1', '--format=%an'],
+  message: ['log', '-1', '--format=%s'],
+  remoteUrl: ['remote', 'get-url', 'origin'],
+}
+
+// External tools whose commands can be overridden. More can be registered with the `commands` config key.
+const COMMANDS: Record<string, CommandDefinition> = {
+  aws: { envVar: 'AWS_COMMAND', default: 'aws' },
+  compose: {
+    envVar: 'COMPOSE_COMMAND',
+    default: 'docker compose',
+    aliases: ['docker compose', 'docker-compose', 'docker_compose'],
+  },
+  composer: { envVar: 'COMPOSER_COMMAND', default: 'composer' },
+  docker: { envVar: 'DOCKER_COMMAND', default: 'docker' },
+  git: { envVar: 'GIT_COMMAND', default: 'git' },
+  gzip: { envVar: 'GZIP_COMMAND', default: 'gzip' },
+  kubectl: { envVar: 'KUBECTL_COMMAND', default: 'kubectl' },
+  mysql: { envVar: 'MYSQL_COMMAND', default: 'mysql' },
+  node: { envVar: 'NODE_COMMAND', default: 'node' },
+  npx: { envVar: 'NPX_COMMAND', default: 'npx' },
+  php: { envVar: 'PHP_COMMAND', default: 'php' },
+  rsync: { envVar: 'RSYNC_COMMAND', default: 'rsync' },
+  ssh: { envVar: 'SSH_COMMAND', default: 'ssh' },
+  tofu: {
+    envVar: 'TERRAFORM_COMMAND',
+    default: async () => ((await which('tofu')) ? 'tofu' : 'terraform'),
+    aliases: ['terraform'],
+  },
+  wp: { envVar: 'WP_COMMAND', default: 'wp' },
+  yarn: { envVar: 'YARN_COMMAND', default: 'yarn' },
+}
+
+/**
+ * Find a built-in command by its name or one of its aliases
+ */
+function findCommand(name: string): [string, CommandDefinition] | undefined {
+  return Object.entries(COMMANDS).find(([key, definition]) => key === name || definition.aliases?.includes(name))
+}
+
+// Keys that identify where to deploy, so they never fall back to the production values in an environment
+const ENVIRONMENT_KEYS = [
+  'imageName',
+  'remoteRepo',
+  'ecsCluster',
+  'ecsService',
+  'codebuildProject',
+  'sshAccount',
+  'liveFolder',
+  'branch',
+]
+
+// Legacy environment-prefixed keys that don't follow the `${environment}${Key}` pattern, e.g. `devFolder`
+const LEGACY_ENVIRONMENT_SUFFIXES: Record<string, string> = {
+  liveFolder: 'Folder',
+}
+
+function capitalise(key: string): string {
+  return key.charAt(0).toUpperCase() + key.slice(1)
+}
+
+/**
+ * Get the prefixed form of a key for an environment, e.g. `devEcsCluster` for `ecsCluster` in the dev environment
+ */
+function getEnvironmentKey(environment: string, key: string): string {
+  return `${environment}${LEGACY_ENVIRONMENT_SUFFIXES[key] ?? capitalise(key)}`
+}
 
-  for (const [k, v] of Object.entries(env)) {
-    parsed[constToCamel(k)] = v
+// Keys that structure the config rather than configure anything, so they can't be overridden by environment variables
+const STRUCTURAL_KEYS = ['$schema', 'extends', 'prepareCommandsMerge', 'sites', 'environments']
+
+/**
+ * Get the environment variable that overrides a key, e.g. `JOLT_ECS_CLUSTER` for `ecsCluster`, or
+ * `JOLT_SITE_STAGING__ECS_CLUSTER` for `ecsCluster` in the staging site
+ */
+export function getEnvVarName(key: string, site?: string): string {
+  return site ? `JOLT_SITE_${keyToConst(site)}__${keyToConst(key)}` : `JOLT_${keyToConst(key)}`
+}
+
+/**
+ * Read a config value from an environment variable. Values that look like JSON arrays or objects are parsed, so that
+ * keys such as `prepareCommands` and `dockerBuildArgs` can be overridden too.
+ */
+function parseEnvValue(value: string | undefined): unknown {
+  if (!value || !/^\s*[[{]/.test(value)) {
+    return value || undefined
   }
 
-  return parsed
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
 }
 
-export const DEFAULT_AWS_REGION = 'eu-west-1'
+function getSchemaDefault(key: string): unknown {
+  const schema = (JoltConfigSchema.shape as Record<string, z.ZodType>)[key]
+
+  if (!(schema instanceof z.ZodDefault)) {
+    return undefined
+  }
+
+  return schema.parse(undefined)
+}
+
+/**
+ * Mark every string within a sensitive Terraform output as secret, so it's masked wherever it's printed
+ */
+function registerSensitiveValue(value: TerraformValue) {
+  if (Array.isArray(value)) {
+    value.forEach(registerSensitiveValue)
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(registerSensitiveValue)
+  } else if (typeof value === 'string') {
+    // Booleans and numbers such as ports are too common to mask without mangling unrelated output
+    registerSecret(value)
+  }
+}
+
+/**
+ * Use a Terraform output as a name such as a Docker image, which only makes sense if the output is a string
+ */
+function getTfString(value: TerraformValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
 
 export class Config {
   private composeConfig: ComposeConfig | false | undefined
   private config: InternalConfig
   private _configPath?: string
+  private _rootDir?: string
+  private _provenance: ConfigProvenance
   private site: string | undefined
-  private tfCache: Record<string, string> | undefined
+  private _environment: string | undefined
+  // Terraform outputs, keyed by directory and workspace
+  private tfCache = new Map<string, Record<string, TerraformValue>>()
   private packageJsonCache: PackageJson | false | undefined
   private parseArgCache = new Map<string, Promise<string>>()
+  private secretCache = new Map<string, Promise<string | undefined>>()
+  private gitCache = new Map<string, Promise<string | undefined>>()
+  private interpolator = this.createInterpolator()
   private commandOverrideCache = new Map<string, CommandOverride>()
   private wordPressConfigCache: WordPressConfig | null | undefined
 
@@ -52,29 +206,93 @@ export class Config {
     return this._configPath
   }
 
+  /**
+   * The project root that the config was loaded from, which commands run in
+   */
+  get rootDir(): string | undefined {
+    return this._rootDir
+  }
+
+  /**
+   * The environment selected with `--env` (or `--dev`), if any
+   */
+  get environment(): string | undefined {
+    return this._environment
+  }
+
+  /**
+   * The site selected with `--site` or `defaultSite`, if any
+   */
+  get siteName(): string | undefined {
+    return this.site
+  }
+
   get internalConfig(): InternalConfig {
     return this.config
   }
 
+  get provenance(): ConfigProvenance {
+    return this._provenance
+  }
+
+  /**
+   * All config files that contributed at least one value, in the order of the first key each one provides. This
+   * follows the keys' provenance rather than the order the files were merged in.
+   */
+  get configFiles(): string[] {
+    return [...new Set(Object.values(this._provenance))]
+  }
+
   *[Symbol.iterator](): IterableIterator<[string, ConfigEntry]> {
     for (const entry of Object.entries(this.config)) {
       yield [entry[0], typeof entry[1] === 'string' ? entry[1] : JSON.stringify(entry[1])]
     }
   }
 
-  constructor(config: InternalConfig = {}, configPath: string | undefined = undefined) {
+  constructor(
+    config: InternalConfig = {},
+    configPath: string | undefined = undefined,
+    provenance: ConfigProvenance = {},
+    rootDir: string | undefined = undefined,
+  ) {
     this.config = config
+    this._provenance = provenance
+    this._rootDir = rootDir
 
     if (configPath) {
       this._configPath = path.resolve(configPath)
     }
   }
 
-  setSite(site: string) {
+  /**
+   * Get the file that the given key was loaded from. Nested keys use dot notation, e.g. `sites.staging.ecsCluster`.
+   */
+  getSource(key: string): string | undefined {
+    const candidate = this.getCandidates(key, this._environment).find((x) => this._provenance[x.path] !== undefined)
+    return candidate && this._provenance[candidate.path]
+  }
+
+  setSite(site: string | undefined) {
     this.site = site
     this.parseArgCache.clear()
   }
 
+  setEnvironment(environment: string | undefined) {
+    this._environment = environment
+    this.parseArgCache.clear()
+  }
+
+  getEnvironments(): Record<string, EnvironmentConfig> {
+    return this.config.environments || {}
+  }
+
+  /**
+   * Check whether an environment can be selected. `dev` is always available through the legacy `dev*` keys.
+   */
+  hasEnvironment(environment: string): boolean {
+    return environment === 'dev' || environment in this.getEnvironments()
+  }
+
   async command(name: string): Promise<string> {
     return (await this.getCommandOverride(name)).command
   }
@@ -89,59 +307,33 @@ export class Config {
     return cache.get(command) as CommandOverride
   }
 
+  /**
+   * Get the names of every command that can be overridden, including any registered with the `commands` config key
+   */
+  getCommandNames(): string[] {
+    const custom = Object.keys(this.getCustomCommands())
+    return [...new Set([...Object.keys(COMMANDS), ...custom])].sort()
+  }
+
+  private getCustomCommands(): Record<string, unknown> {
+    const commands = this.getRaw('commands', this._environment)
+    return typeof commands === 'object' && commands !== null ? (commands as Record<string, unknown>) : {}
+  }
+
+  /**
+   * Resolve a command from, in order: the `JOLT_`-prefixed and plain environment variables, the `commands` config key,
+   * the legacy `…Command` config key and finally the default. Commands that aren't built in or registered in the config
+   * are returned as they are.
+   */
   private async getCommandOverrideInternal(command: string): Promise<CommandOverride> {
-    let envVar: string
-    let def: string
+    const [name, definition] = findCommand(command) ?? [command, undefined]
+    const custom = this.getCustomCommands()
 
-    switch (command) {
-      case 'docker':
-        def = 'docker'
-        envVar = 'DOCKER_COMMAND'
-        break
-      case 'compose':
-      case 'docker compose':
-      case 'docker-compose':
-      case 'docker_compose':
-        def = 'docker compose'
-        envVar = 'COMPOSE_COMMAND'
-        break
-      case 'tofu':
-      case 'terraform':
-        def = (await which('tofu')) ? 'tofu' : 'terraform'
-        envVar = 'TERRAFORM_COMMAND'
-        break
-      case 'node':
-        def = 'node'
-        envVar = 'NODE_COMMAND'
-        break
-      case 'yarn':
-        def = 'yarn'
-        envVar = 'YARN_COMMAND'
-        break
-      case 'aws':
-        def = 'aws'
-        envVar = 'AWS_COMMAND'
-        break
-      case 'ssh':
-        def = 'ssh'
-        envVar = 'SSH_COMMAND'
-        break
-      case 'rsync':
-        def = 'rsync'
-        envVar = 'RSYNC_COMMAND'
-        break
-      case 'git':
-        def = 'git'
-        envVar = 'GIT_COMMAND'
-        break
-      case 'gzip':
-        def = 'gzip'
-        envVar = 'GZIP_COMMAND'
-        break
-      default:
-        return { command, source: 'unknown', sourceType: 'unknown' }
+    if (!definition && custom[name] === undefined) {
+      return { command, source: 'unknown', sourceType: 'unknown' }
     }
 
+    const envVar = definition?.envVar ?? `${keyToConst(name)}_COMMAND`
     const toTry = [`JOLT_${envVar}`, envVar]
 
     for (const varName of toTry) {
@@ -154,17 +346,30 @@ export class Config {
       }
     }
 
-    const configName = constToCamel(envVar)
-    const configuredValue = await this.get(configName)
-
-    if (configuredValue) {
+    if (custom[name] !== undefined) {
       return {
-        command: configuredValue,
-        source: configName,
+        command: await this.parseArg(String(custom[name])),
+        source: `commands.${name}`,
         sourceType: 'config',
       }
     }
 
+    if (definition) {
+      const configName = constToCamel(envVar)
+      // Check the raw config so that the schema defaults don't count as configured
+      const configuredValue = this.has(configName) ? await this.get(configName) : undefined
+
+      if (configuredValue) {
+        return {
+          command: configuredValue,
+          source: configName,
+          sourceType: 'config',
+        }
+      }
+    }
+
+    const def = typeof definition?.default === 'function' ? await definition.default() : (definition?.default ?? name)
+
     return {
       command: def,
       source: 'Default',
@@ -172,45 +377,223 @@ export class Config {
     }
   }
 
-  // TODO: Can we infer this automatically from the schema?
-  async get(key: 'dockerBuildArgs'): Promise<Record<string, string> | undefined>
-  async get(key: string): Promise<string | undefined>
-  async get(key: string): Promise<string | Record<string, string> | undefined> {
-    if (this.site) {
-      if (this.config?.sites?.[this.site]?.[key] !== undefined) {
-        return await this.cleanReturnValue(this.config?.sites?.[this.site]?.[key])
-      }
+  /**
+   * Get a config value, checking the current environment and then the current site first. Known keys are typed from
+   * JoltConfigSchema and fall back to the schema's default when they aren't configured, while custom keys are always
+   * strings.
+   */
+  async get<K extends ConfigKey>(key: K): Promise<ConfigValue<K>> {
+    const value = this.getRaw(key, this._environment) ?? getSchemaDefault(key)
+    return (value === undefined ? undefined : await this.cleanReturnValue(value)) as ConfigValue<K>
+  }
 
-      const capitalisedKey = key.charAt(0).toUpperCase() + key.slice(1)
-      const keyToTry = `${this.site}${capitalisedKey}`
+  /**
+   * Get a config value as it's written in the config files, before any placeholders are replaced. The current
+   * environment and site are still taken into account.
+   */
+  getRawValue(key: string): unknown {
+    return this.getRaw(key, this._environment)
+  }
+
+  /**
+   * Check whether a key has been configured. Schema defaults aren't included.
+   */
+  has(key: ConfigKey): boolean {
+    return this.getRaw(key, this._environment) !== undefined
+  }
+
+  private getRaw(key: string, environment: string | undefined): unknown {
+    return this.getCandidates(key, environment).find((x) => x.value !== undefined)?.value
+  }
 
-      if (this.config[keyToTry] !== undefined) {
-        return await this.cleanReturnValue(this.config[keyToTry])
+  /**
+   * Get every place that a key can be set, in the order they're checked. While an environment is selected, keys in
+   * ENVIRONMENT_KEYS only have the environment's candidates, so they never fall back to the production values.
+   * Environment variables come first, with the environment's own variables, e.g. `JOLT_UAT_ECS_CLUSTER`, before the
+   * plain ones.
+   */
+  private getCandidates(key: string, environment: string | undefined): ConfigCandidate[] {
+    const isStructural = STRUCTURAL_KEYS.includes(key)
+    const isEnvironmentOnly = environment !== undefined && ENVIRONMENT_KEYS.includes(key)
+    const environmentKey = environment ? getEnvironmentKey(environment, key) : undefined
+
+    const candidates: ConfigCandidate[] = isStructural
+      ? []
+      : [
+          ...(environmentKey ? this.getEnvCandidates(environmentKey, environment) : []),
+          ...(isEnvironmentOnly ? [] : this.getEnvCandidates(key)),
+        ]
+
+    if (environment && environmentKey) {
+      const environmentConfig: Record<string, unknown> | undefined = this.config.environments?.[environment]
+
+      candidates.push(
+        ...this.getSiteCandidates(environmentKey),
+        {
+          path: `environments.${environment}.${key}`,
+          label: `Environment "${environment}"`,
+          value: environmentConfig?.[key],
+        },
+        {
+          path: environmentKey,
+          label: `Root key for the ${environment} environment`,
+          value: this.config[environmentKey],
+        },
+      )
+
+      if (isEnvironmentOnly) {
+        return candidates
       }
     }
 
-    return this.config[key] === undefined ? undefined : await this.cleanReturnValue(this.config[key])
+    candidates.push(...this.getSiteCandidates(key), { path: key, label: 'Root config', value: this.config[key] })
+    return candidates
   }
 
-  has(key: string): boolean {
-    if (this.site) {
-      if (this.config?.sites?.[this.site]?.[key] !== undefined) {
-        return true
+  /**
+   * Environment variables that override a key, which take precedence over every config file. Pass the environment
+   * when the key is an environment-prefixed key, so the variables are labelled with it.
+   */
+  private getEnvCandidates(key: string, environment?: string): ConfigCandidate[] {
+    const sites = this.site ? this.getSiteChain(this.site) : []
+
+    const varNames: [string, string][] = [
+      ...sites.map((site): [string, string] => [
+        getEnvVarName(key, site),
+        environment ? `Env var for the ${environment} environment and ${site} site` : `Env var for the ${site} site`,
+      ]),
+      [getEnvVarName(key), environment ? `Env var for the ${environment} environment` : 'Env var'],
+    ]
+
+    return varNames.map(([varName, label]) => ({ path: varName, label, value: parseEnvValue(process.env[varName]) }))
+  }
+
+  /**
+   * Get the environment variables that override config values, keyed by config key. Pass a site to get the overrides
+   * for that site, i.e. the `JOLT_SITE_<SITE>__<KEY>` variables.
+   */
+  getEnvOverrides(site?: string): Record<string, EnvOverride> {
+    const siteConfig = site ? this.config.sites?.[site] : undefined
+    const keys = new Set([
+      ...Object.keys(JoltConfigSchema.shape),
+      ...Object.keys(site ? (siteConfig ?? {}) : this.config),
+    ])
+    const overrides: Record<string, EnvOverride> = {}
+
+    for (const key of keys) {
+      const varName = getEnvVarName(key, site)
+      const value = STRUCTURAL_KEYS.includes(key) ? undefined : parseEnvValue(process.env[varName])
+
+      if (value !== undefined) {
+        overrides[key] = { varName, value }
       }
+    }
+
+    return overrides
+  }
+
+  private getEnvOverrideValues(site?: string): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(this.getEnvOverrides(site)).map(([key, x]) => [key, x.value]))
+  }
+
+  private getSiteCandidates(key: string): ConfigCandidate[] {
+    if (!this.site) {
+      return []
+    }
+
+    return this.getSiteChain(this.site).flatMap((site) => {
+      const siteConfig: Record<string, unknown> | undefined = this.config.sites?.[site]
+      const prefixedKey = `${site}${capitalise(key)}`
 
-      const capitalisedKey = key.charAt(0).toUpperCase() + key.slice(1)
-      const keyToTry = `${this.site}${capitalisedKey}`
+      return [
+        { path: `sites.${site}.${key}`, label: `Site "${site}"`, value: siteConfig?.[key] },
+        { path: prefixedKey, label: `Root key for the ${site} site`, value: this.config[prefixedKey] },
+      ]
+    })
+  }
+
+  /**
+   * Explain how a key is resolved for the current site and environment: every candidate in the order they're checked,
+   * which one was used, and every placeholder and lookup involved in interpolating it.
+   */
+  async explain(key: string): Promise<ConfigExplanation> {
+    const candidates = this.getCandidates(key, this._environment)
+    const selected = candidates.find((x) => x.value !== undefined)
+    const schemaDefault = getSchemaDefault(key)
 
-      if (this.config[keyToTry] !== undefined) {
-        return true
+    // Cached values wouldn't be traced, so make sure every placeholder is resolved again
+    this.parseArgCache.clear()
+    const [value, trace] = await traceInterpolation(() => this.get(key))
+
+    const explanation: ConfigExplanation = {
+      key,
+      site: this.site,
+      environment: this._environment,
+      candidates: candidates.map((x) => ({ ...x, source: this._provenance[x.path] })),
+      selected,
+      environmentOnly: this._environment !== undefined && ENVIRONMENT_KEYS.includes(key),
+      schemaDefault,
+      rawValue: selected?.value ?? schemaDefault,
+      value,
+      trace,
+    }
+
+    const helpers: Record<string, [string, () => Promise<unknown>]> = {
+      imageName: ['getDockerImageName', () => this.getDockerImageName()],
+      remoteRepo: ['getRemoteRepo', () => this.getRemoteRepo()],
+    }
+
+    if (key in helpers) {
+      const [name, helper] = helpers[key]
+      const [helperValue, helperTrace] = await traceInterpolation(helper)
+      explanation.helper = { name, value: helperValue, trace: helperTrace }
+    }
+
+    return explanation
+  }
+
+  /**
+   * Get the given site followed by each site it inherits from through `extends`
+   */
+  getSiteChain(site: string): string[] {
+    const chain = [site]
+    let parent = this.config.sites?.[site]?.extends
+
+    while (parent !== undefined) {
+      if (chain.includes(parent)) {
+        throw new ConfigValidationError(`Circular site extends: ${[...chain, parent].join(' -> ')}`)
       }
+
+      if (!this.config.sites?.[parent]) {
+        throw new ConfigValidationError(`Site "${chain[chain.length - 1]}" extends unknown site "${parent}"`)
+      }
+
+      chain.push(parent)
+      parent = this.config.sites[parent].extends
+    }
+
+    return chain
+  }
+
+  /**
+   * Get a site's own values merged over those it inherits, without the root config
+   */
+  getResolvedSiteConfig(site: string): SiteConfig {
+    const resolved: SiteConfig = {}
+
+    for (const name of this.getSiteChain(site).reverse()) {
+      Object.assign(resolved, this.config.sites?.[name])
     }
 
-    return key in this.config
+    delete resolved.extends
+    return resolved
   }
 
-  // biome-ignore lint/suspicious/noExplicitAny: the TF var could be anything
-  async tfVar(key: string, throwOnFail = false, trySite = true): Promise<any> {
+  /**
+   * Get a Terraform/OpenTofu output, or part of one with a path such as `ecs.cluster` or `subnet_ids[0]`.
+   * Outputs keep their JSON types, so lists and maps are returned as arrays and objects.
+   */
+  async tfVar(key: string, throwOnFail = false, trySite = true): Promise<TerraformValue | undefined> {
     if (trySite && this.site) {
       const siteResult = await this.tfVar(`${this.site}_${key}`, false, false)
 
@@ -219,16 +602,20 @@ export class Config {
       }
     }
 
-    if (this.tfCache === undefined) {
+    const { dir, workspace } = await this.getTerraformContext()
+    const cacheKey = `${dir}::${workspace ?? ''}`
+
+    if (!this.tfCache.has(cacheKey)) {
       try {
-        const result = await execC(await this.command('tofu'), ['output', '-json'])
+        const options = await this.getTerraformExecOptions()
+        const result = await execC(await this.command('tofu'), ['output', '-json'], { ...options, readOnly: true })
         const output = result.stdout?.toString()
 
         if (output !== undefined) {
           const cache = JSON.parse(output)
 
           if (typeof cache === 'object') {
-            this.tfCache = this.parseTfJson(cache)
+            this.tfCache.set(cacheKey, this.parseTfJson(cache))
           }
         }
       } catch (e) {
@@ -238,73 +625,104 @@ export class Config {
       }
     }
 
+    const outputs = this.tfCache.get(cacheKey)
+
     try {
-      return this.tfCache ? resolvePath(this.tfCache, key) : undefined
+      return outputs ? resolvePath(outputs, key) : undefined
     } catch {
       return undefined
     }
   }
 
+  /**
+   * Get the directory, workspace and variables file that Terraform/OpenTofu uses for the current site
+   */
+  async getTerraformContext(): Promise<TerraformContext> {
+    const [dir, workspace, varFile] = await Promise.all([
+      this.get('terraformDir'),
+      this.get('terraformWorkspace'),
+      this.get('terraformVarFile'),
+    ])
+
+    return { dir: path.resolve(dir || '.'), workspace: workspace || undefined, varFile: varFile || undefined }
+  }
+
+  /**
+   * Get the execC options to run Terraform/OpenTofu in the configured directory and workspace
+   */
+  async getTerraformExecOptions(): Promise<{ cwd: string; env: Record<string, string> }> {
+    const { dir, workspace } = await this.getTerraformContext()
+    // TF_WORKSPACE selects the workspace without changing the one that's selected on disk
+    return { cwd: dir, env: workspace ? { TF_WORKSPACE: workspace } : {} }
+  }
+
+  /**
+   * Get a Terraform output for the current environment, e.g. `uat_ecs_cluster` or `ecs_cluster_uat` for `ecs_cluster`.
+   * Outputs without the environment aren't used, so an environment never picks up the production values.
+   */
+  async environmentTfVar(key: string, environment = this._environment): Promise<TerraformValue | undefined> {
+    const lookup = (name: string) => traceLookup(`tf:${name}`, () => this.tfVar(name))
+
+    if (!environment) {
+      return await lookup(key)
+    }
+
+    return (await lookup(`${environment}_${key}`)) ?? (await lookup(`${key}_${environment}`))
+  }
+
   awsRegion(): string {
     return process.env.AWS_REGION ?? DEFAULT_AWS_REGION
   }
 
-  async getDockerImageName(isDev = false): Promise<string | undefined> {
-    if (isDev) {
-      if (this.has('devImageName')) {
-        return await this.get('devImageName')
-      }
+  /**
+   * Get the Docker image name for an environment, defaulting to the current one. Passing `true` is the same as `dev`.
+   */
+  async getDockerImageName(environment: string | boolean | undefined = this._environment): Promise<string | undefined> {
+    const env = environment === true ? 'dev' : environment || undefined
 
-      const tfDevImageName = await this.tfVar('dev_docker_image_name')
+    if (env) {
+      const envImageName = this.getRaw('imageName', env)
 
-      if (tfDevImageName) {
-        return tfDevImageName
+      if (envImageName !== undefined) {
+        return (await this.cleanReturnValue(envImageName)) as string
       }
 
-      if (this.has('imageName')) {
-        return `${await this.get('imageName')}-dev`
-      }
+      const tfEnvImageName = getTfString(await this.environmentTfVar('docker_image_name', env))
 
-      const tfImageName = await this.tfVar('docker_image_name')
-
-      if (tfImageName) {
-        return `${tfImageName}-dev`
+      if (tfEnvImageName) {
+        return tfEnvImageName
       }
 
-      return undefined
+      const imageName = await this.getDockerImageName(false)
+      return imageName === undefined ? undefined : `${imageName}-${env}`
     }
 
-    if (this.has('imageName')) {
-      return await this.get('imageName')
+    const imageName = this.getRaw('imageName', undefined)
+
+    if (imageName !== undefined) {
+      return (await this.cleanReturnValue(imageName)) as string
     }
 
-    const tfImageName = await this.tfVar('docker_image_name')
+    const tfImageName = getTfString(await traceLookup('tf:docker_image_name', () => this.tfVar('docker_image_name')))
 
     if (tfImageName) {
       return tfImageName
     }
   }
 
-  async getRemoteRepo(isDev = false): Promise<string | undefined> {
-    if (isDev) {
-      if (this.has('devRemoteRepo')) {
-        return await this.get('devRemoteRepo')
-      }
-
-      const tfDevEcrRepo = await this.tfVar('dev_ecr_url')
+  /**
+   * Get the remote Docker repository for an environment, defaulting to the current one. Passing `true` is the same as
+   * `dev`.
+   */
+  async getRemoteRepo(environment: string | boolean | undefined = this._environment): Promise<string | undefined> {
+    const env = environment === true ? 'dev' : environment || undefined
+    const remoteRepo = this.getRaw('remoteRepo', env)
 
-      if (tfDevEcrRepo) {
-        return tfDevEcrRepo
-      }
-
-      return undefined
+    if (remoteRepo !== undefined) {
+      return (await this.cleanReturnValue(remoteRepo)) as string
     }
 
-    if (this.has('remoteRepo')) {
-      return await this.get('remoteRepo')
-    }
-
-    const tfEcrRepo = await this.tfVar('ecr_url')
+    const tfEcrRepo = getTfString(await this.environmentTfVar('ecr_url', env))
 
     if (tfEcrRepo) {
       return tfEcrRepo
@@ -343,7 +761,9 @@ export class Config {
     }
 
     try {
-      const result = await execC(await this.command('compose'), ["--profile='*'", 'config', '--format=json'])
+      const result = await execC(await this.command('compose'), ["--profile='*'", 'config', '--format=json'], {
+        readOnly: true,
+      })
       const output = result.stdout?.toString()
 
       if (output !== undefined) {
@@ -426,7 +846,7 @@ export class Config {
     if (container) {
       result.name = container
     } else if (this.has('dbContainer')) {
-      result.name = (await this.get('dbContainer')) as string
+      result.name = await this.get('dbContainer')
     } else if (services) {
       for (const [serviceName, service] of Object.entries(services)) {
         const match = service.image?.match(dbImageRegex)
@@ -444,6 +864,10 @@ export class Config {
             user: service.environment?.DB_USER,
             pass: service.environment?.DB_PASS,
           }
+
+          if (result.credentials.pass) {
+            registerSecret(result.credentials.pass)
+          }
         }
       }
     }
@@ -516,25 +940,75 @@ export class Config {
   }
 
   getPrepareCommands(timing: PrepareTimingOption | undefined = undefined): PrepareCommandConfig[] {
-    if (!this.config.prepareCommands) {
+    const prepareCommands = this.getRaw('prepareCommands', this._environment)
+
+    if (!prepareCommands) {
       return []
     }
 
-    try {
-      const validatedCommands = PrepareCommandsSchema.parse(this.config.prepareCommands)
-      const parsed: PrepareCommandConfig[] = validatedCommands.map((cmd) => {
-        if (typeof cmd === 'string') {
-          return { cmd, fail: true, timing: 'normal', hidden: false }
-        }
+    const parsed = this.parseCommandList(prepareCommands, 'prepareCommands')
 
-        return cmd
-      })
+    if (timing) {
+      return parsed.filter((cmd) => !cmd.timing || cmd.timing === timing)
+    }
+
+    return parsed
+  }
 
-      if (timing) {
-        return parsed.filter((cmd) => !cmd.timing || cmd.timing === timing)
+  /**
+   * Get the hooks to run around a command, e.g. `aws ecs deploy`, or undefined if it has none
+   */
+  getHooks(commandPath: string): HookConfig | undefined {
+    const hooks = this.getRaw('hooks', this._environment) as Record<string, unknown> | undefined
+    const commandHooks = hooks?.[commandPath]
+
+    if (!commandHooks) {
+      return undefined
+    }
+
+    const key = `hooks.${commandPath}`
+    const { before, after, onError } = this.parseConfig(HookSchema, commandHooks, key)
+
+    return {
+      before: this.parseCommandList(before ?? [], `${key}.before`),
+      after: this.parseCommandList(after ?? [], `${key}.after`),
+      onError: this.parseCommandList(onError ?? [], `${key}.onError`),
+    }
+  }
+
+  /**
+   * Get the tasks that `jolt run` can run
+   */
+  getTasks(): Record<string, TaskConfig> {
+    const tasks = (this.getRaw('tasks', this._environment) ?? {}) as Record<string, unknown>
+
+    return Object.fromEntries(
+      Object.entries(tasks).map(([name, task]) => {
+        const { description, steps, dependsOn } = this.parseConfig(TaskSchema, task, `tasks.${name}`)
+        const expandedSteps = steps.map((step) =>
+          typeof step === 'string'
+            ? { command: step, name: step, continueOnError: false }
+            : { command: step.command, name: step.name ?? step.command, continueOnError: step.continueOnError },
+        )
+
+        return [name, { description, steps: expandedSteps, dependsOn: dependsOn ?? [] }]
+      }),
+    )
+  }
+
+  private parseCommandList(commands: unknown, key: string): PrepareCommandConfig[] {
+    return this.parseConfig(PrepareCommandsSchema, commands, key).map((cmd) => {
+      if (typeof cmd === 'string') {
+        return { cmd, fail: true, timing: 'normal', hidden: false }
       }
 
-      return parsed
+      return cmd
+    })
+  }
+
+  private parseConfig<T extends z.ZodType>(schema: T, value: unknown, key: string): z.infer<T> {
+    try {
+      return schema.parse(value)
     } catch (error) {
       if (error instanceof z.ZodError) {
         const formattedErrors = error.issues
@@ -543,14 +1017,14 @@ export class Config {
             return `${path ? `${path}: ` : ''}${err.message}`
           })
           .join('\n')
-        throw new ConfigValidationError(`Invalid prepareCommands configuration:\n${formattedErrors}`)
+        throw new ConfigValidationError(`Invalid ${key} configuration:\n${formattedErrors}`)
       }
       throw error
     }
   }
 
   getWordPressUpdatesConfig(): WordPressUpdatesConfig | undefined {
-    return this.config.wpUpdates
+    return this.getRaw('wpUpdates', this._environment) as WordPressUpdatesConfig | undefined
   }
 
   async loadWordPressConfig(): Promise<WordPressConfig | null> {
@@ -572,11 +1046,11 @@ export class Config {
     }
 
     // Fall back to legacy config file
-    const legacyConfigPath = '.jolt-wp-updater.json'
+    const legacyConfigPath = LEGACY_WP_UPDATER_FILE
     try {
       await access(legacyConfigPath)
       console.warn(`⚠️ Using legacy config file: ${legacyConfigPath}`)
-      console.warn(`⚠️ Consider migrating to 'wpUpdates' in .jolt.json`)
+      console.warn(`⚠️ Run 'jolt config migrate' to move it to 'wpUpdates' in .jolt.json`)
 
       try {
         const contents = await readFile(legacyConfigPath, 'utf-8')
@@ -621,6 +1095,12 @@ export class Config {
   }
 
   async parseArg(arg: string, params: Record<string, string> = {}): Promise<string> {
+    // Nested lookups skip the cache, as they may be waiting on a cached value that is still resolving, and so do hooks,
+    // as the result they can refer to changes each time
+    if (resolutionStack.getStore()?.length || hookResultStorage.getStore()) {
+      return await this.interpolator.interpolate(arg, params)
+    }
+
     // Create a cache key that includes both the arg and params for uniqueness
     const cacheKey = `${arg}::${JSON.stringify(params)}`
 
@@ -632,43 +1112,128 @@ export class Config {
       }
     }
 
-    const promise = replaceAsync(arg, ARG_REGEX, async (x, ...args) => await this.parseArgCallback(x, params, ...args))
+    const promise = this.interpolator.interpolate(arg, params)
     this.parseArgCache.set(cacheKey, promise)
+    promise.catch(() => this.parseArgCache.delete(cacheKey))
 
     return await promise
   }
 
-  private async parseArgCallback(
-    substring: string,
-    params: Record<string, string> = {},
-    // biome-ignore lint/suspicious/noExplicitAny: this is the actual String.replace signature
-    ...args: any[]
-  ): Promise<string> {
-    const type: string = args[0]
-    const name: string = args[1]
-
-    switch (type?.toLowerCase()) {
-      case 'arg':
-      case 'param':
-        return params[name] ?? substring
-      case 'cmd':
-        return this.command(name)
-      case 'db':
-        return (await this.getDBConfigEntry(name)) ?? substring
-      case 'tf':
-      case 'tofu':
-      case 'terraform':
-        return (await this.tfVar(name)) ?? substring
-      case 'conf':
-      case 'config':
-        return (await this.get(name)) ?? substring
-      case 'git':
-        return (await this.gitVar(name)) ?? substring
-      case 'site':
-        return (await this.siteArg(name)) ?? substring
+  private createInterpolator(): Interpolator {
+    const interpolator = new Interpolator()
+
+    interpolator.register(['arg', 'param'], (name, params) => params[name])
+    interpolator.register('cmd', (name) => this.command(name))
+    interpolator.register('db', (name) => this.getDBConfigEntry(name))
+    interpolator.register(['tf', 'tofu', 'terraform'], (name) => this.tfVar(name))
+    interpolator.register(['conf', 'config'], (name) => this.resolveConfigReference(name))
+    interpolator.register('git', (name) => this.gitVar(name))
+    interpolator.register('result', (name) => this.resultVar(name))
+    interpolator.register('site', (name) => this.siteArg(name))
+    interpolator.register('env', (name) => process.env[name])
+    interpolator.register('file', (name) => this.cachedSecret(`file:${name}`, () => this.fileVar(name)))
+    interpolator.register('ssm', (name) => this.cachedSecret(`ssm:${name}`, () => this.ssmVar(name)))
+    interpolator.register(['secretsmanager', 'secret'], (name) =>
+      this.cachedSecret(`secretsmanager:${name}`, () => this.secretsManagerVar(name)),
+    )
+
+    return interpolator
+  }
+
+  private resultVar(name: string): unknown {
+    const result = hookResultStorage.getStore()
+
+    try {
+      return result ? resolvePath(result, name) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private secretVar(value: string | undefined): string | undefined {
+    if (value !== undefined) {
+      registerSecret(value)
+    }
+
+    return value
+  }
+
+  private async cachedSecret(key: string, fetch: () => Promise<string | undefined>): Promise<string | undefined> {
+    let promise = this.secretCache.get(key)
+
+    if (!promise) {
+      promise = fetch().then((value) => this.secretVar(value))
+      this.secretCache.set(key, promise)
     }
 
-    return substring
+    return await promise
+  }
+
+  private async fileVar(filePath: string): Promise<string | undefined> {
+    try {
+      return (await readFile(filePath, 'utf-8')).trim()
+    } catch {
+      return undefined
+    }
+  }
+
+  private async awsQuery(args: string[]): Promise<string | undefined> {
+    const region = await this.get('awsRegion')
+    // The command can be overridden with arguments such as `aws --profile client`, which have to be split out as the
+    // query isn't run through a shell
+    const [aws, ...awsArgs] = splitArgs(await this.command('aws'))
+    const result = await execC(aws, [...awsArgs, ...args, '--output=text', `--region=${region}`], {
+      shell: false,
+      reject: false,
+      readOnly: true,
+    })
+
+    if (result.failed) {
+      return undefined
+    }
+
+    return result.stdout?.toString().trim()
+  }
+
+  private async ssmVar(name: string): Promise<string | undefined> {
+    return await this.awsQuery([
+      'ssm',
+      'get-parameter',
+      `--name=${name}`,
+      '--with-decryption',
+      '--query=Parameter.Value',
+    ])
+  }
+
+  private async secretsManagerVar(name: string): Promise<string | undefined> {
+    const [secretId, jsonKey] = name.split('#', 2)
+    const secret = await this.awsQuery([
+      'secretsmanager',
+      'get-secret-value',
+      `--secret-id=${secretId}`,
+      '--query=SecretString',
+    ])
+
+    if (secret === undefined || !jsonKey) {
+      return secret
+    }
+
+    try {
+      const value = JSON.parse(secret)[jsonKey]
+      return value === undefined ? undefined : String(value)
+    } catch {
+      return undefined
+    }
+  }
+
+  private async resolveConfigReference(name: string): Promise<unknown> {
+    const stack = resolutionStack.getStore() ?? []
+
+    if (stack.includes(name)) {
+      throw new InterpolationError(`Circular config reference: ${[...stack, name].join(' -> ')}`)
+    }
+
+    return await resolutionStack.run([...stack, name], () => this.get(name))
   }
 
   async getDBConfigEntry(key: string): Promise<string | undefined> {
@@ -730,7 +1295,7 @@ export class Config {
     return delaySeconds || DEFAULT_DEV_PLUGIN_DELAY
   }
 
-  getSites(): Record<string, Record<string, string>> {
+  getSites(): Record<string, SiteConfig> {
     return this.config.sites || {}
   }
 
@@ -845,63 +1410,115 @@ export class Config {
   }
 
   private parseTfJson(json: Record<string, TerraformOutputJson>) {
-    const result: Record<string, string> = {}
+    const result: Record<string, TerraformValue> = {}
+
+    for (const [key, output] of Object.entries(json)) {
+      result[key] = output.value
 
-    for (const [key, value] of Object.entries(json)) {
-      result[key] = value.value
+      if (output.sensitive) {
+        registerSensitiveValue(output.value)
+      }
     }
 
     return result
   }
 
-  private async gitVar(name: string): Promise<string | undefined> {
-    const gitCommand = await this.command('git')
-
-    if (!gitCommand) {
-      return
-    }
-
+  /**
+   * Get information about the current Git checkout, e.g. `shortSha`, `branch` or `commitDate`.
+   * Results are cached, so each Git command only runs once per config instance.
+   */
+  async gitVar(name: string): Promise<string | undefined> {
     switch (name) {
       case 'sha':
       case 'shortSha':
-        return (await this.gitVar('longSha'))?.slice(0, 8)
+        return (await this.gitOutput('longSha'))?.slice(0, 8)
       case 'longSha':
-      case 'fullSha': {
-        const commitShaResult = await execC(gitCommand, ['rev-parse', 'HEAD'], { shell: false, reject: false })
+      case 'fullSha':
+        return await this.gitOutput('longSha')
+      case 'branch': {
+        const branch = await this.gitOutput('branch')
+        // A detached HEAD doesn't have a branch name
+        return branch === 'HEAD' ? undefined : branch
+      }
+      case 'branchSlug': {
+        const branch = await this.gitVar('branch')
+        return branch === undefined ? undefined : slugify(branch)
+      }
+      case 'dirty': {
+        const status = await this.gitOutput('dirty')
+        return status === undefined ? undefined : String(status !== '')
+      }
+    }
 
-        if (commitShaResult.failed) {
-          return
-        }
+    return Object.keys(GIT_COMMANDS).includes(name) ? await this.gitOutput(name) : undefined
+  }
 
-        const sha = commitShaResult.stdout?.toString()
+  private async gitOutput(name: string): Promise<string | undefined> {
+    let promise = this.gitCache.get(name)
 
-        if (sha) {
-          return sha
-        }
-      }
+    if (!promise) {
+      promise = this.runGit(GIT_COMMANDS[name])
+      this.gitCache.set(name, promise)
     }
+
+    return await promise
+  }
+
+  private async runGit(args: string[]): Promise<string | undefined> {
+    const gitCommand = await this.command('git')
+    const result = await execC(gitCommand, args, { shell: false, reject: false, readOnly: true })
+
+    if (result.failed) {
+      return
+    }
+
+    return result.stdout?.toString().trim()
   }
 
   private async siteArg(name: string): Promise<string | undefined> {
     switch (name) {
       case 'name':
         return this.site ?? undefined
+      case 'env':
+      case 'environment':
+        return this._environment
     }
   }
 
   private getFlatSiteConfig() {
+    const environment = this._environment
+    const environmentConfig = environment ? this.config.environments?.[environment] : undefined
+
     if (this.site) {
-      return { ...(this.config.sites?.[this.site] || {}), ...this.config, sites: undefined }
+      return {
+        ...this.config,
+        ...this.getResolvedSiteConfig(this.site),
+        ...environmentConfig,
+        ...this.getEnvOverrideValues(),
+        ...this.getEnvOverrideValues(this.site),
+        sites: undefined,
+        environments: undefined,
+      }
     }
 
-    const retVal = { ...this.config }
+    const retVal: Record<string, unknown> = { ...this.config, ...environmentConfig, ...this.getEnvOverrideValues() }
     delete retVal.sites
+    delete retVal.environments
 
     if (this.config.sites) {
-      for (const [siteName, siteConfig] of Object.entries(this.config.sites)) {
+      for (const siteName of Object.keys(this.config.sites)) {
+        const siteConfig = { ...this.getResolvedSiteConfig(siteName), ...this.getEnvOverrideValues(siteName) }
+
         for (const [k, v] of Object.entries(siteConfig)) {
-          const capitalisedKey = k.replace(/^./, (x) => x.toUpperCase())
-          retVal[`${siteName}${capitalisedKey}`] = v
+          retVal[`${siteName}${capitalise(k)}`] = v
+        }
+      }
+    }
+
+    if (!environment) {
+      for (const [name, envConfig] of Object.entries(this.getEnvironments())) {
+        for (const [k, v] of Object.entries(envConfig)) {
+          retVal[getEnvironmentKey(name, k)] = v
         }
       }
     }
@@ -909,59 +1526,53 @@ export class Config {
     return retVal
   }
 
-  private async cleanReturnValue(
-    val: string | Record<string, string> | undefined,
-  ): Promise<string | Record<string, string> | undefined> {
-    if (typeof val === 'undefined') {
-      return {}
-    }
-
+  private async cleanReturnValue(val: unknown): Promise<unknown> {
     if (typeof val === 'string') {
       return await this.parseArg(val)
     }
 
-    const entries = Object.entries(val)
+    if (Array.isArray(val)) {
+      return await Promise.all(val.map((x) => this.cleanReturnValue(x)))
+    }
 
-    const parsedEntries = Promise.all(
-      entries.map(async ([k, v]) => await Promise.all([this.parseArg(k), this.parseArg(v)])),
-    )
+    if (typeof val === 'object' && val !== null) {
+      const parsedEntries = Promise.all(
+        Object.entries(val).map(async ([k, v]) => await Promise.all([this.parseArg(k), this.cleanReturnValue(v)])),
+      )
 
-    return Object.fromEntries(await parsedEntries)
+      return Object.fromEntries(await parsedEntries)
+    }
+
+    return val
   }
 }
 
 let cachedConfig: Config
 const siteConfigCache = new Map<string, Config>()
 
-export default async function getConfig() {
-  if (!cachedConfig) {
-    const paths = ['.jolt.json', './bin/.env', '.env']
-
-    for (const path of paths) {
-      if (await fileExists(path)) {
-        const contents = await readFile(path)
-
-        if (contents.length === 0) {
-          continue
-        }
-
-        let parsedConfig: InternalConfig
+/**
+ * Run a command's hooks with its result available to `{result:…}` placeholders
+ */
+export async function runWithHookResult<T>(result: CommandResult, fn: () => Promise<T>): Promise<T> {
+  return await hookResultStorage.run(result, fn)
+}
 
-        if (path.endsWith('.env')) {
-          parsedConfig = parseEnvFile(dotenv.parse(contents))
-        } else if (path.endsWith('.json')) {
-          parsedConfig = JSON.parse(contents.toString())
-        } else {
-          console.error(`Unknown config file type for path ${path}`)
-          process.exit(10)
-        }
+/**
+ * Get the config for the current project, loading it the first time. The project root is found by walking up from the
+ * working directory, unless a config file is given directly or through the JOLT_CONFIG environment variable.
+ */
+export default async function getConfig(configFile: string | undefined = process.env.JOLT_CONFIG) {
+  if (!cachedConfig) {
+    const configPath = configFile ? path.resolve(configFile) : undefined
+    const rootDir = configPath ? path.dirname(configPath) : await findProjectRoot()
+    const { config, provenance, projectFile } = await loadConfig(rootDir, configPath)
+    const issues = validateConfig(config)
 
-        cachedConfig = new Config(parsedConfig, path)
-        break
-      }
+    if (issues.length > 0) {
+      console.warn(ansis.yellow(`⚠️ Found ${issues.length} config issue(s). Run \`jolt config validate\` for details.`))
     }
 
-    cachedConfig ||= new Config()
+    cachedConfig = new Config(config, projectFile, provenance, rootDir)
   }
 
   return cachedConfig
@@ -978,7 +1589,12 @@ export async function getSiteConfig(siteName: string): Promise<Config> {
     const baseConfig = await getConfig()
 
     // Create a fresh instance for this site with the same parsed config
-    const siteConfig = new Config(baseConfig.internalConfig, baseConfig.configPath)
+    const siteConfig = new Config(
+      baseConfig.internalConfig,
+      baseConfig.configPath,
+      baseConfig.provenance,
+      baseConfig.rootDir,
+    )
 
     siteConfig.setSite(siteName)
     siteConfigCache.set(siteName, siteConfig)
@@ -0,0 +1,299 @@
+import { readFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { homedir } from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import dotenv from 'dotenv'
+import { createJiti } from 'jiti'
+import YAML from 'yaml'
+import { ConfigValidationError } from './errors.js'
+import type { ConfigProvenance, InternalConfig } from './types/index.js'
+import { constToCamel, directoryExists, fileExists } from './utils.js'
+
+// The user's own config files in getUserConfigDir(), which are merged underneath the project's config
+const USER_CONFIG_FILES = ['config.json', 'config.yaml', 'config.yml']
+
+// The project's main config files, which are replaced by the file given with `--config` or JOLT_CONFIG
+const PROJECT_CONFIG_FILES = ['.jolt.json', '.jolt.yaml', '.jolt.yml', 'jolt.config.ts', 'jolt.config.mjs']
+
+// Local overrides, which are always merged on top of the project's config
+const LOCAL_CONFIG_FILES = ['.jolt.local.json', './bin/.env', '.env']
+
+/**
+ * Project config files in the order they are merged, after the user's config. Later files override earlier ones.
+ */
+export const CONFIG_FILES = [...PROJECT_CONFIG_FILES, ...LOCAL_CONFIG_FILES]
+
+/**
+ * Get the directory for the user's config, following the XDG base directory spec, e.g. `~/.config/jolt`
+ */
+export function getUserConfigDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME
+  return path.join(configHome && path.isAbsolute(configHome) ? configHome : path.join(homedir(), '.config'), 'jolt')
+}
+
+/**
+ * Get the user config file that `jolt config set --global` edits
+ */
+export function getUserConfigPath(): string {
+  return path.join(getUserConfigDir(), USER_CONFIG_FILES[0])
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs']
+
+export type LoadedConfig = {
+  config: InternalConfig
+  provenance: ConfigProvenance
+  files: string[]
+  // The project's main config file, or the one given with `--config`, which `jolt config set` edits
+  projectFile?: string
+}
+
+type PlainObject = Record<string, unknown>
+
+export function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function parseEnvFile(env: Record<string, string>): InternalConfig {
+  const parsed: InternalConfig = {}
+
+  for (const [k, v] of Object.entries(env)) {
+    parsed[constToCamel(k)] = v
+  }
+
+  return parsed
+}
+
+function recordProvenance(value: unknown, keyPath: string, source: string, provenance: ConfigProvenance) {
+  provenance[keyPath] = source
+
+  if (isPlainObject(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      recordProvenance(v, `${keyPath}.${k}`, source, provenance)
+    }
+  }
+}
+
+function clearProvenance(keyPath: string, provenance: ConfigProvenance) {
+  for (const key of Object.keys(provenance)) {
+    if (key.startsWith(`${keyPath}.`)) {
+      delete provenance[key]
+    }
+  }
+}
+
+/**
+ * Deep merge `source` into `target`, recording which source file each key path came from.
+ * Objects are merged key by key, while arrays and scalar values replace what was there before.
+ */
+export function mergeConfig(
+  target: PlainObject,
+  source: PlainObject,
+  sourcePath: string,
+  provenance: ConfigProvenance,
+  prefix = '',
+  sourceProvenance: ConfigProvenance = {},
+): PlainObject {
+  for (const [key, value] of Object.entries(source)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key
+    const existing = target[key]
+
+    if (isPlainObject(value) && isPlainObject(existing)) {
+      provenance[keyPath] = sourceProvenance[keyPath] ?? sourcePath
+      mergeConfig(existing, value, sourcePath, provenance, keyPath, sourceProvenance)
+      continue
+    }
+
+    clearProvenance(keyPath, provenance)
+    target[key] = structuredClone(value)
+    recordProvenance(value, keyPath, sourcePath, provenance)
+
+    // Keep the original file for keys that were themselves inherited through `extends`
+    for (const [sourceKey, sourceFile] of Object.entries(sourceProvenance)) {
+      if (sourceKey === keyPath || sourceKey.startsWith(`${keyPath}.`)) {
+        provenance[sourceKey] = sourceFile
+      }
+    }
+  }
+
+  return target
+}
+
+/**
+ * Load a config module such as `jolt.config.ts`. The default export can be the config itself or a function, which
+ * may be async, that returns it.
+ */
+async function loadConfigModule(filePath: string): Promise<InternalConfig> {
+  // jiti handles TypeScript as well as plain ES modules, so both work without a build step
+  const jiti = createJiti(import.meta.url)
+  const exported = await jiti.import<unknown>(filePath, { default: true })
+  const config = typeof exported === 'function' ? await exported() : exported
+
+  if (!isPlainObject(config)) {
+    throw new ConfigValidationError(`${filePath} must export a config object`)
+  }
+
+  return config as InternalConfig
+}
+
+async function parseConfigFile(filePath: string, contents: Buffer): Promise<InternalConfig> {
+  if (filePath.endsWith('.env')) {
+    return parseEnvFile(dotenv.parse(contents))
+  }
+
+  if (filePath.endsWith('.json')) {
+    return JSON.parse(contents.toString())
+  }
+
+  if (filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
+    // An empty document or one that only has comments parses as null
+    return YAML.parse(contents.toString()) ?? {}
+  }
+
+  if (MODULE_EXTENSIONS.includes(path.extname(filePath))) {
+    return await loadConfigModule(filePath)
+  }
+
+  throw new ConfigValidationError(`Unknown config file type for path ${filePath}`)
+}
+
+function isLocalReference(reference: string): boolean {
+  return reference.startsWith('.') || path.isAbsolute(reference)
+}
+
+async function readExtendedFile(filePath: string): Promise<InternalConfig> {
+  if (filePath.endsWith('.json') || filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
+    return await parseConfigFile(filePath, await readFile(filePath))
+  }
+
+  if (MODULE_EXTENSIONS.includes(path.extname(filePath))) {
+    return await loadConfigModule(filePath)
+  }
+
+  const module = await import(pathToFileURL(filePath).href)
+  return module.default ?? module
+}
+
+/**
+ * Resolve a config's `extends` chain into a single config, merging each base before the config that extends it.
+ * Local paths are resolved relative to the extending file and anything else is treated as an npm package.
+ */
+export async function resolveExtends(
+  config: InternalConfig,
+  filePath: string,
+  stack: string[] = [],
+): Promise<{ config: InternalConfig; provenance: ConfigProvenance }> {
+  const chain = [...stack, filePath]
+  const { extends: extendsValue, prepareCommandsMerge, ...ownConfig } = config
+  const references = extendsValue === undefined ? [] : [extendsValue].flat()
+  const resolved: InternalConfig = {}
+  const provenance: ConfigProvenance = {}
+
+  for (const reference of references) {
+    let basePath: string
+
+    try {
+      basePath = isLocalReference(reference)
+        ? path.resolve(path.dirname(filePath), reference)
+        : createRequire(filePath).resolve(reference)
+    } catch {
+      throw new ConfigValidationError(`Unable to resolve config "${reference}" extended by ${filePath}`)
+    }
+
+    if (chain.includes(basePath)) {
+      throw new ConfigValidationError(`Circular config extends: ${[...chain, basePath].join(' -> ')}`)
+    }
+
+    const baseConfig = await readExtendedFile(basePath)
+    const base = await resolveExtends(baseConfig, basePath, chain)
+
+    mergeConfig(resolved, base.config, basePath, provenance, '', base.provenance)
+  }
+
+  const inheritedCommands = resolved.prepareCommands
+  mergeConfig(resolved, ownConfig, filePath, provenance)
+
+  if (inheritedCommands && ownConfig.prepareCommands && prepareCommandsMerge !== 'replace') {
+    resolved.prepareCommands = [...inheritedCommands, ...ownConfig.prepareCommands]
+  }
+
+  return { config: resolved, provenance }
+}
+
+/**
+ * Find the project root by walking up from `startDir` to the nearest directory with a Jolt config file. The search
+ * stops at the Git root, which is used if there's no config file, and falls back to `startDir` if there's neither.
+ */
+export async function findProjectRoot(startDir: string = process.cwd()): Promise<string> {
+  const start = path.resolve(startDir)
+  let dir = start
+
+  while (true) {
+    for (const file of [...PROJECT_CONFIG_FILES, '.jolt.local.json']) {
+      if (await fileExists(path.join(dir, file))) {
+        return dir
+      }
+    }
+
+    // .git is a file rather than a directory in worktrees and submodules
+    const gitPath = path.join(dir, '.git')
+
+    if ((await directoryExists(gitPath)) || (await fileExists(gitPath))) {
+      return dir
+    }
+
+    const parent = path.dirname(dir)
+
+    if (parent === dir) {
+      return start
+    }
+
+    dir = parent
+  }
+}
+
+/**
+ * Load the user's config and every config file that exists in `baseDir`, and merge them in the order given by
+ * CONFIG_FILES. If `configFile` is given, it's loaded instead of the project's main config files, with local overrides
+ * from `baseDir` on top.
+ */
+export async function loadConfig(baseDir: string = process.cwd(), configFile?: string): Promise<LoadedConfig> {
+  const config: InternalConfig = {}
+  const provenance: ConfigProvenance = {}
+  const files: string[] = []
+  let projectFile: string | undefined
+
+  if (configFile && !(await fileExists(path.resolve(baseDir, configFile)))) {
+    throw new ConfigValidationError(`Config file ${configFile} doesn't exist`)
+  }
+
+  const userFiles = USER_CONFIG_FILES.map((x) => path.join(getUserConfigDir(), x))
+  const projectFiles = configFile ? [configFile, ...LOCAL_CONFIG_FILES] : CONFIG_FILES
+
+  for (const file of [...userFiles, ...projectFiles]) {
+    const filePath = path.resolve(baseDir, file)
+
+    if (!(await fileExists(filePath))) {
+      continue
+    }
+
+    if (!projectFile && (file === configFile || PROJECT_CONFIG_FILES.includes(file))) {
+      projectFile = filePath
+    }
+
+    const contents = await readFile(filePath)
+
+    if (contents.length === 0) {
+      continue
+    }
+
+    const parsedConfig = await parseConfigFile(filePath, contents)
+    const resolved = await resolveExtends(parsedConfig, filePath)
+
+    mergeConfig(config, resolved.config, filePath, provenance, '', resolved.provenance)
+    files.push(filePath)
+  }
+
+  return { config, provenance, files, projectFile }
+}
@@ -0,0 +1,154 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import dotenv from 'dotenv'
+import { isPlainObject } from './ConfigLoader.js'
+import { type ConfigFile, setConfigValue } from './ConfigWriter.js'
+import { JoltConfigSchema } from './schemas.js'
+import { constToCamel, fileExists, keyToConst } from './utils.js'
+
+// Env files that older projects use for their config, in the order they're merged
+export const LEGACY_ENV_FILES = ['./bin/.env', '.env']
+
+// The env file that holds each developer's own settings, which Docker Compose also reads
+const LOCAL_ENV_FILE = '.env'
+
+// The WordPress updater's config from before it moved to the `wpUpdates` key
+export const LEGACY_WP_UPDATER_FILE = '.jolt-wp-updater.json'
+
+const WP_UPDATER_KEYS = ['doNotUpdate', 'pluginFolder', 'themeFolder', 'wpRoot']
+
+// Env keys that hold credentials, which belong in the uncommitted local config
+const SECRET_KEY_PATTERN = /(^|_)(PASS|PASSWORD|SECRET|TOKEN|KEY)(_|$)/
+
+const CONFIG_KEYS = Object.keys(JoltConfigSchema.shape)
+
+export type ConfigMigration = {
+  // The config with the legacy values merged in
+  data: Record<string, unknown>
+  // The local config with the legacy values that shouldn't be committed merged in
+  localData: Record<string, unknown>
+  // The legacy files that were migrated
+  files: string[]
+  // The migrated files that only held Jolt config, so they can be renamed without losing anything
+  completedFiles: string[]
+  // Anything that couldn't be migrated
+  warnings: string[]
+}
+
+/**
+ * Get the key path for a key from an env file. `SITE_STAGING__ECS_CLUSTER` goes into `sites`, while everything else
+ * becomes a camel-cased root key. Keys such as `STAGING_ECS_CLUSTER` stay as root keys like `stagingEcsCluster`, which
+ * are still read for the site, rather than guessing whether `STAGING` is a site name.
+ */
+export function getEnvKeyPath(envKey: string, sites: string[]): string[] {
+  const explicit = envKey.match(/^SITE_(.+?)__(.+)$/)
+
+  if (explicit) {
+    const site = sites.find((x) => keyToConst(x) === explicit[1]) ?? explicit[1].toLowerCase().replace(/_/g, '-')
+    return ['sites', site, constToCamel(explicit[2])]
+  }
+
+  return [constToCamel(envKey)]
+}
+
+/**
+ * Whether a key is Jolt config, rather than something else that happens to be in the env file, such as a Docker
+ * Compose variable. Keys can be prefixed with `dev` or one of the given sites or environments, e.g. `stagingEcsCluster`,
+ * including the legacy `devFolder` for `liveFolder`.
+ */
+export function isConfigKey(key: string, prefixes: string[] = ['dev']): boolean {
+  if (CONFIG_KEYS.includes(key)) {
+    return true
+  }
+
+  return prefixes.some((prefix) => {
+    const suffix = key.startsWith(prefix) ? key.slice(prefix.length) : ''
+    return suffix === 'Folder' || CONFIG_KEYS.some((x) => suffix === `${x.charAt(0).toUpperCase()}${x.slice(1)}`)
+  })
+}
+
+/**
+ * Merge the legacy env files and WordPress updater config in `baseDir` into copies of the config and local config
+ * files. Env files override the config files, as they do when the config is loaded, while the WordPress updater config
+ * is only used if `wpUpdates` isn't already set. Values from `.env` and credentials go into the local config, so that
+ * they aren't committed, and keys that aren't Jolt config are left where they are.
+ */
+export async function migrateConfig(
+  file: ConfigFile,
+  localFile: ConfigFile,
+  baseDir: string = process.cwd(),
+): Promise<ConfigMigration> {
+  const data = structuredClone(file.data)
+  const localData = structuredClone(localFile.data)
+  const files: string[] = []
+  const completedFiles: string[] = []
+  const warnings: string[] = []
+  const sites = isPlainObject(data.sites) ? Object.keys(data.sites) : []
+
+  if (typeof data.defaultSite === 'string' && !sites.includes(data.defaultSite)) {
+    sites.push(data.defaultSite)
+  }
+
+  const environments = isPlainObject(data.environments) ? Object.keys(data.environments) : []
+  const prefixes = ['dev', ...sites, ...environments]
+
+  for (const envFile of LEGACY_ENV_FILES) {
+    const filePath = path.resolve(baseDir, envFile)
+
+    if (!(await fileExists(filePath))) {
+      continue
+    }
+
+    const entries = Object.entries(dotenv.parse(await readFile(filePath)))
+    const skippedKeys: string[] = []
+    const migratedKeys: string[] = []
+
+    for (const [key, value] of entries) {
+      const keyPath = getEnvKeyPath(key, sites)
+
+      if (!isConfigKey(keyPath[keyPath.length - 1], prefixes)) {
+        skippedKeys.push(key)
+        continue
+      }
+
+      const isLocal = envFile === LOCAL_ENV_FILE || SECRET_KEY_PATTERN.test(key)
+      setConfigValue(isLocal ? localData : data, keyPath, value)
+      migratedKeys.push(key)
+    }
+
+    if (skippedKeys.length > 0) {
+      // The env file is still loaded after the config files, so anything left in it would override the migrated values
+      const override =
+        migratedKeys.length > 0
+          ? ` Remove ${migratedKeys.join(', ')} from it, or they'll override the migrated config.`
+          : ''
+      warnings.push(
+        `Keeping ${envFile}, as it has values that aren't Jolt config: ${skippedKeys.join(', ')}.${override}`,
+      )
+    } else if (entries.length > 0) {
+      completedFiles.push(envFile)
+    }
+
+    if (migratedKeys.length > 0) {
+      files.push(envFile)
+    }
+  }
+
+  const wpUpdaterPath = path.resolve(baseDir, LEGACY_WP_UPDATER_FILE)
+
+  if (await fileExists(wpUpdaterPath)) {
+    const legacy = JSON.parse(await readFile(wpUpdaterPath, 'utf-8'))
+
+    if (data.wpUpdates !== undefined) {
+      warnings.push(`Not migrating ${LEGACY_WP_UPDATER_FILE} because wpUpdates is already set`)
+    } else if (!isPlainObject(legacy)) {
+      warnings.push(`Not migrating ${LEGACY_WP_UPDATER_FILE} because it doesn't contain a JSON object`)
+    } else {
+      data.wpUpdates = Object.fromEntries(WP_UPDATER_KEYS.filter((x) => x in legacy).map((x) => [x, legacy[x]]))
+      files.push(LEGACY_WP_UPDATER_FILE)
+      completedFiles.push(LEGACY_WP_UPDATER_FILE)
+    }
+  }
+
+  return { data, localData, files, completedFiles, warnings }
+}
@@ -0,0 +1,287 @@
+import { z } from 'zod'
+import { isPlainObject } from './ConfigLoader.js'
+import { parseTemplate, staticName, walkPlaceholders } from './Interpolation.js'
+import { EnvironmentConfigSchema, JoltConfigSchema, SiteConfigSchema } from './schemas.js'
+import type { InternalConfig } from './types/index.js'
+
+export type ConfigIssueSeverity = 'error' | 'warning'
+
+export type ConfigIssue = {
+  path: string
+  message: string
+  severity: ConfigIssueSeverity
+}
+
+export type ConfigPlaceholder = {
+  path: string
+  type: string
+  name: string
+  // Whether another alternative follows this one if it can't be resolved
+  hasFallback: boolean
+}
+
+// Keys that only make sense at the root of the config file
+const ROOT_ONLY_KEYS = ['$schema', 'defaultSite', 'environments', 'prepareCommandsMerge', 'sites']
+
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  let current = schema
+
+  while (current instanceof z.ZodOptional || current instanceof z.ZodDefault) {
+    current = current.unwrap() as z.ZodType
+  }
+
+  return current
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + cost)
+      diagonal = above
+    }
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Find the known key closest to the given one, if it's close enough to plausibly be a typo
+ */
+export function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  const lowerKey = key.toLowerCase()
+  const maxDistance = Math.max(1, Math.floor(key.length / 4))
+  let best: string | undefined
+  let bestDistance = Number.POSITIVE_INFINITY
+
+  for (const knownKey of knownKeys) {
+    const distance = levenshtein(lowerKey, knownKey.toLowerCase())
+
+    if (key !== knownKey && distance <= maxDistance && distance < bestDistance) {
+      best = knownKey
+      bestDistance = distance
+    }
+  }
+
+  return best
+}
+
+// Whether a key is a known key prefixed with a site or environment name, e.g. `stagingEcsCluster`
+function isPrefixedKey(key: string, prefixes: string[], knownKeys: string[]): boolean {
+  return prefixes.some((prefix) => {
+    if (!key.startsWith(prefix) || key.length === prefix.length) {
+      return false
+    }
+
+    const rest = key.slice(prefix.length)
+    return knownKeys.includes(rest.charAt(0).toLowerCase() + rest.slice(1))
+  })
+}
+
+function checkRootOnlyKeys(value: Record<string, unknown>, prefix: string, scope: string, issues: ConfigIssue[]) {
+  for (const key of Object.keys(value)) {
+    if (ROOT_ONLY_KEYS.includes(key)) {
+      issues.push({
+        path: `${prefix}.${key}`,
+        message: `"${key}" can't be overridden per ${scope}`,
+        severity: 'error',
+      })
+    }
+  }
+}
+
+function checkUnknownKeys(
+  value: Record<string, unknown>,
+  shape: Record<string, z.ZodType>,
+  prefix: string,
+  issues: ConfigIssue[],
+  ignore: (key: string) => boolean = () => false,
+) {
+  const knownKeys = Object.keys(shape)
+
+  for (const [key, child] of Object.entries(value)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key
+
+    if (key in shape) {
+      const childSchema = unwrapSchema(shape[key])
+
+      if (childSchema instanceof z.ZodObject && isPlainObject(child)) {
+        checkUnknownKeys(child, childSchema.shape, keyPath, issues)
+      }
+
+      continue
+    }
+
+    if (ignore(key)) {
+      continue
+    }
+
+    const suggestion = suggestKey(key, knownKeys)
+
+    if (suggestion) {
+      issues.push({
+        path: keyPath,
+        message: `Unknown key "${key}". Did you mean "${suggestion}"?`,
+        severity: 'warning',
+      })
+    }
+  }
+}
+
+function checkSiteExtends(siteName: string, sites: Record<string, unknown>, issues: ConfigIssue[]) {
+  const chain = [siteName]
+  let current = siteName
+
+  while (true) {
+    const siteConfig = sites[current]
+    const parent = isPlainObject(siteConfig) ? siteConfig.extends : undefined
+
+    if (typeof parent !== 'string') {
+      return
+    }
+
+    // Problems further up the chain are reported by the site they belong to
+    if (!(parent in sites)) {
+      if (current === siteName) {
+        issues.push({
+          path: `sites.${siteName}.extends`,
+          message: `Site "${siteName}" extends unknown site "${parent}"`,
+          severity: 'error',
+        })
+      }
+
+      return
+    }
+
+    if (chain.includes(parent)) {
+      if (parent === siteName) {
+        issues.push({
+          path: `sites.${siteName}.extends`,
+          message: `Circular site extends: ${[...chain, parent].join(' -> ')}`,
+          severity: 'error',
+        })
+      }
+
+      return
+    }
+
+    chain.push(parent)
+    current = parent
+  }
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join('.')
+}
+
+/**
+ * Find every placeholder reference with a fixed name in the config's string values, including fallbacks
+ */
+export function findPlaceholders(value: unknown, prefix = ''): ConfigPlaceholder[] {
+  if (typeof value === 'string') {
+    const placeholders: ConfigPlaceholder[] = []
+
+    for (const placeholder of walkPlaceholders(parseTemplate(value))) {
+      for (const [i, alternative] of placeholder.alternatives.entries()) {
+        const name = alternative.kind === 'reference' ? staticName(alternative.name) : undefined
+
+        if (alternative.kind === 'reference' && name !== undefined) {
+          const hasFallback = i < placeholder.alternatives.length - 1
+          placeholders.push({ path: prefix, type: alternative.type, name, hasFallback })
+        }
+      }
+    }
+
+    return placeholders
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((x, i) => findPlaceholders(x, `${prefix}[${i}]`))
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([k, v]) => findPlaceholders(v, prefix ? `${prefix}.${k}` : k))
+  }
+
+  return []
+}
+
+/**
+ * Statically validate a loaded config against JoltConfigSchema. This doesn't run any external commands, so
+ * Terraform placeholders are only checked by `jolt config validate`.
+ */
+export function validateConfig(config: InternalConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  const shape = JoltConfigSchema.shape as Record<string, z.ZodType>
+  const siteShape = SiteConfigSchema.shape as Record<string, z.ZodType>
+  const environmentShape = EnvironmentConfigSchema.shape as Record<string, z.ZodType>
+  const knownKeys = Object.keys(shape)
+  const sites = isPlainObject(config.sites) ? config.sites : {}
+  const siteNames = Object.keys(sites)
+  const environments = isPlainObject(config.environments) ? config.environments : {}
+  const environmentNames = Object.keys(environments)
+  const prefixes = [...siteNames, ...environmentNames, 'dev']
+  const result = JoltConfigSchema.safeParse(config)
+
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      issues.push({ path: formatPath(issue.path), message: issue.message, severity: 'error' })
+    }
+  }
+
+  checkUnknownKeys(config, shape, '', issues, (key) => key === '$schema' || isPrefixedKey(key, prefixes, knownKeys))
+
+  for (const [siteName, siteConfig] of Object.entries(sites)) {
+    if (!isPlainObject(siteConfig)) {
+      continue
+    }
+
+    checkRootOnlyKeys(siteConfig, `sites.${siteName}`, 'site', issues)
+    checkUnknownKeys(
+      siteConfig,
+      siteShape,
+      `sites.${siteName}`,
+      issues,
+      (key) => ROOT_ONLY_KEYS.includes(key) || isPrefixedKey(key, [...environmentNames, 'dev'], knownKeys),
+    )
+    checkSiteExtends(siteName, sites, issues)
+  }
+
+  for (const [environmentName, environmentConfig] of Object.entries(environments)) {
+    if (!isPlainObject(environmentConfig)) {
+      continue
+    }
+
+    const prefix = `environments.${environmentName}`
+    checkRootOnlyKeys(environmentConfig, prefix, 'environment', issues)
+    checkUnknownKeys(environmentConfig, environmentShape, prefix, issues, (key) => ROOT_ONLY_KEYS.includes(key))
+  }
+
+  for (const placeholder of findPlaceholders(config)) {
+    if ((placeholder.type !== 'conf' && placeholder.type !== 'config') || placeholder.hasFallback) {
+      continue
+    }
+
+    const inSite = siteNames.some((site) => isPlainObject(sites[site]) && placeholder.name in sites[site])
+    const inEnvironment = environmentNames.some(
+      (name) => isPlainObject(environments[name]) && placeholder.name in environments[name],
+    )
+    const hasDefault = shape[placeholder.name] instanceof z.ZodDefault
+
+    if (!(placeholder.name in config) && !hasDefault && !inSite && !inEnvironment) {
+      issues.push({
+        path: placeholder.path,
+        message: `Placeholder {${placeholder.type}:${placeholder.name}} refers to a key that isn't configured`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,236 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { isDeepStrictEqual } from 'node:util'
+import YAML from 'yaml'
+import { isPlainObject } from './ConfigLoader.js'
+import { type ConfigIssue, validateConfig } from './ConfigValidator.js'
+import { ConfigValidationError } from './errors.js'
+import type { InternalConfig } from './types/index.js'
+
+export type ConfigFileFormat = 'json' | 'yaml' | 'ts'
+
+export type ConfigFile = {
+  path: string
+  format: ConfigFileFormat
+  data: Record<string, unknown>
+  indent: string | number
+  // The config as it was read, to tell which validation errors an edit introduced
+  original: Record<string, unknown>
+  // The parsed YAML file, which is edited in place so that its comments are kept
+  document?: YAML.Document
+}
+
+// The file that `jolt config init` creates for each format
+export const CONFIG_INIT_FILES: Record<ConfigFileFormat, string> = {
+  json: '.jolt.json',
+  yaml: '.jolt.yaml',
+  ts: 'jolt.config.ts',
+}
+
+/**
+ * Serialise a config in the given format. YAML files reference the schema with a comment for the YAML language server
+ * and TypeScript files are typed by defineConfig(), so neither keeps the `$schema` key.
+ */
+export function serialiseConfig(
+  data: Record<string, unknown>,
+  format: ConfigFileFormat,
+  indent: string | number = 2,
+): string {
+  if (format === 'json') {
+    return `${JSON.stringify(data, null, indent)}\n`
+  }
+
+  const { $schema, ...config } = data
+
+  if (format === 'yaml') {
+    const modeline = typeof $schema === 'string' ? `# yaml-language-server: $schema=${$schema}\n` : ''
+    return `${modeline}${YAML.stringify(config, { indent: typeof indent === 'number' ? indent : 2 })}`
+  }
+
+  // Keys that are valid identifiers don't need quotes in TypeScript
+  const object = JSON.stringify(config, null, indent).replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:')
+  return `import { defineConfig } from '@joltdesign/scripts'\n\nexport default defineConfig(${object})\n`
+}
+
+/**
+ * Detect the indentation used by a JSON file from its first indented line, defaulting to 2 spaces
+ */
+export function detectIndent(content: string): string | number {
+  for (const line of content.split('\n')) {
+    const match = line.match(/^(\s+)/)
+
+    if (match) {
+      return match[1].includes('\t') ? '\t' : match[1].length
+    }
+  }
+
+  return 2
+}
+
+/**
+ * Get the format of a config file from its extension
+ */
+export function getConfigFileFormat(configPath: string): ConfigFileFormat {
+  const extension = path.extname(configPath)
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return 'yaml'
+  }
+
+  return extension === '.json' ? 'json' : 'ts'
+}
+
+/**
+ * Read a JSON or YAML config file for editing. A missing file is treated as an empty config. TypeScript and
+ * JavaScript configs are code, so they can't be edited this way.
+ */
+export async function readConfigFile(configPath: string): Promise<ConfigFile> {
+  const format = getConfigFileFormat(configPath)
+
+  if (format === 'ts') {
+    throw new ConfigValidationError(
+      `${configPath} is a TypeScript or JavaScript config, which can't be edited automatically. Change it by hand instead.`,
+    )
+  }
+
+  let content: string
+
+  try {
+    content = await readFile(configPath, 'utf-8')
+  } catch {
+    const document = format === 'yaml' ? new YAML.Document({}) : undefined
+    return { path: configPath, format, data: {}, indent: 2, original: {}, document }
+  }
+
+  const document = format === 'yaml' ? YAML.parseDocument(content) : undefined
+  // An empty file, or a YAML file that only has comments, is an empty config
+  const parse = () => (document ? (document.toJS() ?? {}) : content.trim() ? JSON.parse(content) : {})
+  const data = parse()
+
+  if (!isPlainObject(data)) {
+    throw new ConfigValidationError(`${configPath} doesn't contain a ${format === 'yaml' ? 'YAML' : 'JSON'} object`)
+  }
+
+  return { path: configPath, format, data, indent: detectIndent(content), original: parse(), document }
+}
+
+/**
+ * Get the value at a key path such as `['sites', 'staging', 'ecsCluster']`
+ */
+export function getConfigValue(data: unknown, keyPath: string[]): unknown {
+  let current: unknown = data
+
+  for (const key of keyPath) {
+    if (!isPlainObject(current)) {
+      return undefined
+    }
+
+    current = current[key]
+  }
+
+  return current
+}
+
+/**
+ * Set the value at a key path, creating any missing objects along the way. Existing keys are updated in place, so the
+ * order of keys in the file is kept.
+ */
+export function setConfigValue(data: Record<string, unknown>, keyPath: string[], value: unknown) {
+  const parentPath = keyPath.slice(0, -1)
+  const key = keyPath[keyPath.length - 1]
+  let parent = data
+
+  for (const [i, part] of parentPath.entries()) {
+    if (parent[part] === undefined) {
+      parent[part] = {}
+    }
+
+    const next = parent[part]
+
+    if (!isPlainObject(next)) {
+      throw new ConfigValidationError(
+        `Can't set ${keyPath.join('.')} because ${keyPath.slice(0, i + 1).join('.')} isn't an object`,
+      )
+    }
+
+    parent = next
+  }
+
+  parent[key] = value
+}
+
+/**
+ * Remove the value at a key path, returning false if it wasn't set
+ */
+export function unsetConfigValue(data: Record<string, unknown>, keyPath: string[]): boolean {
+  const parent = getConfigValue(data, keyPath.slice(0, -1))
+  const key = keyPath[keyPath.length - 1]
+
+  if (!isPlainObject(parent) || !(key in parent)) {
+    return false
+  }
+
+  delete parent[key]
+  return true
+}
+
+/**
+ * Apply the changes between two versions of a config to a YAML document, leaving everything else, including comments,
+ * as it was
+ */
+function updateDocument(document: YAML.Document, before: unknown, after: unknown, keyPath: string[] = []) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before).filter((x) => !(x in after))) {
+      document.deleteIn([...keyPath, key])
+    }
+
+    for (const [key, value] of Object.entries(after)) {
+      updateDocument(document, before[key], value, [...keyPath, key])
+    }
+  } else if (!isDeepStrictEqual(before, after)) {
+    document.setIn(keyPath, after)
+  }
+}
+
+/**
+ * Serialise an edited config file in its own format. YAML documents are updated rather than replaced, so that their
+ * comments are kept, but the file's document itself is left as it is.
+ */
+export function serialiseConfigFile(file: ConfigFile): string {
+  if (file.format === 'yaml') {
+    const document = file.document?.clone() ?? new YAML.Document({})
+    updateDocument(document, file.original, file.data)
+    return document.toString({ indent: typeof file.indent === 'number' ? file.indent : 2 })
+  }
+
+  return `${JSON.stringify(file.data, null, file.indent)}\n`
+}
+
+function errorKey(issue: ConfigIssue): string {
+  return `${issue.path}: ${issue.message}`
+}
+
+/**
+ * Validate the edited config and write it back in its format with the file's original indentation. Only errors that
+ * the edit introduced prevent saving, so an existing problem elsewhere in the file doesn't block unrelated changes.
+ */
+export async function writeConfigFile(file: ConfigFile) {
+  const existingErrors = new Set(
+    validateConfig(file.original as InternalConfig)
+      .filter((x) => x.severity === 'error')
+      .map(errorKey),
+  )
+  const newErrors = validateConfig(file.data as InternalConfig).filter(
+    (x) => x.severity === 'error' && !existingErrors.has(errorKey(x)),
+  )
+
+  if (newErrors.length > 0) {
+    throw new ConfigValidationError(
+      `Not saving ${file.path} because the change is invalid:\n${newErrors.map((x) => `- ${errorKey(x)}`).join('\n')}`,
+    )
+  }
+
+  // The user config's directory may not exist yet
+  await mkdir(path.dirname(file.path), { recursive: true })
+  await writeFile(file.path, serialiseConfigFile(file))
+}
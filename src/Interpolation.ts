@@ -0,0 +1,382 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { InterpolationError } from './errors.js'
+import { registerSecret } from './secrets.js'
+
+/**
+ * Placeholder types understood by Config. Anything else in braces is left as literal text.
+ */
+export const PLACEHOLDER_TYPES = [
+  'arg',
+  'param',
+  'cmd',
+  'db',
+  'tf',
+  'tofu',
+  'terraform',
+  'conf',
+  'config',
+  'git',
+  'site',
+  'env',
+  'file',
+  'ssm',
+  'secretsmanager',
+  'secret',
+  'result',
+]
+
+export type TemplateNode = TextNode | PlaceholderNode
+
+export type TextNode = {
+  kind: 'text'
+  value: string
+}
+
+export type PlaceholderNode = {
+  kind: 'placeholder'
+  // The original text of the placeholder, used when nothing resolves
+  source: string
+  alternatives: PlaceholderAlternative[]
+  // Filter names, optionally followed by a colon and an argument, e.g. `join:;`
+  filters: string[]
+}
+
+export type PlaceholderAlternative =
+  | { kind: 'reference'; type: string; name: TemplateNode[] }
+  | { kind: 'literal'; value: TemplateNode[] }
+
+export type PlaceholderResolver = (name: string, params: Record<string, string>) => unknown | Promise<unknown>
+
+type Filter = (value: unknown, arg?: string) => unknown
+
+/**
+ * A placeholder or lookup that was resolved while tracing, with anything it resolved in turn as its children
+ */
+export type InterpolationTrace = {
+  // The placeholder source, e.g. `{conf:devFolder|/var/www}`, or a single lookup such as `conf:devFolder`
+  lookup: string
+  value: unknown
+  children: InterpolationTrace[]
+}
+
+// The list that lookups are currently being recorded into, if tracing is enabled
+const traceStorage = new AsyncLocalStorage<InterpolationTrace[]>()
+
+/**
+ * Record a lookup in the current trace, if there is one. Anything resolved inside `fn` is recorded as its children.
+ */
+export async function traceLookup<T>(lookup: string, fn: () => Promise<T>): Promise<T> {
+  const trace = traceStorage.getStore()
+
+  if (!trace) {
+    return await fn()
+  }
+
+  const node: InterpolationTrace = { lookup, value: undefined, children: [] }
+  trace.push(node)
+
+  const value = await traceStorage.run(node.children, fn)
+  node.value = value
+  return value
+}
+
+/**
+ * Run `fn` and collect every placeholder and lookup that was resolved while it ran
+ */
+export async function traceInterpolation<T>(fn: () => Promise<T>): Promise<[T, InterpolationTrace[]]> {
+  const trace: InterpolationTrace[] = []
+  const result = await traceStorage.run(trace, fn)
+  return [result, trace]
+}
+
+/**
+ * Lowercase a string and collapse anything other than letters and numbers into single hyphens
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+const stringify = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value))
+
+export const FILTERS: Record<string, Filter> = {
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  trim: (value) => stringify(value).trim(),
+  slug: (value) => slugify(stringify(value)),
+  json: (value) => JSON.stringify(value),
+  join: (value, separator = ',') => {
+    if (Array.isArray(value)) {
+      return value.map(stringify).join(separator)
+    }
+
+    return isStructured(value) ? Object.values(value).map(stringify).join(separator) : value
+  },
+  // Secret providers mask their values already, so this is for others such as `{env:NPM_TOKEN|mask}`
+  mask: (value) => {
+    if (typeof value === 'string') {
+      registerSecret(value)
+    }
+
+    return value
+  },
+}
+
+function isStructured(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Split a filter such as `join:,` into its name and argument
+ */
+function parseFilter(filter: string): [name: string, arg: string | undefined] {
+  const colon = filter.indexOf(':')
+  return colon === -1 ? [filter.trim(), undefined] : [filter.slice(0, colon).trim(), filter.slice(colon + 1)]
+}
+
+const TYPE_REGEX = /([a-z][a-z0-9_-]*):/iy
+
+class TemplateParser {
+  private pos = 0
+
+  constructor(
+    private readonly input: string,
+    private readonly types: Set<string>,
+  ) {}
+
+  parse(): TemplateNode[] {
+    return this.parseNodes(false)
+  }
+
+  private matchType(pos: number): string | undefined {
+    TYPE_REGEX.lastIndex = pos
+    const match = TYPE_REGEX.exec(this.input)
+    const type = match?.[1].toLowerCase()
+
+    return type && this.types.has(type) ? type : undefined
+  }
+
+  private isPlaceholderStart(pos: number): boolean {
+    return this.input[pos] === '{' && this.matchType(pos + 1) !== undefined
+  }
+
+  private parseNodes(nested: boolean): TemplateNode[] {
+    const { input } = this
+    const nodes: TemplateNode[] = []
+    let text = ''
+
+    while (this.pos < input.length) {
+      const char = input[this.pos]
+
+      if (nested && (char === '|' || char === '}')) {
+        break
+      }
+
+      if (char === '\\' && (nested || this.isPlaceholderStart(this.pos + 1)) && this.pos + 1 < input.length) {
+        text += input[this.pos + 1]
+        this.pos += 2
+        continue
+      }
+
+      if (this.isPlaceholderStart(this.pos)) {
+        const start = this.pos
+        const placeholder = this.parsePlaceholder()
+
+        if (placeholder) {
+          if (text) {
+            nodes.push({ kind: 'text', value: text })
+            text = ''
+          }
+
+          nodes.push(placeholder)
+          continue
+        }
+
+        // Unterminated placeholder, so treat the opening brace as text and carry on after it
+        this.pos = start + 1
+        text += '{'
+        continue
+      }
+
+      text += char
+      this.pos++
+    }
+
+    if (text) {
+      nodes.push({ kind: 'text', value: text })
+    }
+
+    return nodes
+  }
+
+  private parsePlaceholder(): PlaceholderNode | undefined {
+    const start = this.pos
+    const segments: TemplateNode[][] = []
+    this.pos++
+
+    while (true) {
+      segments.push(this.parseNodes(true))
+
+      if (this.input[this.pos] === '|') {
+        this.pos++
+        continue
+      }
+
+      if (this.input[this.pos] === '}') {
+        this.pos++
+        break
+      }
+
+      return undefined
+    }
+
+    const source = this.input.slice(start, this.pos)
+    const alternatives: PlaceholderAlternative[] = []
+    const filters: string[] = []
+
+    for (const [i, segment] of segments.entries()) {
+      // Only leading whitespace is trimmed, so a filter argument can end with a space, e.g. `join:, `
+      const filter = segment.length === 1 && segment[0].kind === 'text' ? segment[0].value.trimStart() : undefined
+
+      if (i > 0 && filter !== undefined && parseFilter(filter)[0] in FILTERS) {
+        filters.push(filter)
+        continue
+      }
+
+      if (filters.length > 0) {
+        throw new InterpolationError(`Fallbacks must come before filters in ${source}`)
+      }
+
+      alternatives.push(this.toAlternative(segment))
+    }
+
+    return { kind: 'placeholder', source, alternatives, filters }
+  }
+
+  private toAlternative(segment: TemplateNode[]): PlaceholderAlternative {
+    const [first, ...rest] = segment
+
+    if (first?.kind === 'text') {
+      TYPE_REGEX.lastIndex = 0
+      const match = TYPE_REGEX.exec(first.value)
+      const type = match?.[1].toLowerCase()
+
+      if (match && type && this.types.has(type)) {
+        const name = first.value.slice(match[0].length)
+        return { kind: 'reference', type, name: name ? [{ kind: 'text', value: name }, ...rest] : rest }
+      }
+    }
+
+    return { kind: 'literal', value: segment }
+  }
+}
+
+/**
+ * Parse a string containing `{type:name}` placeholders into a tree of nodes.
+ *
+ * Each placeholder can list fallbacks and filters separated by pipes, e.g. `{conf:devFolder|conf:liveFolder|/var/www}`
+ * or `{git:branch|slug}`. Names and fallbacks can contain nested placeholders, and a backslash before a brace that
+ * would otherwise start a placeholder makes it literal.
+ */
+export function parseTemplate(input: string, types: Iterable<string> = PLACEHOLDER_TYPES): TemplateNode[] {
+  return new TemplateParser(input, new Set(types)).parse()
+}
+
+/**
+ * Walk every placeholder in a parsed template, including nested ones
+ */
+export function* walkPlaceholders(nodes: TemplateNode[]): Generator<PlaceholderNode> {
+  for (const node of nodes) {
+    if (node.kind !== 'placeholder') {
+      continue
+    }
+
+    yield node
+
+    for (const alternative of node.alternatives) {
+      yield* walkPlaceholders(alternative.kind === 'reference' ? alternative.name : alternative.value)
+    }
+  }
+}
+
+/**
+ * Get the name of a reference as plain text, or undefined if it's built from nested placeholders
+ */
+export function staticName(nodes: TemplateNode[]): string | undefined {
+  if (nodes.length === 0) {
+    return ''
+  }
+
+  return nodes.length === 1 && nodes[0].kind === 'text' ? nodes[0].value : undefined
+}
+
+export class Interpolator {
+  private resolvers = new Map<string, PlaceholderResolver>()
+
+  get types(): string[] {
+    return [...this.resolvers.keys()]
+  }
+
+  register(types: string | string[], resolver: PlaceholderResolver) {
+    for (const type of [types].flat()) {
+      this.resolvers.set(type.toLowerCase(), resolver)
+    }
+  }
+
+  parse(input: string): TemplateNode[] {
+    return parseTemplate(input, this.resolvers.keys())
+  }
+
+  async interpolate(input: string, params: Record<string, string> = {}): Promise<string> {
+    return await this.render(this.parse(input), params)
+  }
+
+  private async render(nodes: TemplateNode[], params: Record<string, string>): Promise<string> {
+    const parts = await Promise.all(
+      nodes.map(async (node) => (node.kind === 'text' ? node.value : await this.renderPlaceholder(node, params))),
+    )
+
+    return parts.join('')
+  }
+
+  private async renderPlaceholder(node: PlaceholderNode, params: Record<string, string>): Promise<string> {
+    return await traceLookup(node.source, () => this.resolvePlaceholder(node, params))
+  }
+
+  private async resolvePlaceholder(node: PlaceholderNode, params: Record<string, string>): Promise<string> {
+    let value: unknown
+
+    for (const alternative of node.alternatives) {
+      if (alternative.kind === 'literal') {
+        value = await this.render(alternative.value, params)
+        break
+      }
+
+      const resolver = this.resolvers.get(alternative.type)
+      const name = await this.render(alternative.name, params)
+      value = await traceLookup(`${alternative.type}:${name}`, async () => await resolver?.(name, params))
+
+      if (value !== undefined && value !== null) {
+        break
+      }
+    }
+
+    if (value === undefined || value === null) {
+      return node.source
+    }
+
+    for (const filter of node.filters) {
+      const [name, arg] = parseFilter(filter)
+      value = FILTERS[name](value, arg)
+    }
+
+    // Lists and maps have no obvious string form, so they have to be converted explicitly
+    if (isStructured(value)) {
+      throw new InterpolationError(`${node.source} is a list or map - use |json or |join to include it in a string`)
+    }
+
+    return String(value)
+  }
+}
@@ -0,0 +1,174 @@
+import { readdir } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import ansis from 'ansis'
+import { createJiti } from 'jiti'
+import type JoltCommand from './Command/JoltCommand.js'
+import getConfig, { type Config } from './Config.js'
+import { directoryExists } from './utils.js'
+
+// Directory in the project root that commands are loaded from
+export const PLUGIN_DIR = 'jolt-commands'
+
+const PLUGIN_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs']
+
+// The arguments that Clipanion shows the version for
+const VERSION_ARGS = ['-v', '--version']
+
+export type JoltCommandClass = (new () => JoltCommand) & typeof JoltCommand
+
+export type JoltPlugin = {
+  // The package name, or the file's path relative to the project root
+  name: string
+  source: 'directory' | 'package'
+  // The absolute path that the plugin was loaded from
+  path: string
+  commands: JoltCommandClass[]
+}
+
+let loadedPlugins: JoltPlugin[] = []
+
+function isLocalReference(reference: string): boolean {
+  return reference.startsWith('.') || path.isAbsolute(reference)
+}
+
+/**
+ * Whether a plugin export is a command that can be registered. Plugin packages usually resolve their own copy of
+ * Jolt, so their commands are recognised by their shape rather than with `instanceof`.
+ */
+export function isCommandClass(value: unknown): value is JoltCommandClass {
+  if (typeof value !== 'function') {
+    return false
+  }
+
+  const { paths, prototype } = value as { paths?: unknown; prototype?: Partial<JoltCommand> }
+  return Array.isArray(paths) && typeof prototype?.execute === 'function' && typeof prototype.command === 'function'
+}
+
+/**
+ * Load a plugin module and find the commands it exports
+ */
+export async function loadPlugin(name: string, filePath: string, source: JoltPlugin['source']): Promise<JoltPlugin> {
+  // jiti handles TypeScript as well as plain ES modules, so plugins work without a build step
+  const jiti = createJiti(import.meta.url)
+  const exported = await jiti.import<Record<string, unknown>>(filePath)
+  const commands = [...new Set(Object.values(exported).filter(isCommandClass))]
+
+  if (commands.length === 0) {
+    throw new Error(`${name} doesn't export any JoltCommand subclasses`)
+  }
+
+  return { name, source, path: filePath, commands }
+}
+
+/**
+ * Get the paths of a plugin's commands, e.g. `client deploy`
+ */
+export function getPluginCommandPaths(plugin: JoltPlugin): string[] {
+  return plugin.commands.flatMap((command) => command.paths?.map((x) => x.join(' ')) ?? [])
+}
+
+/**
+ * Find the plugin files in the project's `jolt-commands` directory
+ */
+export async function findPluginFiles(rootDir: string): Promise<string[]> {
+  const dir = path.join(rootDir, PLUGIN_DIR)
+
+  if (!(await directoryExists(dir))) {
+    return []
+  }
+
+  const files = await readdir(dir)
+
+  return files
+    .filter((file) => PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+    .sort()
+    .map((file) => path.join(dir, file))
+}
+
+/**
+ * Load the commands from the project's `jolt-commands` directory and the packages listed under `plugins` in the
+ * config. Plugins that can't be loaded are reported and skipped, so that they don't stop other commands from running.
+ */
+export async function loadPlugins(rootDir: string, packages: string[] = []): Promise<JoltPlugin[]> {
+  const require = createRequire(path.join(rootDir, 'package.json'))
+  const candidates: Array<Pick<JoltPlugin, 'name' | 'source'> & { resolve: () => string }> = [
+    ...(await findPluginFiles(rootDir)).map((file) => ({
+      name: path.relative(rootDir, file),
+      source: 'directory' as const,
+      resolve: () => file,
+    })),
+    ...packages.map((name) => ({
+      name,
+      source: 'package' as const,
+      resolve: () => (isLocalReference(name) ? path.resolve(rootDir, name) : require.resolve(name)),
+    })),
+  ]
+
+  const plugins: JoltPlugin[] = []
+
+  for (const { name, source, resolve } of candidates) {
+    try {
+      plugins.push(await loadPlugin(name, resolve(), source))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(ansis.yellow(`⚠️ Unable to load plugin ${name}: ${message}`))
+    }
+  }
+
+  loadedPlugins = plugins
+  return plugins
+}
+
+/**
+ * Get the config file given with `--config`, before the command line has been parsed
+ */
+export function getConfigFileArg(args: string[]): string | undefined {
+  for (const [i, arg] of args.entries()) {
+    if (arg === '--config') {
+      return args[i + 1]
+    }
+
+    if (arg.startsWith('--config=')) {
+      return arg.slice('--config='.length)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Load the plugins for the project that a command line will run in
+ */
+export async function loadProjectPlugins(args: string[]): Promise<JoltPlugin[]> {
+  // Showing the version doesn't need any commands, so it shouldn't depend on the project's config either
+  if (args.length === 1 && VERSION_ARGS.includes(args[0])) {
+    return []
+  }
+
+  let config: Config
+
+  try {
+    config = await getConfig(getConfigFileArg(args) ?? process.env.JOLT_CONFIG)
+  } catch {
+    // Commands report config errors themselves, and some of them, such as `config validate`, are there to fix them
+    return []
+  }
+
+  const rootDir = config.rootDir ?? process.cwd()
+  const packages = config.internalConfig.plugins ?? []
+
+  // Most projects have no plugins, so don't set up the loader for them
+  if (packages.length === 0 && !(await directoryExists(path.join(rootDir, PLUGIN_DIR)))) {
+    return []
+  }
+
+  return await loadPlugins(rootDir, packages)
+}
+
+/**
+ * Get the plugins that were loaded when Jolt started
+ */
+export function getLoadedPlugins(): JoltPlugin[] {
+  return loadedPlugins
+}
@@ -13,7 +13,17 @@ import {
 import { BuildCommand } from './Command/Build.js'
 import { CacheFlushCommand } from './Command/Cache.js'
 import { CmdCommand } from './Command/Cmd.js'
-import { ConfigCommand, ConfigInitCommand, ConfigSitesCommand } from './Command/Config.js'
+import {
+  ConfigCommand,
+  ConfigExplainCommand,
+  ConfigGetCommand,
+  ConfigInitCommand,
+  ConfigMigrateCommand,
+  ConfigSetCommand,
+  ConfigSitesCommand,
+  ConfigUnsetCommand,
+  ConfigValidateCommand,
+} from './Command/Config.js'
 import { DBAwaitCommand, DBDumpCommand, DBResetCommand } from './Command/DB.js'
 import {
   DockerBuildCommand,
@@ -25,6 +35,7 @@ import {
 } from './Command/Docker.js'
 import { NexcessDeployCommand, NexcessDeployLocalCommand, NexcessDeploySpecificCommand } from './Command/Nexcess.js'
 import { PrepareCommand } from './Command/Prepare.js'
+import { RunCommand } from './Command/Run.js'
 import { RsyncCommand, SSHCommand } from './Command/SSH.js'
 import { TemplateCommand } from './Command/Template.js'
 import {
@@ -35,6 +46,7 @@ import {
   WPUpdateMergeCommand,
   WPUpdateModifyCommand,
 } from './Command/WP.js'
+import { loadProjectPlugins } from './PluginLoader.js'
 import { getPackageJson } from './utils.js'
 
 const [_node, _app, ...args] = process.argv
@@ -49,7 +61,13 @@ const cli = new Cli({
 cli.register(BuildCommand)
 cli.register(ConfigCommand)
 cli.register(ConfigInitCommand)
+cli.register(ConfigGetCommand)
+cli.register(ConfigSetCommand)
+cli.register(ConfigUnsetCommand)
+cli.register(ConfigExplainCommand)
+cli.register(ConfigMigrateCommand)
 cli.register(ConfigSitesCommand)
+cli.register(ConfigValidateCommand)
 cli.register(DockerBuildCommand)
 cli.register(DockerLoginCommand)
 cli.register(DockerTagCommand)
@@ -81,4 +99,13 @@ cli.register(CmdCommand)
 cli.register(TemplateCommand)
 cli.register(CloudFrontInvalidateCommand)
 cli.register(PrepareCommand)
+cli.register(RunCommand)
+
+// Commands from the project's jolt-commands directory and the packages listed under `plugins` in its config
+for (const plugin of await loadProjectPlugins(args)) {
+  for (const command of plugin.commands) {
+    cli.register(command)
+  }
+}
+
 cli.runExit(args)
@@ -11,3 +11,10 @@ export class ContainerRuntimeError extends Error {
     this.name = 'ContainerRuntimeError'
   }
 }
+
+export class InterpolationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InterpolationError'
+  }
+}
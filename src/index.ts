@@ -0,0 +1,29 @@
+import type { JoltConfigInput } from './types/index.js'
+
+// The API for commands in plugins and the jolt-commands directory. Plugins should use the Option helpers exported here,
+// rather than their own copy of clipanion, so that their options are recognised.
+export { Command, Option } from 'clipanion'
+export { default as JoltCommand } from './Command/JoltCommand.js'
+export type { Config } from './Config.js'
+export { slugify } from './Interpolation.js'
+export type { JoltCommandClass, JoltPlugin } from './PluginLoader.js'
+export { redactSecrets, registerSecret } from './secrets.js'
+export type {
+  CommandResult,
+  EnvironmentConfig,
+  JoltConfig,
+  JoltConfigInput,
+  PrepareCommandConfig,
+  SiteConfig,
+} from './types/index.js'
+export { type ExecCOptions, execC } from './utils.js'
+
+export type ConfigExport = JoltConfigInput | (() => JoltConfigInput | Promise<JoltConfigInput>)
+
+/**
+ * Define the config in `jolt.config.ts` or `jolt.config.mjs` with full type checking. Pass a function, which may be
+ * async, to compute values when the config is loaded.
+ */
+export function defineConfig<T extends ConfigExport>(config: T): T {
+  return config
+}
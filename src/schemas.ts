@@ -19,8 +19,33 @@ export const PrepareCommandsSchema = z.array(
   z.union([z.string().describe('Simple command string'), PrepareCommandSchema]),
 )
 
-// Site-specific configuration schema
-export const SiteConfigSchema = z.record(z.string(), z.string())
+export const HookSchema = z.object({
+  before: PrepareCommandsSchema.optional().describe('Commands to run before the command'),
+  after: PrepareCommandsSchema.optional().describe('Commands to run after the command succeeds'),
+  onError: PrepareCommandsSchema.optional().describe('Commands to run if the command fails'),
+})
+
+export const TaskStepSchema = z.union([
+  z.string().describe('Jolt command to run, e.g. "docker build"'),
+  z.object({
+    command: z.string().describe('Jolt command to run, e.g. "docker build"'),
+    name: z.string().optional().describe('Display name for the step, which can also be used with --from'),
+    continueOnError: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Whether to carry on with the task if the step fails'),
+  }),
+])
+
+export const TaskSchema = z.object({
+  description: z.string().optional().describe('What the task does, shown by `jolt run`'),
+  steps: z.array(TaskStepSchema).describe('Jolt commands to run in order'),
+  dependsOn: z
+    .array(z.string())
+    .optional()
+    .describe('Tasks to run first. Names that are not tasks are run as Jolt commands, e.g. "prepare".'),
+})
 
 // WordPress resolved configuration schema (with required fields)
 export const WordPressConfigSchema = z.object({
@@ -30,128 +55,215 @@ export const WordPressConfigSchema = z.object({
   wpRoot: z.string().describe('Path to WordPress root directory'),
 })
 
+// Settings that can be set at the root of the config or overridden per site
+const ConfigFieldsSchema = z.object({
+  // AWS Configuration
+  awsRegion: z.string().optional().describe('AWS region for operations').default('eu-west-1'),
+
+  // Docker Configuration
+  composeProject: z.string().optional().describe('Name of the Compose project'),
+  imageName: z.string().optional().describe('Docker image name for production builds'),
+  devImageName: z
+    .string()
+    .optional()
+    .describe('Docker image name for development builds (overrides imageName + dev suffix)'),
+  devSuffix: z.string().optional().describe('Suffix to append to image name for development builds').default('-dev'),
+  buildPlatform: z.string().optional().describe('Docker build platform (e.g., linux/amd64, linux/arm64)'),
+  buildContext: z.string().optional().describe('Docker build context path').default('.'),
+  ecrBaseUrl: z.string().optional().describe('ECR repository base URL'),
+  dockerBuildArgs: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe('Build arguments to be passed to the docker build command')
+    .default({}),
+
+  // ECS Configuration
+  ecsCluster: z.string().optional().describe('Production ECS cluster name'),
+  devEcsCluster: z.string().optional().describe('Development ECS cluster name'),
+  ecsService: z.string().optional().describe('Production ECS service name'),
+  devEcsService: z.string().optional().describe('Development ECS service name'),
+
+  // CodeBuild Configuration
+  codebuildProject: z.string().optional().describe('Production CodeBuild project name'),
+  devCodebuildProject: z.string().optional().describe('Development CodeBuild project name'),
+
+  // CloudFront Configuration
+  cloudfrontDistribution: z.string().optional().describe('CloudFront distribution ID for cache invalidation'),
+
+  // SSH Configuration
+  sshAccount: z.string().optional().describe('SSH account for production deployments (user@host format)'),
+  devSshAccount: z.string().optional().describe('SSH account for development deployments (user@host format)'),
+  sshPort: z.string().optional().describe('SSH port number').default('22'),
+  liveFolder: z.string().optional().describe('Remote folder path for production deployments'),
+  devFolder: z.string().optional().describe('Remote folder path for development deployments'),
+
+  // Git Configuration
+  branch: z.string().optional().describe('Git branch for production deployments'),
+  devBranch: z.string().optional().describe('Git branch for development deployments'),
+  repo: z.string().optional().describe('Git repository URL'),
+  codeSubfolder: z.string().optional().describe('Subfolder within repository containing the code'),
+
+  // Terraform/OpenTofu Configuration
+  terraformDir: z
+    .string()
+    .optional()
+    .describe('Directory containing the Terraform/OpenTofu configuration, relative to the working directory'),
+  terraformWorkspace: z.string().optional().describe('Terraform/OpenTofu workspace to read outputs from'),
+  terraformVarFile: z
+    .string()
+    .optional()
+    .describe('Variables file passed to Terraform/OpenTofu when refreshing during prepare'),
+
+  // Nexcess Configuration
+  nexcessDeployScript: z
+    .string()
+    .optional()
+    .describe('Path to Nexcess deployment script')
+    .default('bin/nexcess-deploy-script.sh'),
+  nexcessCleanupScript: z
+    .string()
+    .optional()
+    .describe('Path to Nexcess cleanup script')
+    .default('bin/nexcess-cleanup.sh'),
+
+  // Database Configuration
+  dbSeed: z.string().optional().describe('Database seed file path'),
+  dbBackupPath: z.string().optional().describe('Path for database backups'),
+  dbContainer: z.string().optional().describe('Name of the database container'),
+  dbName: z.string().optional().describe('Name of the database schema to use'),
+  dbUser: z.string().optional().describe('Username for the database container'),
+  dbPass: z.string().optional().describe('Password for the database container'),
+
+  // WordPress Configuration
+  devPlugins: z.string().optional().describe('WordPress plugins to activate on development servers'),
+  devPluginDelay: z
+    .string()
+    .optional()
+    .describe(
+      'Maximum number of seconds to wait for dev plugins to be activated. Defaults to 120 when preparing and 5 after a DB reset.',
+    ),
+  wpCliContainer: z.string().optional().describe('Docker container name for WP-CLI operations'),
+  wpCliContainerProfile: z.string().optional().describe('Docker Compose profile for WP-CLI container'),
+  wpUpdates: z
+    .object({
+      doNotUpdate: z.array(z.string()).optional().default([]).describe('List of plugins/themes to skip during updates'),
+      pluginFolder: z
+        .string()
+        .optional()
+        .default('code/wp-content/plugins')
+        .describe('Path to WordPress plugins folder'),
+      themeFolder: z.string().optional().default('code/wp-content/themes').describe('Path to WordPress themes folder'),
+      wpRoot: z.string().optional().default('code/').describe('Path to WordPress root directory'),
+    })
+    .optional()
+    .describe('WordPress automatic update configuration'),
+
+  // Command Overrides
+  dockerCommand: z.string().optional().describe('Override for docker command').default('docker'),
+  composeCommand: z.string().optional().describe('Override for docker compose command').default('docker compose'),
+  terraformCommand: z
+    .string()
+    .optional()
+    .describe('Override for terraform/tofu command (auto-detects tofu vs terraform)'),
+  nodeCommand: z.string().optional().describe('Override for node command').default('node'),
+  yarnCommand: z.string().optional().describe('Override for yarn command').default('yarn'),
+  awsCommand: z.string().optional().describe('Override for aws command').default('aws'),
+  sshCommand: z.string().optional().describe('Override for ssh command').default('ssh'),
+  rsyncCommand: z.string().optional().describe('Override for rsync command').default('rsync'),
+  gitCommand: z.string().optional().describe('Override for git command').default('git'),
+  gzipCommand: z.string().optional().describe('Override for gzip command').default('gzip'),
+  npxCommand: z.string().optional().describe('Override for npx command').default('npx'),
+  wpCommand: z.string().optional().describe('Override for wp command').default('wp'),
+  composerCommand: z.string().optional().describe('Override for composer command').default('composer'),
+  phpCommand: z.string().optional().describe('Override for php command').default('php'),
+  mysqlCommand: z.string().optional().describe('Override for mysql command').default('mysql'),
+  kubectlCommand: z.string().optional().describe('Override for kubectl command').default('kubectl'),
+  commands: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe('Commands for external tools by name, overriding the built-in commands or registering new ones'),
+
+  // Prepare Commands
+  prepareCommands: PrepareCommandsSchema.optional().describe('Commands to run during preparation phase'),
+
+  // Tasks
+  tasks: z
+    .record(z.string(), TaskSchema)
+    .optional()
+    .describe('Named pipelines of Jolt commands to run with `jolt run`'),
+
+  // Hooks
+  hooks: z
+    .record(z.string(), HookSchema)
+    .optional()
+    .describe('Commands to run before and after Jolt commands, keyed by command path such as "aws ecs deploy"'),
+})
+
+type WithoutDefaults<T extends z.ZodRawShape> = {
+  [K in keyof T]: T[K] extends z.ZodDefault<infer Inner> ? Inner : T[K]
+}
+
+// Defaults only apply at the root, so that a site without a value falls back to the root value
+function withoutDefaults<T extends z.ZodRawShape>(shape: T): WithoutDefaults<T> {
+  const entries = Object.entries(shape).map(([key, field]) => {
+    if (!(field instanceof z.ZodDefault)) {
+      return [key, field]
+    }
+
+    const inner = field.removeDefault() as z.ZodType
+    const description = field.description ?? inner.description
+    return [key, description ? inner.describe(description) : inner]
+  })
+
+  return Object.fromEntries(entries) as WithoutDefaults<T>
+}
+
+// Site-specific configuration schema
+export const SiteConfigSchema = z
+  .object({
+    extends: z.string().optional().describe('Name of another site to inherit values from'),
+    tags: z
+      .array(z.string())
+      .optional()
+      .describe('Tags for selecting the site with --site-tag when running a command for each site'),
+    ...withoutDefaults(ConfigFieldsSchema.shape),
+  })
+  .catchall(z.string()) // Allow additional string properties for custom config values
+
+// Environment-specific configuration schema, e.g. for `--env uat`
+export const EnvironmentConfigSchema = z.object(withoutDefaults(ConfigFieldsSchema.shape)).catchall(z.string())
+
 // Complete Jolt configuration schema
 export const JoltConfigSchema = z
   .object({
-    // AWS Configuration
-    awsRegion: z.string().optional().describe('AWS region for operations').default('eu-west-1'),
-
-    // Docker Configuration
-    composeProject: z.string().optional().describe('Name of the Compose project'),
-    imageName: z.string().optional().describe('Docker image name for production builds'),
-    devImageName: z
-      .string()
-      .optional()
-      .describe('Docker image name for development builds (overrides imageName + dev suffix)'),
-    devSuffix: z.string().optional().describe('Suffix to append to image name for development builds').default('-dev'),
-    buildPlatform: z.string().optional().describe('Docker build platform (e.g., linux/amd64, linux/arm64)'),
-    buildContext: z.string().optional().describe('Docker build context path').default('.'),
-    ecrBaseUrl: z.string().optional().describe('ECR repository base URL'),
-    dockerBuildArgs: z
-      .record(z.string(), z.string())
+    // Shared Configuration
+    extends: z
+      .union([z.string(), z.array(z.string())])
       .optional()
-      .describe('Build arguments to be passed to the docker build command')
-      .default({}),
-
-    // ECS Configuration
-    ecsCluster: z.string().optional().describe('Production ECS cluster name'),
-    devEcsCluster: z.string().optional().describe('Development ECS cluster name'),
-    ecsService: z.string().optional().describe('Production ECS service name'),
-    devEcsService: z.string().optional().describe('Development ECS service name'),
-
-    // CodeBuild Configuration
-    codebuildProject: z.string().optional().describe('Production CodeBuild project name'),
-    devCodebuildProject: z.string().optional().describe('Development CodeBuild project name'),
-
-    // CloudFront Configuration
-    cloudfrontDistribution: z.string().optional().describe('CloudFront distribution ID for cache invalidation'),
-
-    // SSH Configuration
-    sshAccount: z.string().optional().describe('SSH account for production deployments (user@host format)'),
-    devSshAccount: z.string().optional().describe('SSH account for development deployments (user@host format)'),
-    sshPort: z.string().optional().describe('SSH port number').default('22'),
-    liveFolder: z.string().optional().describe('Remote folder path for production deployments'),
-    devFolder: z.string().optional().describe('Remote folder path for development deployments'),
-
-    // Git Configuration
-    branch: z.string().optional().describe('Git branch for production deployments'),
-    devBranch: z.string().optional().describe('Git branch for development deployments'),
-    repo: z.string().optional().describe('Git repository URL'),
-    codeSubfolder: z.string().optional().describe('Subfolder within repository containing the code'),
-
-    // Nexcess Configuration
-    nexcessDeployScript: z
-      .string()
+      .describe('Local path or npm package name of one or more base configs to inherit from'),
+    prepareCommandsMerge: z
+      .enum(['append', 'replace'])
       .optional()
-      .describe('Path to Nexcess deployment script')
-      .default('bin/nexcess-deploy-script.sh'),
-    nexcessCleanupScript: z
-      .string()
-      .optional()
-      .describe('Path to Nexcess cleanup script')
-      .default('bin/nexcess-cleanup.sh'),
-
-    // Database Configuration
-    dbSeed: z.string().optional().describe('Database seed file path'),
-    dbBackupPath: z.string().optional().describe('Path for database backups'),
-    dbContainer: z.string().optional().describe('Name of the database container'),
-    dbName: z.string().optional().describe('Name of the database schema to use'),
-    dbUser: z.string().optional().describe('Username for the database container'),
-    dbPass: z.string().optional().describe('Password for the database container'),
-
-    // WordPress Configuration
-    devPlugins: z.string().optional().describe('WordPress plugins to activate on development servers'),
-    devPluginDelay: z
-      .string()
-      .optional()
-      .describe('Maximum number of seconds to wait for dev plugins to be activated')
-      .default('30'),
-    wpCliContainer: z.string().optional().describe('Docker container name for WP-CLI operations'),
-    wpCliContainerProfile: z.string().optional().describe('Docker Compose profile for WP-CLI container'),
-    wpUpdates: z
-      .object({
-        doNotUpdate: z
-          .array(z.string())
-          .optional()
-          .default([])
-          .describe('List of plugins/themes to skip during updates'),
-        pluginFolder: z
-          .string()
-          .optional()
-          .default('code/wp-content/plugins')
-          .describe('Path to WordPress plugins folder'),
-        themeFolder: z
-          .string()
-          .optional()
-          .default('code/wp-content/themes')
-          .describe('Path to WordPress themes folder'),
-        wpRoot: z.string().optional().default('code/').describe('Path to WordPress root directory'),
-      })
-      .optional()
-      .describe('WordPress automatic update configuration'),
+      .describe('Whether prepareCommands are appended to or replace those inherited via extends. Defaults to append.'),
 
-    // Command Overrides
-    dockerCommand: z.string().optional().describe('Override for docker command').default('docker'),
-    composeCommand: z.string().optional().describe('Override for docker compose command').default('docker compose'),
-    terraformCommand: z
-      .string()
+    ...ConfigFieldsSchema.shape,
+
+    // Plugins
+    plugins: z
+      .array(z.string())
       .optional()
-      .describe('Override for terraform/tofu command (auto-detects tofu vs terraform)'),
-    nodeCommand: z.string().optional().describe('Override for node command').default('node'),
-    yarnCommand: z.string().optional().describe('Override for yarn command').default('yarn'),
-    awsCommand: z.string().optional().describe('Override for aws command').default('aws'),
-    sshCommand: z.string().optional().describe('Override for ssh command').default('ssh'),
-    rsyncCommand: z.string().optional().describe('Override for rsync command').default('rsync'),
-    gitCommand: z.string().optional().describe('Override for git command').default('git'),
-    gzipCommand: z.string().optional().describe('Override for gzip command').default('gzip'),
-
-    // Prepare Commands
-    prepareCommands: PrepareCommandsSchema.optional().describe('Commands to run during preparation phase'),
+      .describe('npm packages or local paths to load extra commands from, alongside the jolt-commands directory'),
 
     // Site Configuration
     defaultSite: z.string().optional().describe('Default site to use when no site is specified'),
 
     // Site-specific configurations
     sites: z.record(z.string(), SiteConfigSchema).optional().describe('Site-specific configuration overrides'),
+
+    // Environment-specific configurations
+    environments: z
+      .record(z.string(), EnvironmentConfigSchema)
+      .optional()
+      .describe('Environment-specific configuration overrides, selected with --env'),
   })
   .catchall(z.string()) // Allow additional string properties for custom config values
@@ -0,0 +1,36 @@
+export const REDACTED = '********'
+
+// Very short values would redact unrelated output, so they aren't tracked
+const MIN_SECRET_LENGTH = 4
+
+const secrets = new Set<string>()
+
+/**
+ * Mark a value as secret so that it's masked by redactSecrets()
+ */
+export function registerSecret(value: string) {
+  if (value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value)
+  }
+}
+
+/**
+ * Clear all registered secrets - primarily for testing purposes
+ */
+export function clearSecrets(): void {
+  secrets.clear()
+}
+
+/**
+ * Replace any registered secret values in the given text before it's shown to the user
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text
+
+  // Replace longer secrets first in case one contains another
+  for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+    redacted = redacted.split(secret).join(REDACTED)
+  }
+
+  return redacted
+}
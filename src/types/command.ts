@@ -0,0 +1,20 @@
+/**
+ * The result that a command writes to stdout with `--json`. Commands add their own details to it, such as ARNs,
+ * console URLs and file paths.
+ */
+export type CommandResult = {
+  command: string
+  exitCode?: number
+  site?: string
+  dryRun?: boolean
+  error?: string
+  // How long the site took in milliseconds with `--for-each-site`
+  duration?: number
+  // Whether the site was skipped because another site failed
+  skipped?: boolean
+  // Commands that the command ran through `cli.run()`
+  steps?: CommandResult[]
+  // Each site's result with `--for-each-site`
+  sites?: CommandResult[]
+  [key: string]: unknown
+}
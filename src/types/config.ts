@@ -1,20 +1,49 @@
 import type { z } from 'zod'
+import type { InterpolationTrace } from '../Interpolation.js'
 import type {
+  EnvironmentConfigSchema,
+  HookSchema,
   JoltConfigSchema,
   PrepareCommandSchema,
   PrepareTimingSchema,
   SiteConfigSchema,
   WordPressConfigSchema,
 } from '../schemas.js'
-
 import type { ComposeService } from './compose.js'
 
 export type PrepareTimingOption = z.infer<typeof PrepareTimingSchema>
 
 export type PrepareCommandConfig = z.infer<typeof PrepareCommandSchema>
 
+export type HookTiming = keyof z.infer<typeof HookSchema>
+
+/**
+ * The commands to run around a Jolt command, with simple command strings expanded
+ */
+export type HookConfig = Record<HookTiming, PrepareCommandConfig[]>
+
+/**
+ * A step of a task, with simple command strings expanded
+ */
+export type TaskStep = {
+  command: string
+  name: string
+  continueOnError: boolean
+}
+
+/**
+ * A task from the config, with simple command strings expanded
+ */
+export type TaskConfig = {
+  description?: string
+  steps: TaskStep[]
+  dependsOn: string[]
+}
+
 export type SiteConfig = z.infer<typeof SiteConfigSchema>
 
+export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>
+
 export type WordPressUpdatesConfig = z.infer<typeof JoltConfigSchema>['wpUpdates']
 
 export type ConfigEntry =
@@ -27,12 +56,85 @@ export type WordPressConfig = z.infer<typeof WordPressConfigSchema>
 
 export type InternalConfig = Partial<z.infer<typeof JoltConfigSchema>>
 
+/**
+ * The fully parsed config, with schema defaults applied
+ */
+export type JoltConfig = z.infer<typeof JoltConfigSchema>
+
+/**
+ * The config as it's written, before schema defaults are applied
+ */
+export type JoltConfigInput = z.input<typeof JoltConfigSchema>
+
+/**
+ * Keys that are defined in JoltConfigSchema
+ */
+export type JoltConfigKey = keyof (typeof JoltConfigSchema)['shape']
+
+/**
+ * Any config key. Known keys are suggested by editors but custom keys are still allowed.
+ */
+export type ConfigKey = JoltConfigKey | (string & {})
+
+/**
+ * The type returned by `Config.get()` for a key. Unknown keys are treated as custom string values.
+ */
+export type ConfigValue<K extends string> = K extends JoltConfigKey ? JoltConfig[K] : string | undefined
+
+/**
+ * Map of config key paths (dot notation for nested keys) to the absolute path of the file that set them
+ */
+export type ConfigProvenance = Record<string, string>
+
+/**
+ * A place that a config value can be set, in the order that Config.get() checks them
+ */
+export type ConfigCandidate = {
+  // The key path in the merged config, e.g. `sites.staging.ecsCluster`, which is also its key in ConfigProvenance, or
+  // the name of the environment variable that overrides it
+  path: string
+  label: string
+  value: unknown
+}
+
+/**
+ * How a config value was resolved, as shown by `jolt config explain`
+ */
+export type ConfigExplanation = {
+  key: string
+  site: string | undefined
+  environment: string | undefined
+  candidates: (ConfigCandidate & { source: string | undefined })[]
+  // The candidate that provided the value, or undefined if the schema default (or nothing) was used
+  selected: ConfigCandidate | undefined
+  // Whether the key skips the site and root config because an environment is selected
+  environmentOnly: boolean
+  schemaDefault: unknown
+  rawValue: unknown
+  value: unknown
+  trace: InterpolationTrace[]
+  // The value that a helper such as getDockerImageName() uses, which can fall back to Terraform outputs
+  helper?: { name: string; value: unknown; trace: InterpolationTrace[] }
+}
+
+export type EnvOverride = {
+  varName: string
+  value: unknown
+}
+
 export type CommandOverride = {
   command: string
   source: string
   sourceType: string
 }
 
+export type CommandDefinition = {
+  // Checked with and without a `JOLT_` prefix, and as a camel-cased config key, e.g. `dockerCommand`
+  envVar: string
+  default: string | (() => Promise<string>)
+  aliases?: string[]
+}
+
 export type DBContainerInfo = {
   name: string | undefined
   type: 'mysql' | 'mariadb'
@@ -47,9 +149,23 @@ export type DBContainerInfo = {
   }
 }
 
+/**
+ * Where Terraform/OpenTofu commands run for the current site
+ */
+export type TerraformContext = {
+  dir: string
+  workspace: string | undefined
+  varFile: string | undefined
+}
+
+/**
+ * A Terraform/OpenTofu output value, which can be a list, map or object as well as a scalar
+ */
+export type TerraformValue = string | number | boolean | null | TerraformValue[] | { [key: string]: TerraformValue }
+
 export type TerraformOutputJson = {
   sensitive: boolean
-  type: string
-  // TODO: Not necessarily a string - could be an object
-  value: string
+  // The Terraform type expression, e.g. "string" or ["list", "string"]
+  type: unknown
+  value: TerraformValue
 }
@@ -1,3 +1,5 @@
+export type { CommandResult } from './command.js'
+
 export type {
   ComposeConfig,
   ComposeNetwork,
@@ -8,14 +10,31 @@ export type {
 } from './compose.js'
 
 export type {
+  CommandDefinition,
   CommandOverride,
+  ConfigCandidate,
   ConfigEntry,
+  ConfigExplanation,
+  ConfigKey,
+  ConfigProvenance,
+  ConfigValue,
   DBContainerInfo,
+  EnvironmentConfig,
+  EnvOverride,
+  HookConfig,
+  HookTiming,
   InternalConfig,
+  JoltConfig,
+  JoltConfigInput,
+  JoltConfigKey,
   PrepareCommandConfig,
   PrepareTimingOption,
   SiteConfig,
+  TaskConfig,
+  TaskStep,
+  TerraformContext,
   TerraformOutputJson,
+  TerraformValue,
   WordPressConfig,
   WordPressUpdatesConfig,
 } from './config.js'
@@ -1,17 +1,99 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
 import type { PathLike } from 'node:fs'
 import { readFile, stat } from 'node:fs/promises'
+import { Writable } from 'node:stream'
 import ansis from 'ansis'
 import { camelCase, constantCase } from 'change-case'
 import type { BaseContext } from 'clipanion'
-import type { Options } from 'execa'
+import type { Options, Result } from 'execa'
 import { execa } from 'execa'
 import realWhich from 'which'
 import { ContainerRuntimeError } from './errors.js'
+import { redactSecrets } from './secrets.js'
 import type { PackageJson } from './types/index.js'
 
-type ExecCOptions = Options & {
+export type ExecCOptions = Options & {
   context?: BaseContext
   cleanArgs?: boolean
+  // Commands that only read information, such as `git rev-parse`, still run in dry-run mode
+  readOnly?: boolean
+}
+
+// Set while a command runs with `--dry-run`, including any commands that it runs through `cli.run()`
+const dryRunStorage = new AsyncLocalStorage<boolean>()
+
+/**
+ * Run a function in dry-run mode, where execC() prints commands instead of running them
+ */
+export function runDryRun<T>(fn: () => Promise<T>): Promise<T> {
+  return dryRunStorage.run(true, fn)
+}
+
+export function isDryRun(): boolean {
+  return dryRunStorage.getStore() ?? false
+}
+
+/**
+ * Print a command that would be run in dry-run mode, with its working directory and any environment variables that it
+ * changes. Secrets are masked.
+ */
+export function writeDryRunCommand(commandLine: string, options: ExecCOptions = {}) {
+  const stream = options.context?.stderr ?? process.stderr
+  const changedEnv = Object.entries(options.env ?? {}).filter(([key, value]) => process.env[key] !== value)
+
+  stream.write(`${ansis.yellow('🔍 Dry run:')} ${redactSecrets(commandLine)}\n`)
+
+  if (options.cwd) {
+    stream.write(ansis.dim(`   cwd: ${options.cwd}\n`))
+  }
+
+  if (changedEnv.length > 0) {
+    stream.write(ansis.dim(`   env: ${redactSecrets(changedEnv.map(([key, value]) => `${key}=${value}`).join(' '))}\n`))
+  }
+}
+
+/**
+ * A stream that writes each line to another stream with a prefix, e.g. to label the output of each site when a command
+ * runs for several sites at once
+ */
+export class PrefixedStream extends Writable {
+  private buffer = ''
+
+  constructor(
+    private readonly target: NodeJS.WritableStream,
+    private readonly prefix: string,
+  ) {
+    super()
+  }
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    const lines = (this.buffer + chunk.toString()).split('\n')
+    this.buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      this.target.write(`${this.prefix}${line}\n`)
+    }
+
+    callback()
+  }
+
+  /**
+   * Write out the last line if it didn't end with a newline
+   */
+  flush() {
+    if (this.buffer) {
+      this.target.write(`${this.prefix}${this.buffer}\n`)
+      this.buffer = ''
+    }
+  }
+}
+
+/**
+ * Streams without a file descriptor, such as a PrefixedStream, can't be given to a subprocess directly, so have execa
+ * pipe the output to them instead
+ */
+export function toStdio(stream: Options['stdout']): Options['stdout'] {
+  return stream instanceof Writable && !('fd' in stream) ? ['pipe', stream] : stream
 }
 
 export async function fileExists(path: PathLike): Promise<boolean> {
@@ -132,7 +214,7 @@ export async function execC(
   command: string,
   args: (string | null | undefined | false)[] = [],
   options: ExecCOptions = {},
-) {
+): Promise<Result<ExecCOptions>> {
   const allOptions = {
     shell: true,
     cleanArgs: true,
@@ -145,14 +227,34 @@ export async function execC(
     allOptions.stderr ||= options.context.stderr
   }
 
+  allOptions.stdout = toStdio(allOptions.stdout)
+  allOptions.stderr = toStdio(allOptions.stderr)
+
   let argsToUse = args
 
   if (allOptions.cleanArgs) {
     argsToUse = args.filter((x) => !!x)
   }
 
+  const { readOnly, ...execaOptions } = allOptions
+
+  if (isDryRun() && !readOnly) {
+    const commandLine = [command, ...argsToUse.filter((x) => typeof x === 'string')].join(' ')
+    writeDryRunCommand(commandLine, allOptions)
+
+    return {
+      command: commandLine,
+      escapedCommand: commandLine,
+      cwd: String(allOptions.cwd ?? process.cwd()),
+      exitCode: 0,
+      failed: false,
+      stdout: '',
+      stderr: '',
+    } as unknown as Result<ExecCOptions>
+  }
+
   try {
-    return await execa(command, argsToUse as string[], allOptions)
+    return await execa(command, argsToUse as string[], execaOptions)
   } catch (error: unknown) {
     // Check if this is a container runtime command that failed due to daemon not running
     if (
@@ -181,6 +283,45 @@ export async function execC(
   }
 }
 
+/**
+ * Split a command line into arguments, keeping quoted strings together, e.g. `cmd "echo done"` into `cmd` and
+ * `echo done`
+ */
+export function splitArgs(commandLine: string): string[] {
+  const args: string[] = []
+  let current = ''
+  let quote: string | undefined
+  let inArg = false
+
+  for (const char of commandLine) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined
+      } else {
+        current += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      inArg = true
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        args.push(current)
+        current = ''
+        inArg = false
+      }
+    } else {
+      current += char
+      inArg = true
+    }
+  }
+
+  if (inArg) {
+    args.push(current)
+  }
+
+  return args
+}
+
 export function delay(ms: number): Promise<null> {
   return new Promise((res) => setTimeout(res, ms, null))
 }
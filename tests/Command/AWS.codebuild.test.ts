@@ -52,6 +52,7 @@ describe('CodeBuildStartCommand', () => {
       command: vi.fn().mockResolvedValue('aws'),
       get: vi.fn(),
       tfVar: vi.fn(),
+      environmentTfVar: vi.fn(),
       parseArg: vi.fn((x) => x),
     }
 
@@ -167,7 +168,7 @@ describe('CodeBuildStartCommand', () => {
   describe('error handling', () => {
     it('should return 1 when no project is configured', async () => {
       mockConfig.get.mockResolvedValue(undefined)
-      mockConfig.tfVar.mockResolvedValue(undefined)
+      mockConfig.environmentTfVar.mockResolvedValue(undefined)
 
       const result = await command.command()
 
@@ -191,7 +192,7 @@ describe('CodeBuildStartCommand', () => {
   })
 
   describe('configuration options', () => {
-    it('should use dev project when --dev flag is set', async () => {
+    it('should use the environment project when --dev flag is set', async () => {
       command.dev = true
       mockConfig.get.mockResolvedValueOnce('dev-test-project')
 
@@ -212,7 +213,8 @@ describe('CodeBuildStartCommand', () => {
 
       await command.command()
 
-      expect(mockConfig.get).toHaveBeenCalledWith('devCodebuildProject')
+      // The dev environment is applied by the config, so the command asks for the plain key
+      expect(mockConfig.get).toHaveBeenCalledWith('codebuildProject')
       expect(mockStdout.write).toHaveBeenCalledWith(
         expect.stringContaining('⛅ Starting the dev-test-project CodeBuild project...'),
       )
@@ -312,7 +314,7 @@ describe('waitForBuildCompletion', () => {
     expect(execC).toHaveBeenCalledWith(
       'aws',
       ['--region=us-east-1', 'codebuild', 'batch-get-builds', '--ids=test-build-123'],
-      { env: { AWS_PAGER: '' } },
+      { env: { AWS_PAGER: '' }, readOnly: true },
     )
   })
 
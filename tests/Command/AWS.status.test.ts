@@ -26,6 +26,7 @@ describe('ECSStatusCommand', () => {
       command: vi.fn().mockResolvedValue('aws'),
       get: vi.fn(),
       tfVar: vi.fn(),
+      environmentTfVar: vi.fn(),
       parseArg: vi.fn((x) => x),
     }
 
@@ -42,7 +43,7 @@ describe('ECSStatusCommand', () => {
   describe('when no ECS configuration exists', () => {
     beforeEach(() => {
       mockConfig.get.mockResolvedValue(undefined)
-      mockConfig.tfVar.mockResolvedValue(undefined)
+      mockConfig.environmentTfVar.mockResolvedValue(undefined)
     })
 
     it('should indicate no ECS configuration detected', async () => {
@@ -71,7 +72,7 @@ describe('ECSStatusCommand', () => {
         return Promise.resolve(undefined)
       })
 
-      mockConfig.tfVar.mockResolvedValue(undefined)
+      mockConfig.environmentTfVar.mockResolvedValue(undefined)
 
       vi.mocked(execC).mockImplementation(async (_command, args) => {
         if (args?.includes('describe-clusters')) {
@@ -252,12 +253,13 @@ describe('ECSStatusCommand', () => {
   describe('when in dev mode', () => {
     beforeEach(() => {
       command.dev = true
+      // The config resolves the dev environment's values for the plain keys
       mockConfig.get.mockImplementation((key: string) => {
-        if (key === 'devEcsCluster') {
+        if (key === 'ecsCluster') {
           return Promise.resolve('dev-cluster')
         }
 
-        if (key === 'devEcsService') {
+        if (key === 'ecsService') {
           return Promise.resolve('dev-service')
         }
 
@@ -265,11 +267,13 @@ describe('ECSStatusCommand', () => {
       })
     })
 
-    it('should use dev configuration keys', async () => {
+    it('should use the environment configuration', async () => {
       await command.command()
 
-      expect(mockConfig.get).toHaveBeenCalledWith('devEcsCluster')
-      expect(mockConfig.get).toHaveBeenCalledWith('devEcsService')
+      expect(mockConfig.get).toHaveBeenCalledWith('ecsCluster')
+      expect(mockConfig.get).toHaveBeenCalledWith('ecsService')
+      expect(mockConfig.environmentTfVar).not.toHaveBeenCalled()
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('dev-cluster'))
     })
   })
 
@@ -279,7 +283,7 @@ describe('ECSStatusCommand', () => {
       command.dev = false
 
       mockConfig.get.mockResolvedValue(undefined)
-      mockConfig.tfVar.mockImplementation((key: string) => {
+      mockConfig.environmentTfVar.mockImplementation((key: string) => {
         if (key === 'ecs_cluster') {
           return Promise.resolve('tf-cluster')
         }
@@ -295,8 +299,8 @@ describe('ECSStatusCommand', () => {
     it('should fallback to terraform variables', async () => {
       await command.command()
 
-      expect(mockConfig.tfVar).toHaveBeenCalledWith('ecs_cluster')
-      expect(mockConfig.tfVar).toHaveBeenCalledWith('ecs_service')
+      expect(mockConfig.environmentTfVar).toHaveBeenCalledWith('ecs_cluster')
+      expect(mockConfig.environmentTfVar).toHaveBeenCalledWith('ecs_service')
     })
   })
 
@@ -313,7 +317,7 @@ describe('ECSStatusCommand', () => {
         return Promise.resolve(undefined)
       })
 
-      mockConfig.tfVar.mockResolvedValue(undefined)
+      mockConfig.environmentTfVar.mockResolvedValue(undefined)
 
       vi.mocked(execC).mockImplementation(async () => {
         throw new Error('AWS CLI error')
@@ -342,7 +346,7 @@ describe('ECSStatusCommand', () => {
 
         return Promise.resolve(undefined)
       })
-      mockConfig.tfVar.mockResolvedValue(undefined)
+      mockConfig.environmentTfVar.mockResolvedValue(undefined)
     })
 
     it('should show service but indicate missing cluster', async () => {
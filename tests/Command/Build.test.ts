@@ -39,6 +39,7 @@ describe('BuildCommand', () => {
     command.context = mockContext as any
     command.cli = mockCli as any
     command.dev = false
+    command.env = undefined
   })
 
   describe('with configured image name', () => {
@@ -56,7 +57,7 @@ describe('BuildCommand', () => {
       expect(mockContext.stdout.write).toHaveBeenCalledWith(
         expect.stringContaining('Found a configured image name (test-image) - assuming you wanted to build Docker.'),
       )
-      expect(mockCli.run).toHaveBeenCalledWith(['build', 'docker', ''], mockContext)
+      expect(mockCli.run).toHaveBeenCalledWith(['build', 'docker'], mockContext)
       expect(result).toBe(0)
     })
 
@@ -68,7 +69,7 @@ describe('BuildCommand', () => {
       expect(mockContext.stdout.write).toHaveBeenCalledWith(
         expect.stringContaining('Found a configured image name (test-image) - assuming you wanted to build Docker.'),
       )
-      expect(mockCli.run).toHaveBeenCalledWith(['build', 'docker', '--dev'], mockContext)
+      expect(mockCli.run).toHaveBeenCalledWith(['build', 'docker', '--env=dev'], mockContext)
       expect(result).toBe(0)
     })
 
@@ -1,18 +1,48 @@
 import type { PathLike } from 'node:fs'
-import { access, readFile, writeFile } from 'node:fs/promises'
+import { access, copyFile, readFile, rename, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
-import { ConfigCommand, ConfigInitCommand } from '../../src/Command/Config.js'
+import {
+  ConfigCommand,
+  ConfigExplainCommand,
+  ConfigGetCommand,
+  ConfigInitCommand,
+  ConfigMigrateCommand,
+  ConfigSetCommand,
+  ConfigUnsetCommand,
+  ConfigValidateCommand,
+} from '../../src/Command/Config.js'
 import type { Config } from '../../src/Config.js'
-import { execC, which } from '../../src/utils.js'
+import { migrateConfig } from '../../src/ConfigMigrator.js'
+import { InterpolationError } from '../../src/errors.js'
+import { getLoadedPlugins } from '../../src/PluginLoader.js'
+import { clearSecrets, registerSecret } from '../../src/secrets.js'
+import { execC, fileExists, which } from '../../src/utils.js'
 
 vi.mock('../../src/utils.js', () => ({
   which: vi.fn(),
   execC: vi.fn(),
+  fileExists: vi.fn(),
+}))
+
+vi.mock('../../src/ConfigMigrator.js', () => ({
+  migrateConfig: vi.fn(),
+}))
+
+vi.mock('../../src/PluginLoader.js', () => ({
+  getLoadedPlugins: vi.fn().mockReturnValue([]),
+  getPluginCommandPaths: vi.fn((plugin) =>
+    plugin.commands.flatMap((x: any) => x.paths.map((p: string[]) => p.join(' '))),
+  ),
 }))
 
 vi.mock('node:fs/promises', () => ({
   access: vi.fn(),
+  copyFile: vi.fn(),
+  mkdir: vi.fn(),
   readFile: vi.fn(),
+  rename: vi.fn(),
   writeFile: vi.fn(),
 }))
 
@@ -21,9 +51,13 @@ describe('ConfigCommand', () => {
   let mockConfig: {
     asJson: ReturnType<typeof vi.fn>
     asEnvVars: ReturnType<typeof vi.fn>
+    getCommandNames: ReturnType<typeof vi.fn>
     getCommandOverride: ReturnType<typeof vi.fn>
+    getEnvOverrides: ReturnType<typeof vi.fn>
     parseArg: ReturnType<typeof vi.fn>
     configPath: string | undefined
+    configFiles: string[]
+    provenance: Record<string, string>
     [Symbol.iterator]: ReturnType<typeof vi.fn>
   }
   let mockStdout: { write: Mock }
@@ -50,9 +84,13 @@ describe('ConfigCommand', () => {
     mockConfig = {
       asJson: vi.fn(),
       asEnvVars: vi.fn(),
+      getCommandNames: vi.fn().mockReturnValue(['aws', 'compose', 'docker', 'git', 'helm']),
       getCommandOverride: vi.fn(),
+      getEnvOverrides: vi.fn().mockReturnValue({}),
       parseArg: vi.fn(),
       configPath: undefined,
+      configFiles: [],
+      provenance: {},
       [Symbol.iterator]: vi.fn(),
     }
 
@@ -62,6 +100,9 @@ describe('ConfigCommand', () => {
     command.context = mockContext as any
     command.cli = { binaryLabel: 'jolt' } as any
     command.format = undefined
+    command.reveal = false
+    command.json = false
+    command.output = undefined
 
     // Mock which function to return path by default
     vi.mocked(which).mockResolvedValue('/usr/bin/command')
@@ -74,19 +115,45 @@ describe('ConfigCommand', () => {
   })
 
   describe('commands list', () => {
-    it('should define the correct commands to check', () => {
-      expect(command.commands).toEqual([
-        'aws',
-        'compose',
-        'docker',
-        'git',
-        'gzip',
-        'node',
-        'rsync',
-        'ssh',
-        'tofu',
-        'yarn',
+    it('should check every command registered in the config, including custom ones', async () => {
+      mockConfig.getCommandOverride.mockImplementation((cmd: string) =>
+        Promise.resolve({ command: cmd, source: 'Default', sourceType: 'default' }),
+      )
+
+      await command.listCommands()
+
+      expect(mockConfig.getCommandOverride).toHaveBeenCalledTimes(5)
+      expect(mockConfig.getCommandOverride).toHaveBeenCalledWith('helm')
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('helm: '))
+    })
+  })
+
+  describe('plugins list', () => {
+    it('should list the loaded plugins and their commands', () => {
+      vi.mocked(getLoadedPlugins).mockReturnValueOnce([
+        {
+          name: 'jolt-commands/client.ts',
+          source: 'directory',
+          path: '/project/jolt-commands/client.ts',
+          commands: [{ paths: [['client', 'deploy']] }, { paths: [['client', 'sync']] }] as any,
+        },
+        { name: '@acme/jolt-notify', source: 'package', path: '/project/node_modules/x.js', commands: [] },
       ])
+
+      command.listPlugins()
+
+      const output = mockStdout.write.mock.calls.map((call) => call[0]).join('')
+      expect(output).toContain('Plugins:')
+      expect(output).toContain('jolt-commands/client.ts: ')
+      expect(output).toContain('client deploy, client sync')
+      expect(output).toContain('[Project]')
+      expect(output).toContain('[Package]')
+    })
+
+    it('should not list anything without plugins', () => {
+      command.listPlugins()
+
+      expect(mockStdout.write).not.toHaveBeenCalled()
     })
   })
 
@@ -360,6 +427,24 @@ describe('ConfigCommand', () => {
       expect(mockStdout.write).not.toHaveBeenCalledWith(expect.stringContaining('Commands:'))
       expect(mockStdout.write).not.toHaveBeenCalledWith(expect.stringContaining('Config:'))
     })
+
+    it('should mask secrets unless --reveal is given', async () => {
+      mockConfig.asJson.mockReturnValue(JSON.stringify({ dbPass: 's3cr3t-value' }))
+      registerSecret('s3cr3t-value')
+
+      try {
+        expect(await command.command()).toBe(0)
+        expect(mockStdout.write).toHaveBeenCalledWith('{"dbPass":"********"}\n')
+        expect(command.redactResult).toBe(true)
+
+        command.reveal = true
+        expect(await command.command()).toBe(0)
+        expect(mockStdout.write).toHaveBeenLastCalledWith('{"dbPass":"s3cr3t-value"}\n')
+        expect(command.redactResult).toBe(false)
+      } finally {
+        clearSecrets()
+      }
+    })
   })
 
   describe('env format', () => {
@@ -384,6 +469,18 @@ describe('ConfigCommand', () => {
       expect(mockStdout.write).not.toHaveBeenCalledWith(expect.stringContaining('Config:'))
     })
 
+    it('should mask secrets', async () => {
+      mockConfig.asEnvVars.mockReturnValue({ JOLT_DB_PASS: '"s3cr3t-value"' })
+      registerSecret('s3cr3t-value')
+
+      try {
+        expect(await command.command()).toBe(0)
+        expect(mockStdout.write).toHaveBeenCalledWith('JOLT_DB_PASS="********"\n')
+      } finally {
+        clearSecrets()
+      }
+    })
+
     it('should handle empty env vars', async () => {
       mockConfig.asEnvVars.mockReturnValue({})
 
@@ -453,7 +550,7 @@ describe('ConfigCommand', () => {
       expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('Commands:'))
 
       // Verify each command was processed
-      for (const cmdName of command.commands) {
+      for (const cmdName of mockConfig.getCommandNames()) {
         expect(mockConfig.getCommandOverride).toHaveBeenCalledWith(cmdName)
         expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining(`${cmdName}:`))
       }
@@ -505,6 +602,87 @@ describe('ConfigCommand', () => {
       expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('[]'))
     })
 
+    it('should show why a value cannot be interpolated and carry on', async () => {
+      mockConfig[Symbol.iterator] = vi.fn().mockReturnValue(
+        [
+          ['subnets', '{tf:subnet_ids}'],
+          ['imageName', 'my-app'],
+        ][Symbol.iterator](),
+      )
+      mockConfig.parseArg.mockImplementation((value: string) =>
+        value === '{tf:subnet_ids}'
+          ? Promise.reject(new InterpolationError('{tf:subnet_ids} is a list or map - use |json or |join'))
+          : Promise.resolve(value),
+      )
+
+      await command.listConfig()
+
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('{tf:subnet_ids} is a list or map'))
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('[Parsed from: {tf:subnet_ids}]'))
+      expect(mockStdout.write).toHaveBeenCalledWith('my-app')
+    })
+
+    it('should show which file each value came from when several files are merged', async () => {
+      mockConfig.configFiles = ['/test/.jolt.json', '/test/.env']
+      mockConfig.provenance = { imageName: '/test/.jolt.json', dbPass: '/test/.env' }
+      mockConfig[Symbol.iterator] = vi.fn().mockReturnValue(
+        [
+          ['imageName', 'my-app'],
+          ['dbPass', 'secret'],
+        ][Symbol.iterator](),
+      )
+      mockConfig.parseArg.mockImplementation((value: string) => Promise.resolve(value))
+
+      await command.listConfig()
+
+      expect(mockStdout.write).toHaveBeenCalledWith(
+        expect.stringContaining('[Source files: /test/.jolt.json, /test/.env]'),
+      )
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringMatching(/\[From: .*\.jolt\.json\]/))
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringMatching(/\[From: .*\.env\]/))
+    })
+
+    it('should show values from the user config relative to the home directory', async () => {
+      const userConfig = path.join(homedir(), '.config', 'jolt', 'config.json')
+      mockConfig.configFiles = [userConfig, '/test/.jolt.json']
+      mockConfig.provenance = { composeCommand: userConfig }
+      mockConfig[Symbol.iterator] = vi.fn().mockReturnValue([['composeCommand', 'podman compose']][Symbol.iterator]())
+      mockConfig.parseArg.mockImplementation((value: string) => Promise.resolve(value))
+
+      await command.listConfig()
+
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('[From: ~/.config/jolt/config.json]'))
+    })
+
+    it('should show values that are overridden by environment variables', async () => {
+      mockConfig.getEnvOverrides.mockImplementation((site?: string) =>
+        site === 'staging'
+          ? { sshAccount: { varName: 'JOLT_SITE_STAGING__SSH_ACCOUNT', value: 'deploy@ci' } }
+          : {
+              imageName: { varName: 'JOLT_IMAGE_NAME', value: 'ci-app' },
+              ecsService: { varName: 'JOLT_ECS_SERVICE', value: 'ci-service' },
+            },
+      )
+      mockConfig[Symbol.iterator] = vi.fn().mockReturnValue(
+        [
+          ['imageName', 'my-app'],
+          ['sites', JSON.stringify({ staging: { sshAccount: 'deploy@staging' } })],
+        ][Symbol.iterator](),
+      )
+      mockConfig.parseArg.mockImplementation((value: string) => Promise.resolve(value))
+
+      await command.listConfig()
+
+      const output = mockStdout.write.mock.calls.map((x) => x[0]).join('')
+      expect(output).toContain('ci-app')
+      expect(output).not.toContain('my-app')
+      expect(output).toContain('[Env var: JOLT_IMAGE_NAME]')
+      expect(output).toContain('ecsService: ci-service')
+      expect(output).toContain('[Env var: JOLT_ECS_SERVICE]')
+      expect(output).toContain('sshAccount: deploy@ci')
+      expect(output).toContain('[Env var: JOLT_SITE_STAGING__SSH_ACCOUNT]')
+    })
+
     it('should handle config without source file', async () => {
       mockConfig.configPath = undefined
       mockConfig[Symbol.iterator] = vi.fn().mockReturnValue([][Symbol.iterator]())
@@ -555,6 +733,7 @@ describe('ConfigInitCommand', () => {
     command = new ConfigInitCommand()
     command.config = mockConfig as unknown as Config
     command.context = mockContext as any
+    command.format = 'json'
 
     // Mock file system operations by default
     vi.mocked(access).mockRejectedValue(new Error('File not found'))
@@ -615,6 +794,29 @@ describe('ConfigInitCommand', () => {
       expect(vi.mocked(writeFile)).toHaveBeenCalledWith('.jolt.json', expect.stringContaining('"branch": "main"'))
     })
 
+    it('should create a YAML config file with --format yaml', async () => {
+      command.format = 'yaml'
+
+      const result = await command.command()
+
+      expect(result).toBe(0)
+      expect(vi.mocked(writeFile)).toHaveBeenCalledWith(
+        '.jolt.yaml',
+        expect.stringMatching(/^# yaml-language-server: \$schema=https:\/\/.*jolt-config\.schema\.json\n/),
+      )
+    })
+
+    it('should leave an existing TypeScript config untouched', async () => {
+      command.format = 'ts'
+      vi.mocked(readFile).mockResolvedValue('export default {}\n' as any)
+
+      const result = await command.command()
+
+      expect(result).toBe(0)
+      expect(writeFile).not.toHaveBeenCalled()
+      expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining("jolt.config.ts already exists and hasn't"))
+    })
+
     it('should convert HTTPS repo URLs to SSH format', async () => {
       mockConfig.command.mockResolvedValue('git')
 
@@ -855,3 +1057,531 @@ describe('ConfigInitCommand', () => {
     })
   })
 })
+
+describe('ConfigValidateCommand', () => {
+  let command: ConfigValidateCommand
+  let mockConfig: {
+    internalConfig: Record<string, unknown>
+    tfVar: ReturnType<typeof vi.fn>
+  }
+  let mockStdout: { write: Mock }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockStdout = { write: vi.fn() }
+    mockConfig = {
+      internalConfig: {},
+      tfVar: vi.fn(),
+    }
+
+    command = new ConfigValidateCommand()
+    command.cli = { binaryLabel: 'jolt' } as any
+    command.config = mockConfig as unknown as Config
+    command.context = { stdin: process.stdin, stdout: mockStdout, stderr: { write: vi.fn() } } as any
+    command.strict = false
+  })
+
+  const output = () => mockStdout.write.mock.calls.map((call) => call[0]).join('')
+
+  it('should register correct command path', () => {
+    expect(ConfigValidateCommand.paths).toEqual([['config', 'validate']])
+  })
+
+  it('should report a valid config', async () => {
+    mockConfig.internalConfig = { imageName: 'app' }
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(output()).toContain('Config is valid')
+  })
+
+  it('should fail on schema errors', async () => {
+    mockConfig.internalConfig = { sites: 'staging' }
+
+    const result = await command.command()
+
+    expect(result).toBe(1)
+    expect(output()).toContain('sites:')
+  })
+
+  it('should only fail on warnings in strict mode', async () => {
+    mockConfig.internalConfig = { ecsClustr: 'cluster' }
+
+    expect(await command.command()).toBe(0)
+    expect(output()).toContain('Did you mean "ecsCluster"?')
+
+    command.strict = true
+    expect(await command.command()).toBe(1)
+  })
+
+  it('should warn about Terraform placeholders that cannot be resolved', async () => {
+    mockConfig.internalConfig = { imageName: '{tf:image_name}', ecsCluster: '{tf:cluster}' }
+    mockConfig.tfVar.mockImplementation(async (name: string) => (name === 'cluster' ? 'my-cluster' : undefined))
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(mockConfig.tfVar).toHaveBeenCalledWith('image_name')
+    expect(output()).toContain('imageName: Placeholder {tf:image_name}')
+    expect(output()).not.toContain('{tf:cluster}')
+  })
+})
+
+describe('ConfigGetCommand', () => {
+  let command: ConfigGetCommand
+  let mockConfig: { get: Mock; getRawValue: Mock }
+  let mockStdout: { write: Mock }
+  let mockStderr: { write: Mock }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockStdout = { write: vi.fn() }
+    mockStderr = { write: vi.fn() }
+    mockConfig = {
+      get: vi.fn(async (key: string) => ({ imageName: 'app-main', dockerBuildArgs: { NPM_TOKEN: 'abc' } })[key]),
+      getRawValue: vi.fn((key: string) => ({ imageName: 'app-{git:branch}' })[key]),
+    }
+
+    command = new ConfigGetCommand()
+    command.config = mockConfig as unknown as Config
+    command.context = { stdin: process.stdin, stdout: mockStdout, stderr: mockStderr } as any
+    command.raw = false
+    command.reveal = false
+  })
+
+  it('should print the resolved value', async () => {
+    command.key = 'imageName'
+
+    expect(await command.command()).toBe(0)
+    expect(mockStdout.write).toHaveBeenCalledWith('app-main\n')
+  })
+
+  it('should mask secrets unless --reveal is given', async () => {
+    mockConfig.get.mockResolvedValue('s3cr3t-value')
+    registerSecret('s3cr3t-value')
+    command.key = 'dbPass'
+
+    try {
+      expect(await command.command()).toBe(0)
+      expect(mockStdout.write).toHaveBeenCalledWith('********\n')
+
+      command.reveal = true
+      expect(await command.command()).toBe(0)
+      expect(mockStdout.write).toHaveBeenLastCalledWith('s3cr3t-value\n')
+    } finally {
+      clearSecrets()
+    }
+  })
+
+  it('should only mask secrets in the JSON result without --reveal', () => {
+    expect(command.redactResult).toBe(true)
+
+    command.reveal = true
+    expect(command.redactResult).toBe(false)
+  })
+
+  it('should report values that cannot be interpolated', async () => {
+    mockConfig.get.mockRejectedValue(new InterpolationError('Circular config reference: loop -> loop'))
+    command.key = 'loop'
+
+    expect(await command.command()).toBe(1)
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('Circular config reference'))
+    expect(mockStdout.write).not.toHaveBeenCalled()
+  })
+
+  it('should print the raw value with --raw', async () => {
+    command.key = 'imageName'
+    command.raw = true
+
+    expect(await command.command()).toBe(0)
+    expect(mockStdout.write).toHaveBeenCalledWith('app-{git:branch}\n')
+  })
+
+  it('should support dotted keys', async () => {
+    command.key = 'dockerBuildArgs.NPM_TOKEN'
+
+    expect(await command.command()).toBe(0)
+    expect(mockStdout.write).toHaveBeenCalledWith('abc\n')
+  })
+
+  it('should fail when the key is not set', async () => {
+    command.key = 'ecsCluster'
+
+    expect(await command.command()).toBe(1)
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('"ecsCluster" isn\'t set'))
+  })
+})
+
+describe('ConfigSetCommand and ConfigUnsetCommand', () => {
+  let mockStdout: { write: Mock }
+  let mockStderr: { write: Mock }
+
+  let configPath: string | undefined
+
+  const createCommand = <T extends ConfigSetCommand | ConfigUnsetCommand>(command: T): T => {
+    command.context = { stdin: process.stdin, stdout: mockStdout, stderr: mockStderr } as any
+    command.config = { configPath } as Config
+    command.site = undefined
+    command.global = false
+    return command
+  }
+
+  const createSetCommand = (key: string, value: string) => {
+    const command = createCommand(new ConfigSetCommand())
+    command.key = key
+    command.value = value
+    command.parseJson = false
+    command.json = false
+    command.append = false
+    return command
+  }
+
+  const writtenConfig = () => JSON.parse(vi.mocked(writeFile).mock.calls[0][1] as string)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    configPath = undefined
+    mockStdout = { write: vi.fn() }
+    mockStderr = { write: vi.fn() }
+
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify({ imageName: 'app', prepareCommands: ['yarn install'] }, null, 4) as any,
+    )
+    vi.mocked(writeFile).mockResolvedValue(undefined)
+  })
+
+  it('should set a root key and keep the indentation', async () => {
+    const command = createSetCommand('imageName', 'new-app')
+
+    expect(await command.command()).toBe(0)
+    expect(writeFile).toHaveBeenCalledWith(
+      '.jolt.json',
+      '{\n    "imageName": "new-app",\n    "prepareCommands": [\n        "yarn install"\n    ]\n}\n',
+    )
+  })
+
+  it('should set a key for a site', async () => {
+    const command = createSetCommand('ecsCluster', 'staging-cluster')
+    command.site = 'staging'
+
+    expect(await command.command()).toBe(0)
+    expect(writtenConfig().sites).toEqual({ staging: { ecsCluster: 'staging-cluster' } })
+  })
+
+  it('should append to prepareCommands', async () => {
+    const command = createSetCommand('prepareCommands', '{"cmd":"yarn build","fail":true}')
+    command.append = true
+    command.parseJson = true
+
+    expect(await command.command()).toBe(0)
+    expect(writtenConfig().prepareCommands).toEqual(['yarn install', { cmd: 'yarn build', fail: true }])
+  })
+
+  it('should not save values that fail validation', async () => {
+    const command = createSetCommand('prepareCommands', 'yarn build')
+
+    expect(await command.command()).toBe(1)
+    expect(writeFile).not.toHaveBeenCalled()
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('Not saving .jolt.json'))
+  })
+
+  it('should reject invalid JSON values', async () => {
+    const command = createSetCommand('wpUpdates', '{nope')
+    command.parseJson = true
+
+    expect(await command.command()).toBe(1)
+    expect(writeFile).not.toHaveBeenCalled()
+  })
+
+  it('should write the result as JSON with --json, as the value is parsed with --parse-json', () => {
+    const command = createSetCommand('wpUpdates', '{}')
+    command.parseJson = true
+    command.output = undefined
+
+    expect(command.jsonOutput).toBe(false)
+
+    command.json = true
+    expect(command.jsonOutput).toBe(true)
+  })
+
+  it('should edit the user config with --global', async () => {
+    process.env.XDG_CONFIG_HOME = '/home/test/.config'
+    const command = createSetCommand('composeCommand', 'podman compose')
+    command.global = true
+
+    try {
+      expect(await command.command()).toBe(0)
+    } finally {
+      delete process.env.XDG_CONFIG_HOME
+    }
+
+    expect(readFile).toHaveBeenCalledWith('/home/test/.config/jolt/config.json', 'utf-8')
+    expect(writeFile).toHaveBeenCalledWith('/home/test/.config/jolt/config.json', expect.any(String))
+    expect(writtenConfig().composeCommand).toBe('podman compose')
+  })
+
+  it('should edit the config file that was loaded, such as one given with --config', async () => {
+    configPath = '/project/ci.jolt.json'
+    const command = createSetCommand('imageName', 'ci-app')
+
+    expect(await command.command()).toBe(0)
+    expect(readFile).toHaveBeenCalledWith('/project/ci.jolt.json', 'utf-8')
+    expect(writeFile).toHaveBeenCalledWith('/project/ci.jolt.json', expect.any(String))
+    expect(writtenConfig().imageName).toBe('ci-app')
+  })
+
+  it('should edit YAML configs as YAML, keeping their comments', async () => {
+    configPath = '/project/.jolt.yaml'
+    vi.mocked(readFile).mockResolvedValue(
+      '# Shared config\nimageName: app # The app\nwpUpdates:\n  doNotUpdate:\n    - akismet # Pinned\n' as any,
+    )
+    const command = createSetCommand('ecsCluster', 'staging-cluster')
+    command.site = 'staging'
+
+    expect(await command.command()).toBe(0)
+    expect(writeFile).toHaveBeenCalledWith(
+      '/project/.jolt.yaml',
+      [
+        '# Shared config',
+        'imageName: app # The app',
+        'wpUpdates:',
+        '  doNotUpdate:',
+        '    - akismet # Pinned',
+        'sites:',
+        '  staging:',
+        '    ecsCluster: staging-cluster',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should refuse to edit TypeScript and JavaScript configs', async () => {
+    configPath = '/project/jolt.config.ts'
+
+    expect(await createSetCommand('imageName', 'app').command()).toBe(1)
+    const unsetCommand = createCommand(new ConfigUnsetCommand())
+    unsetCommand.key = 'imageName'
+
+    expect(await unsetCommand.command()).toBe(1)
+    expect(writeFile).not.toHaveBeenCalled()
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining("can't be edited automatically"))
+  })
+
+  it('should unset a key', async () => {
+    const command = createCommand(new ConfigUnsetCommand())
+    command.key = 'imageName'
+
+    expect(await command.command()).toBe(0)
+    expect(writtenConfig()).toEqual({ prepareCommands: ['yarn install'] })
+  })
+
+  it('should fail to unset a key that is not set', async () => {
+    const command = createCommand(new ConfigUnsetCommand())
+    command.key = 'ecsCluster'
+
+    expect(await command.command()).toBe(1)
+    expect(writeFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('ConfigMigrateCommand', () => {
+  let command: ConfigMigrateCommand
+  let mockStdout: { write: Mock }
+  let mockStderr: { write: Mock }
+
+  const output = () => mockStdout.write.mock.calls.map((x) => x[0]).join('')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockStdout = { write: vi.fn() }
+    mockStderr = { write: vi.fn() }
+
+    command = new ConfigMigrateCommand()
+    command.context = { stdin: process.stdin, stdout: mockStdout, stderr: mockStderr } as any
+    command.config = { configPath: undefined } as Config
+    command.dryRun = false
+
+    vi.mocked(readFile).mockImplementation(async (file) =>
+      file === '.jolt.json' ? ('{\n  "imageName": "app"\n}\n' as any) : ('{}' as any),
+    )
+    vi.mocked(fileExists).mockImplementation(async (file) => file === '.jolt.json')
+    vi.mocked(migrateConfig).mockResolvedValue({
+      data: { imageName: 'app', ecsCluster: 'cluster' },
+      localData: {},
+      files: ['./bin/.env'],
+      completedFiles: ['./bin/.env'],
+      warnings: [],
+    })
+  })
+
+  it('should show the changes without writing anything in a dry run', async () => {
+    command.dryRun = true
+
+    expect(await command.command()).toBe(0)
+    expect(output()).toContain('+  "ecsCluster": "cluster"')
+    expect(output()).toContain('./bin/.env would be migrated')
+    expect(writeFile).not.toHaveBeenCalled()
+    expect(copyFile).not.toHaveBeenCalled()
+    expect(rename).not.toHaveBeenCalled()
+  })
+
+  it('should write the config and back up the original files', async () => {
+    expect(await command.command()).toBe(0)
+    expect(copyFile).toHaveBeenCalledWith('.jolt.json', '.jolt.json.bak')
+    expect(writeFile).toHaveBeenCalledTimes(1)
+    expect(writeFile).toHaveBeenCalledWith('.jolt.json', '{\n  "imageName": "app",\n  "ecsCluster": "cluster"\n}\n')
+    expect(rename).toHaveBeenCalledWith('./bin/.env', './bin/.env.bak')
+  })
+
+  it('should migrate into the loaded YAML config, keeping its comments', async () => {
+    command.config = { configPath: '/project/.jolt.yaml' } as Config
+    vi.mocked(readFile).mockImplementation(async (file) =>
+      file === '/project/.jolt.yaml' ? ('# Shared config\nimageName: app # The app\n' as any) : ('{}' as any),
+    )
+    vi.mocked(fileExists).mockImplementation(async (file) => file === '/project/.jolt.yaml')
+
+    expect(await command.command()).toBe(0)
+    expect(output()).toContain('+ecsCluster: cluster')
+    expect(copyFile).toHaveBeenCalledWith('/project/.jolt.yaml', '/project/.jolt.yaml.bak')
+    expect(writeFile).toHaveBeenCalledTimes(1)
+    expect(writeFile).toHaveBeenCalledWith(
+      '/project/.jolt.yaml',
+      '# Shared config\nimageName: app # The app\necsCluster: cluster\n',
+    )
+  })
+
+  it('should refuse to migrate into a TypeScript config', async () => {
+    command.config = { configPath: '/project/jolt.config.ts' } as Config
+
+    expect(await command.command()).toBe(1)
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining("can't be edited automatically"))
+    expect(migrateConfig).not.toHaveBeenCalled()
+    expect(writeFile).not.toHaveBeenCalled()
+  })
+
+  it('should write local values to .jolt.local.json and keep env files that still have other values', async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      data: { imageName: 'app' },
+      localData: { dbPass: 'hunter22' },
+      files: ['.env'],
+      completedFiles: [],
+      warnings: ["Keeping .env, as it has values that aren't Jolt config: COMPOSE_PROJECT_NAME"],
+    })
+
+    expect(await command.command()).toBe(0)
+    expect(writeFile).toHaveBeenCalledTimes(1)
+    expect(writeFile).toHaveBeenCalledWith('.jolt.local.json', '{\n  "dbPass": "hunter22"\n}\n')
+    expect(copyFile).not.toHaveBeenCalled()
+    expect(rename).not.toHaveBeenCalled()
+    expect(output()).toContain('.env kept')
+  })
+
+  it('should keep the legacy files if the migrated config is invalid', async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      data: { imageName: 'app', prepareCommands: 'yarn build' },
+      localData: {},
+      files: ['.env'],
+      completedFiles: ['.env'],
+      warnings: [],
+    })
+
+    expect(await command.command()).toBe(1)
+    expect(writeFile).not.toHaveBeenCalled()
+    expect(rename).not.toHaveBeenCalled()
+  })
+
+  it('should report when there is nothing to migrate', async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      data: {},
+      localData: {},
+      files: [],
+      completedFiles: [],
+      warnings: ['Something was skipped'],
+    })
+
+    expect(await command.command()).toBe(0)
+    expect(output()).toContain('Nothing to migrate')
+    expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('Something was skipped'))
+    expect(writeFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('ConfigExplainCommand', () => {
+  let command: ConfigExplainCommand
+  let mockConfig: { explain: Mock }
+  let mockStdout: { write: Mock }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockStdout = { write: vi.fn() }
+    mockConfig = { explain: vi.fn() }
+
+    command = new ConfigExplainCommand()
+    command.cli = { binaryLabel: 'jolt' } as any
+    command.config = mockConfig as unknown as Config
+    command.context = { stdin: process.stdin, stdout: mockStdout, stderr: { write: vi.fn() } } as any
+    command.key = 'ecsCluster'
+  })
+
+  const output = () => mockStdout.write.mock.calls.map((call) => call[0]).join('')
+
+  it('should show each candidate, the value and the placeholder tree', async () => {
+    const selected = { path: 'sites.staging.ecsCluster', label: 'Site "staging"', value: '{tf:cluster}' }
+    mockConfig.explain.mockResolvedValue({
+      key: 'ecsCluster',
+      site: 'staging',
+      environment: undefined,
+      candidates: [
+        { ...selected, source: '/project/.jolt.json' },
+        { path: 'ecsCluster', label: 'Root config', value: 'production', source: '/project/.jolt.json' },
+      ],
+      selected,
+      environmentOnly: false,
+      schemaDefault: undefined,
+      rawValue: '{tf:cluster}',
+      value: 'staging-cluster',
+      trace: [
+        {
+          lookup: '{tf:cluster}',
+          value: 'staging-cluster',
+          children: [{ lookup: 'tf:cluster', value: 'staging-cluster', children: [] }],
+        },
+      ],
+    })
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(mockConfig.explain).toHaveBeenCalledWith('ecsCluster')
+    expect(output()).toContain('Config: ecsCluster (site: staging)')
+    expect(output()).toMatch(/✔.*sites\.staging\.ecsCluster.*\{tf:cluster\}/)
+    expect(output()).toContain('production')
+    expect(output()).toContain('staging-cluster')
+    expect(output()).toContain('    tf:cluster')
+  })
+
+  it('should warn when a key only uses the environment config', async () => {
+    mockConfig.explain.mockResolvedValue({
+      key: 'ecsCluster',
+      site: undefined,
+      environment: 'uat',
+      candidates: [],
+      selected: undefined,
+      environmentOnly: true,
+      schemaDefault: undefined,
+      rawValue: undefined,
+      value: undefined,
+      trace: [],
+    })
+
+    await command.command()
+
+    expect(output()).toContain("ecsCluster doesn't fall back to the site or root config in the uat environment")
+  })
+})
@@ -1,23 +1,20 @@
 import { createReadStream, createWriteStream, statSync } from 'node:fs'
 import { unlink } from 'node:fs/promises'
+import path from 'node:path'
 import { pipeline } from 'node:stream/promises'
 import { createGzip } from 'node:zlib'
-import { execa } from 'execa'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { DBDumpCommand } from '../../src/Command/DB.js'
 import type { Config } from '../../src/Config.js'
-import { execC, which } from '../../src/utils.js'
+import { execC, isDryRun, which } from '../../src/utils.js'
 
 vi.mock('../../src/utils.js', () => ({
   execC: vi.fn(),
+  isDryRun: vi.fn(),
   which: vi.fn(),
   delay: vi.fn(),
 }))
 
-vi.mock('execa', () => ({
-  execa: vi.fn(),
-}))
-
 // Mock the Node.js modules with factories to avoid hoisting issues
 vi.mock('node:zlib', () => ({
   createGzip: vi.fn(),
@@ -76,9 +73,6 @@ describe('DBDumpCommand', () => {
     // Reset backup flag to default
     command.backup = false
 
-    // Mock execa to return successful result
-    vi.mocked(execa).mockResolvedValue({ exitCode: 0 } as any)
-
     // Setup Node.js module mocks
     vi.mocked(pipeline).mockResolvedValue(undefined)
     vi.mocked(createGzip).mockReturnValue('gzip-stream' as any)
@@ -89,8 +83,12 @@ describe('DBDumpCommand', () => {
     // Mock statSync for progress monitoring
     vi.mocked(statSync).mockReturnValue({ size: 1024 } as any)
 
-    // Mock execC for database size queries - default to failure so tests don't expect db size queries
-    vi.mocked(execC).mockResolvedValue({ exitCode: 1, stdout: '', stderr: '', failed: true } as any)
+    // Mock execC to dump successfully, but fail database size queries so tests don't expect them
+    vi.mocked(execC).mockImplementation(async (_command, _args, options) =>
+      options?.readOnly
+        ? ({ exitCode: 1, stdout: '', stderr: '', failed: true } as any)
+        : ({ exitCode: 0, stdout: '', stderr: '', failed: false } as any),
+    )
   })
 
   it('should use external gzip when available', async () => {
@@ -276,4 +274,40 @@ describe('DBDumpCommand', () => {
     expect(which).not.toHaveBeenCalled()
     expect(pipeline).not.toHaveBeenCalled()
   })
+
+  it('should not compress with Node zlib in dry-run mode', async () => {
+    vi.mocked(isDryRun).mockReturnValue(true)
+    vi.mocked(which).mockResolvedValue(null)
+
+    vi.mocked(mockConfig.get).mockImplementation((key: string) => {
+      if (key === 'dbSeed') {
+        return Promise.resolve('test.sql.gz')
+      }
+
+      return Promise.resolve('mock-value')
+    })
+
+    vi.mocked(mockConfig.getComposeCommand).mockResolvedValue(['docker', ['compose']])
+    vi.mocked(mockConfig.getDBContainerInfo).mockResolvedValue({
+      name: 'test-db',
+      dumpCommand: 'mysqldump',
+      cliCommand: 'mysql',
+      adminCommand: 'mysqladmin',
+      type: 'mysql' as const,
+      credentials: { user: 'root', pass: 'password', db: 'testdb' },
+      service: {},
+    })
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(execC).toHaveBeenCalledWith('docker', expect.arrayContaining(['exec', 'test-db', 'mysqldump']), {
+      shell: false,
+      buffer: { stdout: false },
+      stderr: mockStderr,
+      stdout: { file: path.resolve('test.sql') },
+    })
+    expect(pipeline).not.toHaveBeenCalled()
+    expect(unlink).not.toHaveBeenCalled()
+  })
 })
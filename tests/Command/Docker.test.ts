@@ -1,11 +1,12 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
-import { DockerBuildCommand } from '../../src/Command/Docker.js'
+import { DockerBuildCommand, DockerTagCommand } from '../../src/Command/Docker.js'
 import { Config } from '../../src/Config.js'
 import * as utils from '../../src/utils.js'
 
 vi.mock('../../src/utils.js', () => ({
   execC: vi.fn(),
   fileExists: vi.fn(),
+  keyToConst: vi.fn((str: string) => str.toUpperCase()),
   which: vi.fn(),
 }))
 
@@ -27,6 +28,7 @@ describe('DockerBuildCommand', () => {
     command.args = []
     command.config = mockConfig
     command.dev = false
+    command.env = undefined
   })
 
   describe('buildCommandArgs', () => {
@@ -211,6 +213,7 @@ describe('DockerCombinedCommand', () => {
     command.cli = mockCli
     command.context = {}
     command.dev = false
+    command.env = undefined
     command.deploy = false
   })
 
@@ -235,15 +238,79 @@ describe('DockerCombinedCommand', () => {
     expect(result).toBe(0)
   })
 
-  it('should pass dev flag to all commands', async () => {
+  it('should pass the dev environment to all commands', async () => {
     command.dev = true
     command.deploy = true
 
     await command.command()
 
-    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'build', '--dev'], {})
-    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'tag', '--dev'], {})
-    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'push', '--dev'], {})
-    expect(mockCli.run).toHaveBeenCalledWith(['aws', 'ecs', 'deploy', '--dev'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['--env=dev', 'docker', 'build'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'tag', '--env=dev'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'login', '--env=dev'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'push', '--env=dev'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['aws', 'ecs', 'deploy', '--env=dev'], {})
+  })
+
+  it('should pass a named environment to all commands', async () => {
+    command.env = 'uat'
+
+    await command.command()
+
+    expect(mockCli.run).toHaveBeenCalledWith(['--env=uat', 'docker', 'build'], {})
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'tag', '--env=uat'], {})
+  })
+})
+
+describe('DockerTagCommand', () => {
+  let command: DockerTagCommand
+  let mockConfig: Config
+  let mockCli: { run: Mock }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockConfig = new Config({ imageName: 'test-image', remoteRepo: 'repo.example.com/test-image' })
+    mockCli = { run: vi.fn().mockResolvedValue(0) }
+
+    vi.mocked(utils.execC).mockResolvedValue({ exitCode: 0 } as any)
+    vi.mocked(utils.which).mockResolvedValue('/usr/bin/docker')
+    vi.spyOn(mockConfig, 'command').mockResolvedValue('docker')
+
+    command = new DockerTagCommand()
+    command.config = mockConfig
+    command.cli = mockCli as any
+    command.context = { stdout: { write: vi.fn() }, stderr: { write: vi.fn() } } as any
+    command.dev = false
+    command.env = undefined
+    command.gitTag = true
+    command.tag = undefined
+  })
+
+  it('should also tag the image with the short Git SHA', async () => {
+    const gitVar = vi.spyOn(mockConfig, 'gitVar').mockResolvedValue('abcdef12')
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(gitVar).toHaveBeenCalledWith('shortSha')
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'tag', '--no-git-tag', 'abcdef12'])
+  })
+
+  it('should tag the Git SHA image in the same environment', async () => {
+    vi.spyOn(mockConfig, 'gitVar').mockResolvedValue('abcdef12')
+    command.env = 'uat'
+
+    await command.command()
+
+    expect(mockCli.run).toHaveBeenCalledWith(['docker', 'tag', '--no-git-tag', '--env=uat', 'abcdef12'])
+  })
+
+  it('should warn when the Git SHA cannot be found', async () => {
+    vi.spyOn(mockConfig, 'gitVar').mockResolvedValue(undefined)
+
+    await command.command()
+
+    expect(mockCli.run).not.toHaveBeenCalled()
+    expect(command.context.stderr.write).toHaveBeenCalledWith(expect.stringContaining('Failed to find Git SHA'))
   })
 })
@@ -1,13 +1,16 @@
+import path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
 import JoltCommand from '../../src/Command/JoltCommand.js'
-import getConfig, { getSiteConfig } from '../../src/Config.js'
-import { which } from '../../src/utils.js'
+import getConfig, { getSiteConfig, runWithHookResult } from '../../src/Config.js'
+import { clearSecrets, registerSecret } from '../../src/secrets.js'
+import { isDryRun, PrefixedStream, runDryRun, which } from '../../src/utils.js'
 
 vi.mock('../../src/utils.js')
 vi.mock('../../src/Config.js')
 
 // Test implementation of JoltCommand
 class TestCommand extends JoltCommand {
+  path = ['test']
   requiredCommands = ['test-command']
 
   async command(): Promise<number | undefined> {
@@ -17,6 +20,7 @@ class TestCommand extends JoltCommand {
 
 // Test implementation with required config
 class TestCommandWithConfig extends JoltCommand {
+  path = ['test']
   requiredCommands = ['test-command']
   requiredConfig = ['testConfigKey']
 
@@ -31,6 +35,7 @@ class TestCommandWithConfig extends JoltCommand {
 
 // Test implementation with conditional config
 class TestCommandWithConditionalConfig extends JoltCommand {
+  path = ['test']
   requiredCommands = ['test-command']
   dev = false // Mock the dev option
 
@@ -43,6 +48,24 @@ class TestCommandWithConditionalConfig extends JoltCommand {
   }
 }
 
+// Test implementation that reports a result, optionally running another command as cli.run() would
+class ResultCommand extends JoltCommand {
+  path = ['test']
+  nested?: JoltCommand
+  error?: Error
+
+  async command(): Promise<number | undefined> {
+    if (this.error) {
+      throw this.error
+    }
+
+    this.context.stdout.write('Deploying...\n')
+    this.setResult({ serviceArn: 'arn:aws:ecs:service' })
+
+    return (await this.nested?.execute()) ?? 0
+  }
+}
+
 describe('JoltCommand', () => {
   let command: TestCommand
   let mockStderr: { write: Mock }
@@ -56,9 +79,21 @@ describe('JoltCommand', () => {
     } as any
     command.cli = { binaryLabel: 'test-binary' } as any
     command.forEachSite = false // Explicitly set default
+    command.env = undefined
+    command.configFile = undefined
+    command.dryRun = false
+    command.json = false
+    command.output = undefined
+    command.sites = undefined
+    command.excludeSite = undefined
+    command.siteTag = undefined
+    command.concurrency = undefined
+    command.continueOnError = false
 
     vi.mocked(getConfig).mockResolvedValue({
       setSite: vi.fn(),
+      setEnvironment: vi.fn(),
+      getHooks: vi.fn(),
       command: vi.fn().mockResolvedValue('test-command'),
       get: vi.fn(),
       tfVar: vi.fn(),
@@ -113,6 +148,8 @@ describe('JoltCommand', () => {
       const setSite = vi.fn()
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite,
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         getSites: vi.fn().mockReturnValue({}),
       } as any)
@@ -128,6 +165,8 @@ describe('JoltCommand', () => {
       const setSite = vi.fn()
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite,
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockImplementation((key) => {
           if (key === 'defaultSite') {
@@ -149,6 +188,8 @@ describe('JoltCommand', () => {
       const setSite = vi.fn()
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite,
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockImplementation((key) => {
           if (key === 'defaultSite') {
@@ -171,6 +212,8 @@ describe('JoltCommand', () => {
       const setSite = vi.fn()
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite,
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -184,6 +227,290 @@ describe('JoltCommand', () => {
     })
   })
 
+  describe('JSON output', () => {
+    let mockStdout: { write: Mock }
+
+    const createCommand = (path: string[]) => {
+      const resultCommand = new ResultCommand()
+      resultCommand.path = path
+      resultCommand.context = { stdout: mockStdout, stderr: mockStderr } as any
+      resultCommand.cli = { binaryLabel: 'test-binary' } as any
+      resultCommand.site = undefined
+      resultCommand.forEachSite = false
+      resultCommand.env = undefined
+      resultCommand.configFile = undefined
+      resultCommand.dryRun = false
+      resultCommand.json = false
+      resultCommand.output = undefined
+      resultCommand.sites = undefined
+      resultCommand.excludeSite = undefined
+      resultCommand.siteTag = undefined
+      resultCommand.concurrency = undefined
+      resultCommand.continueOnError = false
+      return resultCommand
+    }
+
+    const getOutput = () => JSON.parse(mockStdout.write.mock.calls.map((x) => x[0]).join(''))
+
+    beforeEach(() => {
+      mockStdout = { write: vi.fn() }
+    })
+
+    it('should write the result to stdout and everything else to stderr with --json', async () => {
+      const resultCommand = createCommand(['aws', 'ecs', 'deploy'])
+      resultCommand.json = true
+
+      expect(await resultCommand.execute()).toBe(0)
+      expect(mockStdout.write).toHaveBeenCalledOnce()
+      expect(getOutput()).toEqual({ command: 'aws ecs deploy', exitCode: 0, serviceArn: 'arn:aws:ecs:service' })
+      expect(mockStderr.write).toHaveBeenCalledWith('Deploying...\n')
+    })
+
+    it('should also be enabled with --output json', async () => {
+      const resultCommand = createCommand(['aws', 'ecs', 'deploy'])
+      resultCommand.output = 'json'
+
+      await resultCommand.execute()
+
+      expect(getOutput()).toMatchObject({ command: 'aws ecs deploy', exitCode: 0 })
+    })
+
+    it('should include the results of commands that the command runs', async () => {
+      const resultCommand = createCommand(['docker', 'combined'])
+      resultCommand.json = true
+      resultCommand.nested = createCommand(['aws', 'ecs', 'deploy'])
+
+      await resultCommand.execute()
+
+      expect(mockStdout.write).toHaveBeenCalledOnce()
+      expect(getOutput()).toEqual({
+        command: 'docker combined',
+        exitCode: 0,
+        serviceArn: 'arn:aws:ecs:service',
+        steps: [{ command: 'aws ecs deploy', exitCode: 0, serviceArn: 'arn:aws:ecs:service' }],
+      })
+    })
+
+    it('should mask secrets in the result unless the command reveals them', async () => {
+      registerSecret('arn:aws:ecs:service')
+      const resultCommand = createCommand(['aws', 'ecs', 'deploy'])
+      resultCommand.json = true
+
+      try {
+        await resultCommand.execute()
+        expect(getOutput()).toMatchObject({ serviceArn: '********' })
+
+        mockStdout.write.mockClear()
+        const revealingCommand = createCommand(['aws', 'ecs', 'deploy'])
+        revealingCommand.json = true
+        vi.spyOn(revealingCommand, 'redactResult', 'get').mockReturnValue(false)
+        await revealingCommand.execute()
+        expect(getOutput()).toMatchObject({ serviceArn: 'arn:aws:ecs:service' })
+      } finally {
+        clearSecrets()
+      }
+    })
+
+    it('should report errors in the result', async () => {
+      const resultCommand = createCommand(['aws', 'ecs', 'deploy'])
+      resultCommand.json = true
+      resultCommand.error = new Error('Something went wrong')
+
+      expect(await resultCommand.execute()).toBe(1)
+      expect(getOutput()).toEqual({ command: 'aws ecs deploy', exitCode: 1, error: 'Something went wrong' })
+      expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('Something went wrong'))
+    })
+
+    it('should write text to stdout otherwise', async () => {
+      const resultCommand = createCommand(['aws', 'ecs', 'deploy'])
+
+      await resultCommand.execute()
+
+      expect(mockStdout.write).toHaveBeenCalledExactlyOnceWith('Deploying...\n')
+    })
+  })
+
+  describe('hooks', () => {
+    let resultCommand: ResultCommand
+    let run: Mock
+    let hookResults: unknown[]
+
+    const hook = (cmd: string, options = {}) => ({ cmd, fail: true, timing: 'normal', hidden: false, ...options })
+
+    const setHooks = (hooks: Record<string, unknown>) => {
+      vi.mocked(getConfig).mockResolvedValue({
+        setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn((path) =>
+          path === 'aws ecs deploy' ? { before: [], after: [], onError: [], ...hooks } : undefined,
+        ),
+        get: vi.fn(),
+      } as any)
+    }
+
+    beforeEach(() => {
+      hookResults = []
+      run = vi.fn().mockResolvedValue(0)
+      vi.mocked(runWithHookResult).mockImplementation(async (result, fn) => {
+        hookResults.push(structuredClone(result))
+        return await fn()
+      })
+
+      resultCommand = new ResultCommand()
+      resultCommand.path = ['aws', 'ecs', 'deploy']
+      resultCommand.site = undefined
+      resultCommand.forEachSite = false
+      resultCommand.env = undefined
+      resultCommand.configFile = undefined
+      resultCommand.dryRun = false
+      resultCommand.json = false
+      resultCommand.output = undefined
+      resultCommand.sites = undefined
+      resultCommand.excludeSite = undefined
+      resultCommand.siteTag = undefined
+      resultCommand.concurrency = undefined
+      resultCommand.continueOnError = false
+      resultCommand.context = { stdout: { write: vi.fn() }, stderr: mockStderr } as any
+      resultCommand.cli = { binaryLabel: 'test-binary', run } as any
+    })
+
+    it('should run the before and after hooks through cmd with the result', async () => {
+      setHooks({
+        before: [hook('echo before')],
+        after: [hook('echo {result:serviceArn}', { dir: 'infra', hidden: true })],
+      })
+
+      expect(await resultCommand.execute()).toBe(0)
+      expect(run.mock.calls.map(([args]) => args)).toEqual([
+        ['cmd', 'echo before'],
+        ['cmd', '--quiet', '--cwd', 'infra', 'echo {result:serviceArn}'],
+      ])
+      expect(hookResults).toEqual([
+        { command: 'aws ecs deploy', exitCode: 0 },
+        { command: 'aws ecs deploy', exitCode: 0, serviceArn: 'arn:aws:ecs:service' },
+      ])
+    })
+
+    it('should not run the command when a before hook fails', async () => {
+      setHooks({ before: [hook('false')], after: [hook('echo after')] })
+      run.mockResolvedValueOnce(3)
+
+      expect(await resultCommand.execute()).toBe(3)
+      expect(run).toHaveBeenCalledTimes(1)
+      expect(resultCommand.context.stdout.write).not.toHaveBeenCalledWith('Deploying...\n')
+    })
+
+    it('should keep going after a hook fails if fail is false', async () => {
+      setHooks({ before: [hook('false', { fail: false })] })
+      run.mockResolvedValueOnce(3)
+
+      expect(await resultCommand.execute()).toBe(0)
+    })
+
+    it('should run the onError hooks instead of the after hooks when the command fails', async () => {
+      setHooks({ after: [hook('echo after')], onError: [hook('notify {result:error}')] })
+      resultCommand.error = new Error('Deploy failed')
+
+      await expect(resultCommand.execute()).rejects.toThrow('Deploy failed')
+      expect(run.mock.calls.map(([args]) => args)).toEqual([['cmd', 'notify {result:error}']])
+      expect(hookResults).toEqual([{ command: 'aws ecs deploy', exitCode: 1, error: 'Deploy failed' }])
+    })
+
+    it('should run hooks in the same environment and site, and leave them unchanged for the command', async () => {
+      const config = {
+        environment: undefined as string | undefined,
+        siteName: undefined as string | undefined,
+        setEnvironment: vi.fn((environment) => {
+          config.environment = environment
+        }),
+        setSite: vi.fn((site) => {
+          config.siteName = site
+        }),
+        hasEnvironment: vi.fn().mockReturnValue(true),
+        getHooks: vi.fn((path) =>
+          path === 'aws ecs deploy' ? { before: [hook('echo before')], after: [], onError: [] } : undefined,
+        ),
+        get: vi.fn(async (key) => (key === 'defaultSite' ? 'main' : undefined)),
+      }
+      const seen: Array<[string | undefined, string | undefined]> = []
+
+      vi.mocked(getConfig).mockResolvedValue(config as any)
+      run.mockImplementation(async (args: string[]) => {
+        // Run the hook as cli.run() would, with only the options that were passed on
+        const hookCommand = new ResultCommand()
+        Object.assign(hookCommand, {
+          path: ['cmd'],
+          forEachSite: false,
+          configFile: undefined,
+          dryRun: false,
+          json: false,
+          output: undefined,
+          sites: undefined,
+          excludeSite: undefined,
+          siteTag: undefined,
+          concurrency: undefined,
+          continueOnError: false,
+        })
+        hookCommand.env = args.find((x) => x.startsWith('--env='))?.slice('--env='.length)
+        hookCommand.site = args.find((x) => x.startsWith('--site='))?.slice('--site='.length)
+        hookCommand.context = { stdout: { write: vi.fn() }, stderr: mockStderr } as any
+        hookCommand.cli = resultCommand.cli
+        seen.push([hookCommand.env, hookCommand.site])
+        return await hookCommand.execute()
+      })
+
+      const command = vi.spyOn(resultCommand, 'command').mockImplementation(async () => {
+        seen.push([config.environment, config.siteName])
+        return 0
+      })
+
+      resultCommand.env = 'uat'
+      resultCommand.site = 'blog'
+
+      expect(await resultCommand.execute()).toBe(0)
+      expect(run.mock.calls[0][0]).toEqual(['--env=uat', '--site=blog', 'cmd', 'echo before'])
+      expect(command).toHaveBeenCalledOnce()
+      expect(seen).toEqual([
+        ['uat', 'blog'],
+        ['uat', 'blog'],
+      ])
+    })
+
+    it('should not run hooks for other commands', async () => {
+      setHooks({ before: [hook('echo before')] })
+      resultCommand.path = ['aws', 'ecs', 'status']
+
+      expect(await resultCommand.execute()).toBe(0)
+      expect(run).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('dry-run mode', () => {
+    it('should run the command in dry-run mode with --dry-run', async () => {
+      vi.mocked(which).mockResolvedValue('/usr/bin/test-command')
+      vi.mocked(runDryRun).mockImplementation((fn) => fn())
+      command.dryRun = true
+
+      const result = await command.execute()
+
+      expect(result).toBe(0)
+      expect(runDryRun).toHaveBeenCalledOnce()
+      expect(mockStderr.write).toHaveBeenCalledWith(expect.stringContaining('Dry run'))
+    })
+
+    it('should not start dry-run mode again for commands run by a command in dry-run mode', async () => {
+      vi.mocked(which).mockResolvedValue('/usr/bin/test-command')
+      vi.mocked(isDryRun).mockReturnValue(true)
+      command.dryRun = true
+
+      const result = await command.execute()
+
+      expect(result).toBe(0)
+      expect(runDryRun).not.toHaveBeenCalled()
+      expect(mockStderr.write).not.toHaveBeenCalled()
+    })
+  })
+
   describe('requiredConfig validation', () => {
     let commandWithConfig: TestCommandWithConfig
 
@@ -194,12 +521,23 @@ describe('JoltCommand', () => {
       } as any
       commandWithConfig.cli = { binaryLabel: 'test-binary' } as any
       commandWithConfig.forEachSite = false // Explicitly set default
+      commandWithConfig.env = undefined
+      commandWithConfig.dryRun = false
+      commandWithConfig.json = false
+      commandWithConfig.output = undefined
+      commandWithConfig.sites = undefined
+      commandWithConfig.excludeSite = undefined
+      commandWithConfig.siteTag = undefined
+      commandWithConfig.concurrency = undefined
+      commandWithConfig.continueOnError = false
     })
 
     it('should check for required config entries', async () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue('test-config-value'),
         getSites: vi.fn().mockReturnValue({}),
@@ -215,6 +553,8 @@ describe('JoltCommand', () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -242,6 +582,8 @@ describe('JoltCommand', () => {
         vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
         vi.mocked(getConfig).mockResolvedValueOnce({
           setSite: vi.fn(),
+          setEnvironment: vi.fn(),
+          getHooks: vi.fn(),
           command: vi.fn().mockResolvedValue('test-command'),
           get: vi.fn().mockResolvedValue(undefined),
           getSites: vi.fn().mockReturnValue({}),
@@ -265,6 +607,15 @@ describe('JoltCommand', () => {
       } as any
       conditionalCommand.cli = { binaryLabel: 'test-binary' } as any
       conditionalCommand.forEachSite = false // Explicitly set default
+      conditionalCommand.env = undefined
+      conditionalCommand.dryRun = false
+      conditionalCommand.json = false
+      conditionalCommand.output = undefined
+      conditionalCommand.sites = undefined
+      conditionalCommand.excludeSite = undefined
+      conditionalCommand.siteTag = undefined
+      conditionalCommand.concurrency = undefined
+      conditionalCommand.continueOnError = false
     })
 
     it('should validate prod config when dev=false', async () => {
@@ -272,6 +623,8 @@ describe('JoltCommand', () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockImplementation((key) => (key === 'prodConfigKey' ? 'prod-value' : undefined)),
         getSites: vi.fn().mockReturnValue({}),
@@ -288,6 +641,9 @@ describe('JoltCommand', () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        hasEnvironment: vi.fn().mockReturnValue(true),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockImplementation((key) => (key === 'devConfigKey' ? 'dev-value' : undefined)),
         getSites: vi.fn().mockReturnValue({}),
@@ -304,6 +660,8 @@ describe('JoltCommand', () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -323,6 +681,9 @@ describe('JoltCommand', () => {
       vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        hasEnvironment: vi.fn().mockReturnValue(true),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -338,6 +699,137 @@ describe('JoltCommand', () => {
     })
   })
 
+  describe('config file', () => {
+    const cwd = process.cwd()
+
+    afterEach(() => {
+      process.chdir(cwd)
+      delete process.env.JOLT_CONFIG
+    })
+
+    it('should load the file given with --config, falling back to JOLT_CONFIG', async () => {
+      vi.mocked(which).mockResolvedValue('/usr/bin/test-command')
+      process.env.JOLT_CONFIG = 'env.jolt.json'
+
+      await command.execute()
+      expect(getConfig).toHaveBeenLastCalledWith('env.jolt.json')
+
+      command.configFile = 'custom.jolt.json'
+      await command.execute()
+      expect(getConfig).toHaveBeenLastCalledWith('custom.jolt.json')
+    })
+
+    it('should run in the project root', async () => {
+      const rootDir = path.dirname(cwd)
+      vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
+      vi.mocked(getConfig).mockResolvedValueOnce({
+        rootDir,
+        setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        command: vi.fn().mockResolvedValue('test-command'),
+        get: vi.fn(),
+        getSites: vi.fn().mockReturnValue({}),
+      } as any)
+
+      await command.execute()
+
+      expect(process.cwd()).toBe(rootDir)
+    })
+  })
+
+  describe('environments', () => {
+    it('should set the environment from --env and restore the previous one afterwards', async () => {
+      const setEnvironment = vi.fn()
+      command.env = 'uat'
+      vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
+      vi.mocked(getConfig).mockResolvedValueOnce({
+        environment: 'staging',
+        setSite: vi.fn(),
+        setEnvironment,
+        getHooks: vi.fn(),
+        hasEnvironment: vi.fn().mockReturnValue(true),
+        command: vi.fn().mockResolvedValue('test-command'),
+        get: vi.fn(),
+        getSites: vi.fn().mockReturnValue({}),
+      } as any)
+
+      const result = await command.execute()
+
+      expect(result).toBe(0)
+      expect(setEnvironment.mock.calls).toEqual([['uat'], ['staging']])
+    })
+
+    it('should treat --dev as the dev environment', () => {
+      const conditionalCommand = new TestCommandWithConditionalConfig()
+      conditionalCommand.env = undefined
+      conditionalCommand.dev = true
+
+      expect(conditionalCommand.environment).toBe('dev')
+      expect(conditionalCommand.environmentArgs).toEqual(['--env=dev'])
+    })
+
+    it('should prefer --env over --dev', () => {
+      const conditionalCommand = new TestCommandWithConditionalConfig()
+      conditionalCommand.env = 'uat'
+      conditionalCommand.dev = true
+
+      expect(conditionalCommand.environment).toBe('uat')
+    })
+
+    it('should return error code 5 for an unknown environment', async () => {
+      command.env = 'missing'
+      vi.mocked(getConfig).mockResolvedValueOnce({
+        setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        hasEnvironment: vi.fn().mockReturnValue(false),
+        getEnvironments: vi.fn().mockReturnValue({ uat: {} }),
+        getSites: vi.fn().mockReturnValue({}),
+      } as any)
+
+      const result = await command.execute()
+
+      expect(result).toBe(5)
+      expect(mockStderr.write).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown environment "missing". Available environments: dev, uat'),
+      )
+    })
+
+    it('should mention the environment when required config is missing', async () => {
+      const commandWithConfig = new TestCommandWithConfig()
+      commandWithConfig.context = { stderr: mockStderr } as any
+      commandWithConfig.cli = { binaryLabel: 'test-binary' } as any
+      commandWithConfig.forEachSite = false
+      commandWithConfig.env = 'uat'
+      commandWithConfig.dryRun = false
+      commandWithConfig.json = false
+      commandWithConfig.output = undefined
+      commandWithConfig.sites = undefined
+      commandWithConfig.excludeSite = undefined
+      commandWithConfig.siteTag = undefined
+      commandWithConfig.concurrency = undefined
+      commandWithConfig.continueOnError = false
+      vi.mocked(which).mockResolvedValueOnce('/usr/bin/test-command')
+      vi.mocked(getConfig).mockResolvedValueOnce({
+        setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        hasEnvironment: vi.fn().mockReturnValue(true),
+        command: vi.fn().mockResolvedValue('test-command'),
+        get: vi.fn().mockResolvedValue(undefined),
+        getSites: vi.fn().mockReturnValue({}),
+      } as any)
+
+      const result = await commandWithConfig.execute()
+
+      expect(result).toBe(5)
+      expect(mockStderr.write).toHaveBeenCalledWith(
+        expect.stringContaining('Missing the following required config entries for the uat environment'),
+      )
+    })
+  })
+
   describe('getHeader', () => {
     it('should return formatted header with binary label', () => {
       command.cli = { binaryLabel: 'test-binary' } as any
@@ -365,6 +857,15 @@ describe('JoltCommand', () => {
       command = new TestCommand() // Create fresh instance
       command.site = undefined // Explicitly clear site
       command.forEachSite = false // Explicitly clear forEachSite
+      command.env = undefined // Explicitly clear env
+      command.dryRun = false
+      command.json = false
+      command.output = undefined
+      command.sites = undefined
+      command.excludeSite = undefined
+      command.siteTag = undefined
+      command.concurrency = undefined
+      command.continueOnError = false
       command.context = {
         stdout: mockStdout,
         stderr: mockStderr,
@@ -376,6 +877,8 @@ describe('JoltCommand', () => {
       command.forEachSite = false
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -391,6 +894,8 @@ describe('JoltCommand', () => {
       command.forEachSite = true
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -406,6 +911,8 @@ describe('JoltCommand', () => {
       command.forEachSite = 'series'
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -421,6 +928,8 @@ describe('JoltCommand', () => {
       command.forEachSite = 'parallel'
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         command: vi.fn().mockResolvedValue('test-command'),
         get: vi.fn().mockResolvedValue(undefined),
         getSites: vi.fn().mockReturnValue({}),
@@ -435,6 +944,7 @@ describe('JoltCommand', () => {
     it('should execute correct site config in parallel mode with multiple sites', async () => {
       // Create a test command that tracks which site was active when command() was called
       class TrackedCommand extends JoltCommand {
+        path = ['test']
         executedSites: string[] = []
 
         async command(): Promise<number | undefined> {
@@ -448,6 +958,15 @@ describe('JoltCommand', () => {
 
       const trackedCommand = new TrackedCommand()
       trackedCommand.forEachSite = 'parallel'
+      trackedCommand.env = undefined
+      trackedCommand.dryRun = false
+      trackedCommand.json = false
+      trackedCommand.output = undefined
+      trackedCommand.sites = undefined
+      trackedCommand.excludeSite = undefined
+      trackedCommand.siteTag = undefined
+      trackedCommand.concurrency = undefined
+      trackedCommand.continueOnError = false
       trackedCommand.context = {
         stdout: { write: vi.fn() },
         stderr: { write: vi.fn() },
@@ -457,6 +976,8 @@ describe('JoltCommand', () => {
       // Mock getConfig to return the base config for the first call
       vi.mocked(getConfig).mockResolvedValueOnce({
         setSite: vi.fn(),
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
         currentSite: 'base',
         getSites: vi.fn().mockReturnValue({ site1: {}, site2: {}, site3: {} }),
         command: vi.fn().mockResolvedValue('test-command'),
@@ -469,18 +990,24 @@ describe('JoltCommand', () => {
         const siteConfigs: Record<string, any> = {
           site1: {
             setSite: vi.fn(),
+            setEnvironment: vi.fn(),
+            getHooks: vi.fn(),
             currentSite: 'site1',
             getSites: vi.fn().mockReturnValue({ site1: {}, site2: {}, site3: {} }),
             command: vi.fn().mockResolvedValue('test-command'),
           },
           site2: {
             setSite: vi.fn(),
+            setEnvironment: vi.fn(),
+            getHooks: vi.fn(),
             currentSite: 'site2',
             getSites: vi.fn().mockReturnValue({ site1: {}, site2: {}, site3: {} }),
             command: vi.fn().mockResolvedValue('test-command'),
           },
           site3: {
             setSite: vi.fn(),
+            setEnvironment: vi.fn(),
+            getHooks: vi.fn(),
             currentSite: 'site3',
             getSites: vi.fn().mockReturnValue({ site1: {}, site2: {}, site3: {} }),
             command: vi.fn().mockResolvedValue('test-command'),
@@ -500,4 +1027,171 @@ describe('JoltCommand', () => {
       expect(trackedCommand.executedSites.sort()).toEqual(['site1', 'site2', 'site3'])
     })
   })
+
+  describe('choosing sites', () => {
+    // Test implementation that records the sites it ran for, failing for some of them
+    class SiteCommand extends JoltCommand {
+      path = ['test']
+      ran: string[] = []
+      failFor: string[] = []
+      // Shared with the copies of the command that run for each site
+      load = { running: 0, max: 0 }
+
+      async command(): Promise<number | undefined> {
+        const site = (this.config as any).currentSite
+        this.ran.push(site)
+        this.load.running++
+        this.load.max = Math.max(this.load.max, this.load.running)
+        this.context.stdout.write(`Deploying ${site}\n`)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        this.load.running--
+
+        return this.failFor.includes(site) ? 2 : 0
+      }
+    }
+
+    const sites = {
+      'client-a': { tags: ['client'] },
+      'client-b': { tags: ['client', 'legacy'] },
+      internal: {},
+    }
+
+    let siteCommand: SiteCommand
+    let mockStdout: { write: Mock }
+
+    const getOutput = (mock: Mock) => {
+      const escapeRegex = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g')
+      return mock.mock.calls
+        .map((call) => call[0])
+        .join('')
+        .replace(escapeRegex, '')
+    }
+
+    beforeEach(async () => {
+      const { PrefixedStream: ActualPrefixedStream } =
+        await vi.importActual<typeof import('../../src/utils.js')>('../../src/utils.js')
+      // biome-ignore lint/complexity/useArrowFunction: the mock is called with new
+      vi.mocked(PrefixedStream).mockImplementation(function (target, prefix) {
+        return new ActualPrefixedStream(target, prefix) as PrefixedStream
+      })
+
+      mockStdout = { write: vi.fn() }
+      siteCommand = new SiteCommand()
+      siteCommand.site = undefined
+      siteCommand.forEachSite = false
+      siteCommand.env = undefined
+      siteCommand.configFile = undefined
+      siteCommand.dryRun = false
+      siteCommand.json = false
+      siteCommand.output = undefined
+      siteCommand.sites = undefined
+      siteCommand.excludeSite = undefined
+      siteCommand.siteTag = undefined
+      siteCommand.concurrency = undefined
+      siteCommand.continueOnError = false
+      siteCommand.context = { stdout: mockStdout, stderr: mockStderr } as any
+      siteCommand.cli = { binaryLabel: 'test-binary' } as any
+
+      vi.mocked(getConfig).mockResolvedValue({
+        setEnvironment: vi.fn(),
+        getHooks: vi.fn(),
+        getSites: vi.fn().mockReturnValue(sites),
+        getResolvedSiteConfig: vi.fn((site: keyof typeof sites) => sites[site]),
+      } as any)
+      vi.mocked(getSiteConfig).mockImplementation(
+        async (site) => ({ setEnvironment: vi.fn(), getHooks: vi.fn(), currentSite: site, get: vi.fn() }) as any,
+      )
+    })
+
+    it('should only run for the sites given with --sites', async () => {
+      siteCommand.sites = 'internal,client-a'
+
+      expect(await siteCommand.execute()).toBe(0)
+      expect(siteCommand.ran).toEqual(['internal', 'client-a'])
+    })
+
+    it('should leave out sites given with --exclude-site', async () => {
+      siteCommand.forEachSite = true
+      siteCommand.excludeSite = ['client-a,internal']
+
+      expect(await siteCommand.execute()).toBe(0)
+      expect(siteCommand.ran).toEqual(['client-b'])
+    })
+
+    it('should only run for sites with any of the tags given with --site-tag', async () => {
+      siteCommand.siteTag = ['legacy', 'other']
+
+      expect(await siteCommand.execute()).toBe(0)
+      expect(siteCommand.ran).toEqual(['client-b'])
+    })
+
+    it('should return error code 5 for unknown sites', async () => {
+      siteCommand.sites = 'client-a,client-c'
+
+      expect(await siteCommand.execute()).toBe(5)
+      expect(siteCommand.ran).toEqual([])
+      expect(getOutput(mockStderr.write)).toContain(
+        'Unknown site "client-c". Available sites: client-a, client-b, internal',
+      )
+    })
+
+    it('should stop at the first failure and skip the remaining sites', async () => {
+      siteCommand.forEachSite = 'series'
+      siteCommand.failFor = ['client-a']
+
+      expect(await siteCommand.execute()).toBe(2)
+      expect(siteCommand.ran).toEqual(['client-a'])
+
+      const output = getOutput(mockStdout.write)
+      expect(output).toMatch(/client-a +2 +[\d.]+s/)
+      expect(output).toMatch(/client-b +skipped +-/)
+    })
+
+    it('should run the remaining sites with --continue-on-error', async () => {
+      siteCommand.forEachSite = 'series'
+      siteCommand.failFor = ['client-a']
+      siteCommand.continueOnError = true
+
+      expect(await siteCommand.execute()).toBe(2)
+      expect(siteCommand.ran).toEqual(['client-a', 'client-b', 'internal'])
+    })
+
+    it('should limit how many sites run at once with --concurrency', async () => {
+      siteCommand.forEachSite = 'parallel'
+      siteCommand.concurrency = 2
+
+      expect(await siteCommand.execute()).toBe(0)
+      expect(siteCommand.load.max).toBe(2)
+      expect(siteCommand.ran.sort()).toEqual(['client-a', 'client-b', 'internal'])
+    })
+
+    it('should label each line of output with the site and finish with a summary', async () => {
+      siteCommand.forEachSite = 'parallel'
+
+      await siteCommand.execute()
+
+      const output = getOutput(mockStdout.write)
+      expect(output).toContain('[client-a] Deploying client-a\n')
+      expect(output).toContain('[internal] Deploying internal\n')
+      expect(output).toMatch(/Site +Exit code +Duration/)
+      expect(output).toMatch(/internal +0 +[\d.]+s/)
+    })
+
+    it('should include each site in the JSON result', async () => {
+      siteCommand.forEachSite = 'series'
+      siteCommand.failFor = ['client-b']
+      siteCommand.json = true
+      siteCommand.path = ['deploy']
+
+      await siteCommand.execute()
+
+      const result = JSON.parse(mockStdout.write.mock.calls.at(-1)?.[0])
+      expect(result.exitCode).toBe(2)
+      expect(result.sites).toEqual([
+        { command: 'deploy', site: 'client-a', exitCode: 0, duration: expect.any(Number) },
+        { command: 'deploy', site: 'client-b', exitCode: 2, duration: expect.any(Number) },
+        { command: 'deploy', site: 'internal', skipped: true },
+      ])
+    })
+  })
 })
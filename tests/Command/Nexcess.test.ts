@@ -16,6 +16,7 @@ describe('Nexcess Commands', () => {
   let mockStderr: { write: Mock }
   let mockContext: { stdin: any; stdout: any; stderr: any }
   let mockCli: { run: Mock }
+  let mockDevEnvironment: () => void
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -43,12 +44,8 @@ describe('Nexcess Commands', () => {
           return Promise.resolve('web')
         case 'liveFolder':
           return Promise.resolve('/var/www/live')
-        case 'devFolder':
-          return Promise.resolve('/var/www/dev')
         case 'branch':
           return Promise.resolve('main')
-        case 'devBranch':
-          return Promise.resolve('develop')
         case 'nexcessDeployScript':
           return Promise.resolve('bin/nexcess-deploy-script.sh')
         case 'nexcessCleanupScript':
@@ -58,6 +55,22 @@ describe('Nexcess Commands', () => {
       }
     })
 
+    // The config resolves environment values for the plain keys, e.g. devFolder for liveFolder
+    mockDevEnvironment = () => {
+      const getLive = vi.mocked(mockConfig.get).getMockImplementation()
+
+      vi.spyOn(mockConfig, 'get').mockImplementation((key: string) => {
+        switch (key) {
+          case 'liveFolder':
+            return Promise.resolve('/var/www/dev')
+          case 'branch':
+            return Promise.resolve('develop')
+          default:
+            return getLive?.(key) ?? Promise.resolve(undefined)
+        }
+      })
+    }
+
     // Mock fileExists
     vi.mocked(fileExists).mockResolvedValue(false)
 
@@ -76,6 +89,7 @@ describe('Nexcess Commands', () => {
       command.context = mockContext
       // @ts-expect-error - Mocking cli for testing
       command.cli = mockCli
+      command.env = undefined
       command.dev = false
     })
 
@@ -85,9 +99,9 @@ describe('Nexcess Commands', () => {
         expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'liveFolder', 'branch'])
       })
 
-      it('should require base configs plus dev configs for development', () => {
+      it('should require the same configs for development, which the config resolves for the environment', () => {
         command.dev = true
-        expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'devFolder', 'devBranch'])
+        expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'liveFolder', 'branch'])
       })
     })
 
@@ -115,6 +129,7 @@ describe('Nexcess Commands', () => {
 
       it('should deploy to development when dev flag is set', async () => {
         command.dev = true
+        mockDevEnvironment()
         vi.mocked(fileExists).mockResolvedValue(false)
 
         await command.command()
@@ -124,6 +139,7 @@ describe('Nexcess Commands', () => {
         )
 
         expect(mockCli.run).toHaveBeenCalledWith([
+          '--env=dev',
           'ssh',
           '-T',
           '-C',
@@ -133,6 +149,22 @@ describe('Nexcess Commands', () => {
         ])
       })
 
+      it('should connect to the host for the environment given by --env', async () => {
+        command.env = 'dev'
+        mockDevEnvironment()
+        vi.mocked(fileExists).mockResolvedValue(false)
+
+        await command.command()
+
+        expect(mockCli.run).toHaveBeenCalledWith([
+          '--env=dev',
+          'ssh',
+          '-T',
+          '-C',
+          expect.stringContaining('--branch=develop'),
+        ])
+      })
+
       it('should use deploy script when it exists', async () => {
         vi.mocked(fileExists).mockImplementation((path) => {
           return Promise.resolve(path.toString().includes('nexcess-deploy-script.sh'))
@@ -190,12 +222,8 @@ describe('Nexcess Commands', () => {
               return Promise.resolve('web')
             case 'liveFolder':
               return Promise.resolve('/var/www/live')
-            case 'devFolder':
-              return Promise.resolve('/var/www/dev')
             case 'branch':
               return Promise.resolve('main')
-            case 'devBranch':
-              return Promise.resolve('develop')
             case 'nexcessDeployScript':
               return Promise.resolve('custom/deploy.sh')
             case 'nexcessCleanupScript':
@@ -229,6 +257,7 @@ describe('Nexcess Commands', () => {
       command.context = mockContext
       // @ts-expect-error - Mocking cli for testing
       command.cli = mockCli
+      command.env = undefined
       command.dev = false
       command.commit = 'abc123def456'
     })
@@ -239,9 +268,9 @@ describe('Nexcess Commands', () => {
         expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'liveFolder'])
       })
 
-      it('should require base configs plus dev configs for development', () => {
+      it('should require the same configs for development, which the config resolves for the environment', () => {
         command.dev = true
-        expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'devFolder'])
+        expect(command.getRequiredConfig()).toEqual(['repo', 'codeSubfolder', 'liveFolder'])
       })
     })
 
@@ -282,6 +311,7 @@ describe('Nexcess Commands', () => {
 
       it('should deploy specific commit to development when dev flag is set', async () => {
         command.dev = true
+        mockDevEnvironment()
         vi.mocked(fileExists).mockResolvedValue(false)
 
         await command.command()
@@ -291,6 +321,8 @@ describe('Nexcess Commands', () => {
             '⚡ Cloning commit abc123def456 into deploy-2024-01-15_10-30-45-abc123de and deploying to /var/www/dev...',
           ),
         )
+
+        expect(mockCli.run).toHaveBeenCalledWith(['--env=dev', 'ssh', '-T', '-C', expect.any(String)])
       })
 
       it('should use deploy script when it exists for specific commit', async () => {
@@ -338,6 +370,7 @@ describe('Nexcess Commands', () => {
       // @ts-expect-error - Mocking cli for testing
       command.cli = mockCli
       command.dev = false
+      command.env = undefined
       command.dryRun = false
     })
 
@@ -351,13 +384,13 @@ describe('Nexcess Commands', () => {
         expect(result).toBe(0)
       })
 
-      it('should include dev flag when dev is true', async () => {
+      it('should pass the dev environment when dev is true', async () => {
         command.dev = true
         vi.mocked(fileExists).mockResolvedValue(false)
 
         await command.command()
 
-        expect(mockCli.run).toHaveBeenCalledWith(['rsync', '--dev', './web/', '{arg:acc}:~/{arg:contentFolder}'])
+        expect(mockCli.run).toHaveBeenCalledWith(['--env=dev', 'rsync', './web/', '{arg:acc}:~/{arg:contentFolder}'])
       })
 
       it('should include dry-run flag when dryRun is true', async () => {
@@ -394,8 +427,8 @@ describe('Nexcess Commands', () => {
         await command.command()
 
         expect(mockCli.run).toHaveBeenCalledWith([
+          '--env=dev',
           'rsync',
-          '--dev',
           '--dry-run',
           '--exclude-from=.rsyncignore',
           './web/',
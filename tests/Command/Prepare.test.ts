@@ -45,6 +45,8 @@ describe('PrepareCommand', () => {
       getComposeCommand: vi.fn().mockResolvedValue(['docker', ['compose']]),
       getDevPluginDelay: vi.fn().mockResolvedValue(30),
       getPackageJson: vi.fn().mockResolvedValue({}),
+      getTerraformContext: vi.fn().mockResolvedValue({ dir: '/project', workspace: undefined, varFile: undefined }),
+      getTerraformExecOptions: vi.fn().mockResolvedValue({ cwd: '/project', env: {} }),
     } as any
 
     // Mock the default getConfig function to return our mock config
@@ -225,8 +227,8 @@ describe('PrepareCommand', () => {
 
       expect(result).toBe(0)
       expect(mockConfig.command).toHaveBeenCalledWith('tofu')
-      expect(execC).toHaveBeenCalledWith('terraform', ['init'])
-      expect(execC).toHaveBeenCalledWith('terraform', ['refresh'])
+      expect(execC).toHaveBeenCalledWith('terraform', ['init'], { cwd: '/project', env: {} })
+      expect(execC).toHaveBeenCalledWith('terraform', ['refresh', undefined], { cwd: '/project', env: {} })
       expect(mockStdout.write).toHaveBeenCalledWith(expect.stringContaining('🌍 Preparing Terraform variables'))
     })
 
@@ -242,8 +244,57 @@ describe('PrepareCommand', () => {
       const result = await command.command()
 
       expect(result).toBe(0)
-      expect(execC).toHaveBeenCalledWith('tofu', ['init'])
-      expect(execC).toHaveBeenCalledWith('tofu', ['refresh'])
+      expect(execC).toHaveBeenCalledWith('tofu', ['init'], { cwd: '/project', env: {} })
+      expect(execC).toHaveBeenCalledWith('tofu', ['refresh', undefined], { cwd: '/project', env: {} })
+    })
+
+    it('should prepare Terraform in the configured directory and workspace', async () => {
+      command.husky = false
+      command.dbSeeds = false
+      command.devPlugins = false
+
+      vi.mocked(directoryExists).mockResolvedValue(false)
+      vi.mocked(readdir).mockResolvedValue(['main.tf'] as any)
+      vi.mocked(mockConfig.command).mockResolvedValue('tofu')
+      vi.mocked(mockConfig.getTerraformContext).mockResolvedValue({
+        dir: '/project/infra',
+        workspace: 'staging',
+        varFile: 'staging.tfvars',
+      })
+      vi.mocked(mockConfig.getTerraformExecOptions).mockResolvedValue({
+        cwd: '/project/infra',
+        env: { TF_WORKSPACE: 'staging' },
+      })
+
+      const result = await command.command()
+      const options = { cwd: '/project/infra', env: { TF_WORKSPACE: 'staging' } }
+
+      expect(result).toBe(0)
+      expect(readdir).toHaveBeenCalledWith('/project/infra')
+      expect(execC).toHaveBeenCalledWith('tofu', ['init'], options)
+      expect(execC).toHaveBeenCalledWith('tofu', ['refresh', '-var-file=staging.tfvars'], options)
+    })
+
+    it('should skip Terraform when the configured directory does not exist', async () => {
+      command.husky = false
+      command.dbSeeds = false
+      command.devPlugins = false
+
+      vi.mocked(directoryExists).mockResolvedValue(false)
+      vi.mocked(readdir).mockRejectedValue(
+        Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' }),
+      )
+      vi.mocked(mockConfig.getTerraformContext).mockResolvedValue({
+        dir: '/project/infra',
+        workspace: undefined,
+        varFile: undefined,
+      })
+
+      const result = await command.command()
+
+      expect(result).toBe(0)
+      expect(readdir).toHaveBeenCalledWith('/project/infra')
+      expect(execC).not.toHaveBeenCalledWith(expect.anything(), expect.arrayContaining(['init']))
     })
 
     it('should skip Terraform when option is disabled', async () => {
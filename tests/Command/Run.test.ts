@@ -0,0 +1,217 @@
+import type { Mock } from 'vitest'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { findStartStep, planTask, RunCommand } from '../../src/Command/Run.js'
+import getConfig, { type Config } from '../../src/Config.js'
+import { ConfigValidationError } from '../../src/errors.js'
+import type { TaskConfig } from '../../src/types/index.js'
+
+vi.mock('../../src/Config.js', () => ({
+  default: vi.fn(),
+  Config: vi.fn(),
+}))
+
+function task(steps: string[], dependsOn: string[] = []): TaskConfig {
+  return {
+    steps: steps.map((command) => ({ command, name: command, continueOnError: false })),
+    dependsOn,
+  }
+}
+
+describe('planTask', () => {
+  it('should run dependencies first, once each', () => {
+    const tasks = {
+      build: task(['docker build'], ['prepare']),
+      deploy: task(['aws ecs deploy'], ['build', 'prepare']),
+      release: task(['aws cf invalidate'], ['build', 'deploy']),
+    }
+
+    expect(planTask(tasks, 'release').map((x) => [x.task, x.command])).toEqual([
+      ['build', 'prepare'],
+      ['build', 'docker build'],
+      ['deploy', 'aws ecs deploy'],
+      ['release', 'aws cf invalidate'],
+    ])
+  })
+
+  it('should throw ConfigValidationError for circular dependencies', () => {
+    const tasks = { a: task(['one'], ['b']), b: task(['two'], ['a']) }
+
+    expect(() => planTask(tasks, 'a')).toThrow(ConfigValidationError)
+    expect(() => planTask(tasks, 'a')).toThrow('Circular task dependency: a → b → a')
+  })
+})
+
+describe('findStartStep', () => {
+  const steps = planTask(
+    {
+      build: task(['docker build', 'docker push']),
+      release: {
+        ...task(['aws ecs deploy'], ['build']),
+        steps: [{ command: 'aws ecs deploy', name: 'deploy', continueOnError: false }],
+      },
+    },
+    'release',
+  )
+
+  it('should find a step by its name or command, or the start of a task', () => {
+    expect(findStartStep(steps, 'docker push')).toBe(1)
+    expect(findStartStep(steps, 'deploy')).toBe(2)
+    expect(findStartStep(steps, 'aws ecs deploy')).toBe(2)
+    expect(findStartStep(steps, 'build')).toBe(0)
+    expect(findStartStep(steps, 'missing')).toBe(-1)
+  })
+})
+
+describe('RunCommand', () => {
+  let command: RunCommand
+  let mockConfig: Config
+  let mockCli: { run: Mock }
+  let mockStdout: { write: Mock }
+  let mockStderr: { write: Mock }
+  let tasks: Record<string, TaskConfig>
+
+  const output = (stream: { write: Mock }) => stream.write.mock.calls.map(([text]) => text).join('')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockStdout = { write: vi.fn() }
+    mockStderr = { write: vi.fn() }
+    mockCli = { run: vi.fn().mockResolvedValue(0) }
+
+    tasks = {
+      prepare: task(['prepare --no-husky']),
+      release: {
+        description: 'Build and deploy the site',
+        steps: [
+          { command: 'docker build', name: 'docker build', continueOnError: false },
+          { command: 'cmd "yarn notify"', name: 'notify', continueOnError: true },
+          { command: 'aws ecs deploy', name: 'aws ecs deploy', continueOnError: false },
+        ],
+        dependsOn: ['prepare'],
+      },
+    }
+
+    mockConfig = {
+      getTasks: vi.fn(() => tasks),
+    } as any
+
+    vi.mocked(getConfig).mockResolvedValue(mockConfig)
+
+    command = new RunCommand()
+    command.config = mockConfig
+    command.cli = mockCli as any
+    command.context = { stdout: mockStdout, stderr: mockStderr } as any
+    command.task = 'release'
+    command.from = undefined
+    command.site = undefined
+    command.env = undefined
+  })
+
+  it('should run the steps of a task and the tasks it depends on in order', async () => {
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(mockCli.run.mock.calls.map(([args]) => args)).toEqual([
+      ['prepare', '--no-husky'],
+      ['docker', 'build'],
+      ['cmd', 'yarn notify'],
+      ['aws', 'ecs', 'deploy'],
+    ])
+    expect(output(mockStdout)).toContain('prepare: prepare --no-husky finished in')
+    expect(output(mockStdout)).toContain('Task release finished in')
+  })
+
+  it('should pass the environment and site on to each step', async () => {
+    command.env = 'prod'
+    command.site = 'blog'
+
+    await command.command()
+
+    expect(mockCli.run).toHaveBeenCalledWith(['--env=prod', '--site=blog', 'docker', 'build'], command.context)
+  })
+
+  it('should stop at the first failing step and say how to resume', async () => {
+    mockCli.run.mockImplementation(async (args: string[]) => (args[0] === 'docker' ? 3 : 0))
+
+    const result = await command.command()
+
+    expect(result).toBe(3)
+    expect(mockCli.run).toHaveBeenCalledTimes(2)
+    expect(output(mockStderr)).toContain('docker build failed with exit code 3')
+    expect(output(mockStderr)).toContain('jolt run release --from "docker build"')
+  })
+
+  it('should carry on after a failing step that has continueOnError set', async () => {
+    mockCli.run.mockImplementation(async (args: string[]) => (args[0] === 'cmd' ? 1 : 0))
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(mockCli.run).toHaveBeenCalledTimes(4)
+    expect(output(mockStderr)).toContain('notify failed with exit code 1')
+  })
+
+  it('should skip the steps before --from', async () => {
+    command.from = 'notify'
+
+    const result = await command.command()
+
+    expect(result).toBe(0)
+    expect(mockCli.run.mock.calls.map(([args]) => args)).toEqual([
+      ['cmd', 'yarn notify'],
+      ['aws', 'ecs', 'deploy'],
+    ])
+    expect(output(mockStdout)).toContain('Skipping docker build')
+  })
+
+  it('should fail for an unknown --from step', async () => {
+    command.from = 'missing'
+
+    expect(await command.command()).toBe(1)
+    expect(output(mockStderr)).toContain('Task release has no step "missing"')
+    expect(mockCli.run).not.toHaveBeenCalled()
+  })
+
+  it('should list the available tasks for an unknown task', async () => {
+    command.task = 'deploy'
+
+    expect(await command.command()).toBe(1)
+    expect(output(mockStderr)).toContain('Unknown task "deploy". Available tasks: prepare, release')
+  })
+
+  it('should list the tasks when no task is given', async () => {
+    command.task = undefined
+
+    expect(await command.command()).toBe(0)
+    expect(output(mockStdout)).toContain('release')
+    expect(output(mockStdout)).toContain('Build and deploy the site')
+    expect(output(mockStdout)).toContain('Depends on: prepare')
+    expect(output(mockStdout)).toContain('notify')
+    expect(mockCli.run).not.toHaveBeenCalled()
+  })
+
+  it('should report invalid task configuration', async () => {
+    vi.mocked(mockConfig.getTasks).mockImplementation(() => {
+      throw new ConfigValidationError('Invalid tasks.release configuration')
+    })
+
+    expect(await command.command()).toBe(1)
+    expect(output(mockStderr)).toContain('Invalid tasks.release configuration')
+  })
+
+  it('should record the timings in the result', async () => {
+    const setResult = vi.spyOn(command, 'setResult')
+
+    await command.command()
+
+    const { timings } = setResult.mock.calls[0][0] as { timings: Array<Record<string, unknown>> }
+    expect(setResult).toHaveBeenCalledWith(expect.objectContaining({ task: 'release' }))
+    expect(timings.map((x) => [x.task, x.step, x.exitCode])).toEqual([
+      ['prepare', 'prepare --no-husky', 0],
+      ['release', 'docker build', 0],
+      ['release', 'notify', 0],
+      ['release', 'aws ecs deploy', 0],
+    ])
+  })
+})
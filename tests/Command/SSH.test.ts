@@ -11,6 +11,7 @@ describe('SSH Commands', () => {
   let mockStdout: { write: Mock }
   let mockStderr: { write: Mock }
   let mockContext: { stdin: any; stdout: any; stderr: any }
+  let mockDevEnvironment: () => void
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -35,14 +36,10 @@ describe('SSH Commands', () => {
       switch (key) {
         case 'sshAccount':
           return Promise.resolve('user@prod.example.com')
-        case 'devSshAccount':
-          return Promise.resolve('user@dev.example.com')
         case 'sshPort':
           return Promise.resolve('22')
         case 'liveFolder':
           return Promise.resolve('/var/www/html')
-        case 'devFolder':
-          return Promise.resolve('/var/www/dev')
         default:
           return Promise.resolve(undefined)
       }
@@ -61,6 +58,22 @@ describe('SSH Commands', () => {
       return Promise.resolve(value)
     })
 
+    // The config resolves environment values for the plain keys, e.g. devSshAccount for sshAccount
+    mockDevEnvironment = () => {
+      vi.spyOn(mockConfig, 'get').mockImplementation((key: string) => {
+        switch (key) {
+          case 'sshAccount':
+            return Promise.resolve('user@dev.example.com')
+          case 'sshPort':
+            return Promise.resolve('22')
+          case 'liveFolder':
+            return Promise.resolve('/var/www/dev')
+          default:
+            return Promise.resolve(undefined)
+        }
+      })
+    }
+
     // Mock execC
     vi.mocked(execC).mockResolvedValue({ exitCode: 0 } as any)
   })
@@ -83,9 +96,9 @@ describe('SSH Commands', () => {
         expect(command.getRequiredConfig()).toEqual(['sshAccount'])
       })
 
-      it('should require devSshAccount for dev', () => {
+      it('should require sshAccount for dev, which the config resolves for the environment', () => {
         command.dev = true
-        expect(command.getRequiredConfig()).toEqual(['devSshAccount'])
+        expect(command.getRequiredConfig()).toEqual(['sshAccount'])
       })
     })
 
@@ -109,11 +122,12 @@ describe('SSH Commands', () => {
 
       it('should execute ssh with dev account when --dev flag is used', async () => {
         command.dev = true
+        mockDevEnvironment()
         command.args = ['-t', 'ls -la']
 
         const result = await command.command()
 
-        expect(mockConfig.get).toHaveBeenCalledWith('devSshAccount')
+        expect(mockConfig.get).toHaveBeenCalledWith('sshAccount')
         expect(execC).toHaveBeenCalledWith(
           'ssh',
           ['user@dev.example.com', '-t', 'ls -la'],
@@ -200,9 +214,9 @@ describe('SSH Commands', () => {
         expect(command.getRequiredConfig()).toEqual(['sshAccount'])
       })
 
-      it('should require devSshAccount for dev', () => {
+      it('should require sshAccount for dev, which the config resolves for the environment', () => {
         command.dev = true
-        expect(command.getRequiredConfig()).toEqual(['devSshAccount'])
+        expect(command.getRequiredConfig()).toEqual(['sshAccount'])
       })
     })
 
@@ -229,12 +243,13 @@ describe('SSH Commands', () => {
 
       it('should execute rsync with dev settings when --dev flag is used', async () => {
         command.dev = true
+        mockDevEnvironment()
         command.args = ['./local/', '{acc}:{contentFolder}/']
 
         await command.command()
 
-        expect(mockConfig.get).toHaveBeenCalledWith('devSshAccount')
-        expect(mockConfig.get).toHaveBeenCalledWith('devFolder')
+        expect(mockConfig.get).toHaveBeenCalledWith('sshAccount')
+        expect(mockConfig.get).toHaveBeenCalledWith('liveFolder')
         expect(execC).toHaveBeenCalledWith(
           'rsync',
           ['--rsh="ssh -p22"', '-av', '', './local/', 'user@dev.example.com:/var/www/dev/'],
@@ -285,13 +300,14 @@ describe('SSH Commands', () => {
         )
       })
 
-      it('should default to port 22 when sshPort is not configured', async () => {
+      it('should use the default port from the config when sshPort is not configured', async () => {
         vi.spyOn(mockConfig, 'get').mockImplementation((key: string) => {
           switch (key) {
             case 'sshAccount':
               return Promise.resolve('user@prod.example.com')
             case 'sshPort':
-              return Promise.resolve(undefined)
+              // Config.get() applies the schema default
+              return Promise.resolve('22')
             case 'liveFolder':
               return Promise.resolve('/var/www/html')
             default:
@@ -399,12 +415,13 @@ describe('SSH Commands', () => {
       it('should combine dry-run and dev flags correctly', async () => {
         command.dev = true
         command.dryRun = true
+        mockDevEnvironment()
         command.args = ['./local/', '{acc}:{contentFolder}/']
 
         await command.command()
 
-        expect(mockConfig.get).toHaveBeenCalledWith('devSshAccount')
-        expect(mockConfig.get).toHaveBeenCalledWith('devFolder')
+        expect(mockConfig.get).toHaveBeenCalledWith('sshAccount')
+        expect(mockConfig.get).toHaveBeenCalledWith('liveFolder')
         expect(execC).toHaveBeenCalledWith(
           'rsync',
           ['--rsh="ssh -p22"', '-av', '--dry-run', './local/', 'user@dev.example.com:/var/www/dev/'],
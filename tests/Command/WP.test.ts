@@ -92,6 +92,15 @@ describe('WPCLICommand', () => {
       expect(result).toBe(0)
     })
 
+    it('should use the configured wp command', async () => {
+      vi.spyOn(mockConfig, 'command').mockResolvedValue('/opt/wp-cli/wp')
+
+      await command.command()
+
+      expect(which).toHaveBeenCalledWith('/opt/wp-cli/wp')
+      expect(execC).toHaveBeenCalledWith('/opt/wp-cli/wp', ['plugin', 'list'], { context: mockContext, reject: false })
+    })
+
     it('should add cli arg when needed', async () => {
       command.wpArgs = ['info']
 
@@ -319,7 +328,7 @@ describe('WPUpdateMergeCommand', () => {
 
     expect(result).toBe(0)
     expect(execC).toHaveBeenCalledTimes(3)
-    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'])
+    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'], { readOnly: true })
     expect(execC).toHaveBeenCalledWith('git', ['switch', 'master'], expect.any(Object))
     expect(execC).toHaveBeenCalledWith('git', ['merge', 'joltWpUpdate/feature-branch'], expect.any(Object))
     expect(mockContext.stdout.write).toHaveBeenCalledWith(expect.stringContaining('Successfully merged'))
@@ -345,7 +354,7 @@ describe('WPUpdateMergeCommand', () => {
 
     expect(result).toBe(0)
     expect(execC).toHaveBeenCalledTimes(3)
-    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'])
+    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'], { readOnly: true })
     expect(execC).toHaveBeenCalledWith('git', ['switch', 'master'], expect.any(Object))
     expect(execC).toHaveBeenCalledWith('git', ['rebase', 'joltWpUpdate/feature-branch'], expect.any(Object))
     expect(mockContext.stdout.write).toHaveBeenCalledWith(expect.stringContaining('WordPress Update Rebase'))
@@ -372,7 +381,7 @@ describe('WPUpdateMergeCommand', () => {
 
     expect(result).toBe(0)
     expect(execC).toHaveBeenCalledTimes(3)
-    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'])
+    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'], { readOnly: true })
     expect(execC).toHaveBeenCalledWith('git', ['switch', 'master'], expect.any(Object))
     expect(execC).toHaveBeenCalledWith('git', ['merge', '--ff-only', 'joltWpUpdate/feature-branch'], expect.any(Object))
     expect(mockContext.stdout.write).toHaveBeenCalledWith(expect.stringContaining('fast-forward only'))
@@ -398,7 +407,7 @@ describe('WPUpdateMergeCommand', () => {
 
     expect(result).toBe(0)
     expect(execC).toHaveBeenCalledTimes(3)
-    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'])
+    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'], { readOnly: true })
     expect(execC).toHaveBeenCalledWith('git', ['switch', 'master'], expect.any(Object))
     expect(execC).toHaveBeenCalledWith('git', ['merge', '--no-ff', 'joltWpUpdate/feature-branch'], expect.any(Object))
     expect(mockContext.stdout.write).toHaveBeenCalledWith(expect.stringContaining('no fast-forward'))
@@ -778,7 +787,7 @@ describe('WPUpdateModifyCommand', () => {
 
     expect(result).toBe(0)
     expect(execC).toHaveBeenCalledTimes(3)
-    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'])
+    expect(execC).toHaveBeenCalledWith('git', ['branch', '--show-current'], { readOnly: true })
     expect(execC).toHaveBeenCalledWith('git', ['rev-list', '--count', 'master..HEAD'], expect.any(Object))
     expect(execC).toHaveBeenCalledWith('git', ['rebase', '-i', 'HEAD~3'], expect.any(Object))
     expect(mockContext.stdout.write).toHaveBeenCalledWith(
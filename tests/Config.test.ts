@@ -1,13 +1,23 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { Config } from '../src/Config.js'
+import { Config, runWithHookResult } from '../src/Config.js'
+import { InterpolationError } from '../src/errors.js'
+import { clearSecrets, redactSecrets } from '../src/secrets.js'
 import * as utils from '../src/utils.js'
 
-vi.mock('../src/utils', () => ({
+vi.mock('../src/utils', async (importOriginal) => ({
+  splitArgs: (await importOriginal<typeof utils>()).splitArgs,
   constToCamel: vi.fn((str) => str.toLowerCase()),
   execC: vi.fn(),
   fileExists: vi.fn(),
-  keyToConst: vi.fn(),
-  replaceAsync: vi.fn(),
+  keyToConst: vi.fn((str: string) =>
+    str
+      .replace(/([a-z])([A-Z])/g, '$1_$2')
+      .replace(/-/g, '_')
+      .toUpperCase(),
+  ),
   which: vi.fn(),
 }))
 
@@ -65,6 +75,67 @@ describe('Config', () => {
       const result = await config.command('docker')
       expect(result).toBe('nerdctl')
     })
+
+    it('should resolve built-in commands by their aliases', async () => {
+      process.env.COMPOSE_COMMAND = 'podman compose'
+      expect(await config.command('docker-compose')).toBe('podman compose')
+    })
+
+    it('should allow newer built-in commands such as npx to be overridden', async () => {
+      process.env.NPX_COMMAND = 'pnpx'
+      expect(await config.command('npx')).toBe('pnpx')
+      expect(await config.command('kubectl')).toBe('kubectl')
+    })
+
+    it('should use the commands config key before the legacy key', async () => {
+      const config = new Config({ commands: { docker: 'podman' }, docker_command: 'nerdctl' })
+
+      expect(await config.getCommandOverride('docker')).toEqual({
+        command: 'podman',
+        source: 'commands.docker',
+        sourceType: 'config',
+      })
+    })
+
+    it('should register custom commands from the commands config key', async () => {
+      const config = new Config({ commands: { helm: 'helm3' } })
+
+      expect(await config.command('helm')).toBe('helm3')
+      expect(config.getCommandNames()).toContain('helm')
+      expect(config.getCommandNames()).toContain('wp')
+
+      process.env.JOLT_HELM_COMMAND = 'helm-dev'
+      expect(await new Config({ commands: { helm: 'helm3' } }).command('helm')).toBe('helm-dev')
+    })
+
+    it('should list the built-in commands in order', () => {
+      expect(config.getCommandNames()).toEqual([
+        'aws',
+        'compose',
+        'composer',
+        'docker',
+        'git',
+        'gzip',
+        'kubectl',
+        'mysql',
+        'node',
+        'npx',
+        'php',
+        'rsync',
+        'ssh',
+        'tofu',
+        'wp',
+        'yarn',
+      ])
+    })
+
+    it('should return unregistered commands as they are', async () => {
+      expect(await config.getCommandOverride('unknown-tool')).toEqual({
+        command: 'unknown-tool',
+        source: 'unknown',
+        sourceType: 'unknown',
+      })
+    })
   })
 
   describe('get', () => {
@@ -91,6 +162,240 @@ describe('Config', () => {
       const result = await config.get('key')
       expect(result).toBe('siteValue')
     })
+
+    it('should inherit values from the site that a site extends', async () => {
+      const config = new Config({
+        ecsCluster: 'root',
+        sites: {
+          staging: { ecsCluster: 'staging', ecsService: 'staging-svc', dockerBuildArgs: { ENV: 'staging' } },
+          preview: { extends: 'staging', ecsService: 'preview-svc' },
+        },
+      })
+      config.setSite('preview')
+
+      expect(await config.get('ecsService')).toBe('preview-svc')
+      expect(await config.get('ecsCluster')).toBe('staging')
+      expect(await config.get('dockerBuildArgs')).toEqual({ ENV: 'staging' })
+    })
+
+    it('should report circular site inheritance', async () => {
+      const config = new Config({ sites: { a: { extends: 'b' }, b: { extends: 'a' } } })
+      config.setSite('a')
+
+      await expect(config.get('imageName')).rejects.toThrow('Circular site extends: a -> b -> a')
+    })
+
+    it('should use prepareCommands from the current site', () => {
+      const config = new Config({
+        prepareCommands: ['root'],
+        sites: { staging: { prepareCommands: [{ cmd: 'site', fail: false, timing: 'early', hidden: false }] } },
+      })
+      config.setSite('staging')
+
+      expect(config.getPrepareCommands()).toEqual([{ cmd: 'site', fail: false, timing: 'early', hidden: false }])
+    })
+
+    it('should apply schema defaults for known keys', async () => {
+      expect(await config.get('sshPort')).toBe('22')
+      expect(await config.get('nexcessDeployScript')).toBe('bin/nexcess-deploy-script.sh')
+      expect(await config.get('dockerBuildArgs')).toEqual({})
+      expect(config.has('sshPort')).toBe(false)
+    })
+
+    it('should prefer configured values over schema defaults', async () => {
+      const config = new Config({ sshPort: '2222' })
+      expect(await config.get('sshPort')).toBe('2222')
+    })
+
+    it('should parse placeholders inside arrays and objects', async () => {
+      const config = new Config({
+        imageName: 'app',
+        dockerBuildArgs: { IMAGE: '{conf:imageName}' },
+        prepareCommands: ['echo {conf:imageName}', { cmd: 'build {conf:imageName}', fail: false }],
+      })
+      vi.spyOn(config, 'parseArg').mockImplementation(async (value) => value.replace('{conf:imageName}', 'app'))
+
+      expect(await config.get('dockerBuildArgs')).toEqual({ IMAGE: 'app' })
+      expect(await config.get('prepareCommands')).toEqual(['echo app', { cmd: 'build app', fail: false }])
+    })
+  })
+
+  describe('environments', () => {
+    it('should use values from the current environment first', async () => {
+      const config = new Config({
+        awsRegion: 'eu-west-1',
+        ecsCluster: 'production',
+        environments: { uat: { ecsCluster: 'uat', awsRegion: 'eu-west-2' } },
+      })
+      config.setEnvironment('uat')
+
+      expect(config.environment).toBe('uat')
+      expect(await config.get('ecsCluster')).toBe('uat')
+      expect(await config.get('awsRegion')).toBe('eu-west-2')
+    })
+
+    it('should fall back to the root config for shared keys', async () => {
+      const config = new Config({ awsRegion: 'eu-west-2', environments: { uat: { ecsCluster: 'uat' } } })
+      config.setEnvironment('uat')
+
+      expect(await config.get('awsRegion')).toBe('eu-west-2')
+      expect(await config.get('sshPort')).toBe('22')
+    })
+
+    it('should not fall back to production values for deployment targets', async () => {
+      const config = new Config({ ecsCluster: 'production', sshAccount: 'live@example.com', environments: { uat: {} } })
+      config.setEnvironment('uat')
+
+      expect(await config.get('ecsCluster')).toBeUndefined()
+      expect(config.has('sshAccount')).toBe(false)
+    })
+
+    it('should support the legacy dev-prefixed keys', async () => {
+      const config = new Config({
+        ecsCluster: 'production',
+        devEcsCluster: 'dev-cluster',
+        liveFolder: '/srv/live',
+        devFolder: '/srv/dev',
+      })
+      config.setEnvironment('dev')
+
+      expect(config.hasEnvironment('dev')).toBe(true)
+      expect(await config.get('ecsCluster')).toBe('dev-cluster')
+      expect(await config.get('liveFolder')).toBe('/srv/dev')
+    })
+
+    it('should prefer environment keys within the current site', async () => {
+      const config = new Config({
+        environments: { uat: { ecsCluster: 'uat' } },
+        sites: { staging: { ecsCluster: 'staging', uatEcsCluster: 'staging-uat' } },
+      })
+      config.setSite('staging')
+      config.setEnvironment('uat')
+
+      expect(await config.get('ecsCluster')).toBe('staging-uat')
+    })
+
+    it('should only know about configured environments and dev', () => {
+      const config = new Config({ environments: { uat: {} } })
+
+      expect(config.hasEnvironment('uat')).toBe(true)
+      expect(config.hasEnvironment('dev')).toBe(true)
+      expect(config.hasEnvironment('qa')).toBe(false)
+    })
+
+    it('should name Docker images after the environment', async () => {
+      const config = new Config({ imageName: 'app', environments: { uat: {}, qa: { imageName: 'qa-app' } } })
+
+      config.setEnvironment('uat')
+      expect(await config.getDockerImageName()).toBe('app-uat')
+
+      config.setEnvironment('qa')
+      expect(await config.getDockerImageName()).toBe('qa-app')
+      expect(await config.getDockerImageName(false)).toBe('app')
+    })
+
+    it('should only use Terraform outputs for the environment', async () => {
+      const config = new Config()
+      const tfVar = vi
+        .spyOn(config, 'tfVar')
+        .mockImplementation(async (key) =>
+          key === 'ecs_cluster_uat' ? 'tf-uat' : key === 'ecs_cluster' ? 'tf-production' : undefined,
+        )
+
+      expect(await config.environmentTfVar('ecs_cluster')).toBe('tf-production')
+
+      config.setEnvironment('uat')
+      expect(await config.environmentTfVar('ecs_cluster')).toBe('tf-uat')
+      expect(await config.environmentTfVar('ecs_service')).toBeUndefined()
+      expect(tfVar).toHaveBeenCalledWith('uat_ecs_cluster')
+      expect(tfVar).not.toHaveBeenCalledWith('ecs_service')
+    })
+  })
+
+  describe('environment variable overrides', () => {
+    it('should override root keys with JOLT_ variables', async () => {
+      process.env.JOLT_ECS_CLUSTER = 'ci-cluster'
+      const config = new Config({ ecsCluster: 'cluster', sites: { staging: { ecsCluster: 'staging' } } })
+
+      expect(config.has('ecsCluster')).toBe(true)
+      expect(await config.get('ecsCluster')).toBe('ci-cluster')
+
+      config.setSite('staging')
+      expect(await config.get('ecsCluster')).toBe('ci-cluster')
+    })
+
+    it('should override site keys with JOLT_SITE_ variables', async () => {
+      process.env.JOLT_SITE_CLIENT_A__SSH_ACCOUNT = 'deploy@ci'
+      process.env.JOLT_SSH_ACCOUNT = 'root@ci'
+      const config = new Config({ sites: { 'client-a': {}, 'client-b': {} } })
+
+      config.setSite('client-a')
+      expect(await config.get('sshAccount')).toBe('deploy@ci')
+
+      config.setSite('client-b')
+      expect(await config.get('sshAccount')).toBe('root@ci')
+    })
+
+    it('should not use plain JOLT_ variables for deployment targets in an environment', async () => {
+      process.env.JOLT_ECS_CLUSTER = 'ci-cluster'
+      process.env.JOLT_AWS_REGION = 'us-east-1'
+      const config = new Config({ environments: { uat: { ecsCluster: 'uat-cluster' } } })
+      config.setEnvironment('uat')
+
+      expect(await config.get('ecsCluster')).toBe('uat-cluster')
+      expect(await config.get('awsRegion')).toBe('us-east-1')
+
+      config.setEnvironment('staging')
+      expect(await config.get('ecsCluster')).toBeUndefined()
+    })
+
+    it('should override keys in an environment with JOLT_<ENVIRONMENT>_ variables', async () => {
+      process.env.JOLT_DEV_ECS_CLUSTER = 'ci-dev-cluster'
+      process.env.JOLT_SITE_BLOG__UAT_SSH_ACCOUNT = 'deploy@uat'
+      const config = new Config({ devEcsCluster: 'dev-cluster', environments: { uat: {} }, sites: { blog: {} } })
+
+      config.setEnvironment('dev')
+      expect(await config.get('ecsCluster')).toBe('ci-dev-cluster')
+      expect((await config.explain('ecsCluster')).selected).toEqual({
+        path: 'JOLT_DEV_ECS_CLUSTER',
+        label: 'Env var for the dev environment',
+        value: 'ci-dev-cluster',
+      })
+
+      config.setEnvironment('uat')
+      config.setSite('blog')
+      expect(await config.get('sshAccount')).toBe('deploy@uat')
+    })
+
+    it('should parse JSON arrays and objects', async () => {
+      process.env.JOLT_DOCKER_BUILD_ARGS = '{"NPM_TOKEN":"abc"}'
+      const config = new Config({ dockerBuildArgs: { NPM_TOKEN: 'old' } })
+
+      expect(await config.get('dockerBuildArgs')).toEqual({ NPM_TOKEN: 'abc' })
+    })
+
+    it('should list the overrides for the root and each site', () => {
+      process.env.JOLT_IMAGE_NAME = 'ci-image'
+      process.env.JOLT_CUSTOM_KEY = 'custom'
+      process.env.JOLT_SITE_STAGING__ECS_SERVICE = 'staging-svc'
+      process.env.JOLT_SITES = '{}'
+      const config = new Config({ customKey: 'value', sites: { staging: {} } })
+
+      expect(config.getEnvOverrides()).toEqual({
+        imageName: { varName: 'JOLT_IMAGE_NAME', value: 'ci-image' },
+        customKey: { varName: 'JOLT_CUSTOM_KEY', value: 'custom' },
+      })
+      expect(config.getEnvOverrides('staging')).toEqual({
+        ecsService: { varName: 'JOLT_SITE_STAGING__ECS_SERVICE', value: 'staging-svc' },
+      })
+    })
+
+    it('should show the variable as the source in explain', async () => {
+      process.env.JOLT_ECS_SERVICE = 'ci-svc'
+      const explanation = await new Config({ ecsService: 'svc' }).explain('ecsService')
+
+      expect(explanation.selected).toEqual({ path: 'JOLT_ECS_SERVICE', label: 'Env var', value: 'ci-svc' })
+    })
   })
 
   describe('tfVar', () => {
@@ -132,6 +437,143 @@ describe('Config', () => {
       const result = await config.tfVar('nonexistent')
       expect(result).toBeUndefined()
     })
+
+    it('should keep structured outputs as JSON', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({
+        stdout: JSON.stringify({
+          ecs: { sensitive: false, type: ['object', {}], value: { cluster: 'app-cluster', service: 'app' } },
+          subnet_ids: { sensitive: false, type: ['list', 'string'], value: ['subnet-a', 'subnet-b'] },
+        }),
+      } as any)
+
+      expect(await config.tfVar('ecs')).toEqual({ cluster: 'app-cluster', service: 'app' })
+      expect(await config.tfVar('ecs.cluster')).toBe('app-cluster')
+      expect(await config.tfVar('subnet_ids[1]')).toBe('subnet-b')
+      expect(await config.tfVar('ecs.missing')).toBeUndefined()
+    })
+
+    it('should redact sensitive outputs', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({
+        stdout: JSON.stringify({
+          db: {
+            sensitive: true,
+            type: ['object', {}],
+            value: { user: 'admin', password: 'hunter22', port: 5432, ssl: true },
+          },
+        }),
+      } as any)
+
+      expect(await config.tfVar('db.password')).toBe('hunter22')
+      expect(redactSecrets('password=hunter22')).toBe('password=********')
+      expect(redactSecrets('{"port": 5432, "dryRun": true}')).toBe('{"port": 5432, "dryRun": true}')
+      clearSecrets()
+    })
+
+    it('should read outputs from the configured directory and workspace', async () => {
+      const config = new Config({ terraformDir: 'infra', terraformWorkspace: 'staging' })
+
+      expect(await config.tfVar('test_var')).toBe('test_value')
+      expect(utils.execC).toHaveBeenCalledWith(expect.anything(), ['output', '-json'], {
+        cwd: path.resolve('infra'),
+        env: { TF_WORKSPACE: 'staging' },
+        readOnly: true,
+      })
+    })
+
+    it('should cache outputs separately for each workspace', async () => {
+      const config = new Config({
+        sites: { one: { terraformWorkspace: 'one' }, two: { terraformWorkspace: 'two' } },
+      })
+
+      config.setSite('one')
+      await config.tfVar('test_var')
+      await config.tfVar('test_var')
+      config.setSite('two')
+      await config.tfVar('test_var')
+
+      expect(utils.execC).toHaveBeenCalledTimes(2)
+      expect(utils.execC).toHaveBeenLastCalledWith(expect.anything(), ['output', '-json'], {
+        cwd: path.resolve('.'),
+        env: { TF_WORKSPACE: 'two' },
+        readOnly: true,
+      })
+    })
+  })
+
+  describe('asJson', () => {
+    const siteConfig = {
+      imageName: 'app',
+      sites: {
+        staging: { imageName: 'staging-app', dockerBuildArgs: { ENV: 'staging' } },
+        preview: { extends: 'staging', ecsService: 'preview' },
+      },
+    }
+
+    it('should flatten inherited site values into prefixed keys', () => {
+      const config = new Config(siteConfig)
+
+      expect(JSON.parse(config.asJson())).toMatchObject({
+        imageName: 'app',
+        stagingImageName: 'staging-app',
+        previewImageName: 'staging-app',
+        previewDockerBuildArgs: { ENV: 'staging' },
+        previewEcsService: 'preview',
+      })
+    })
+
+    it('should prefer site values over root values for the current site', () => {
+      const config = new Config(siteConfig)
+      config.setSite('preview')
+
+      expect(JSON.parse(config.asJson())).toMatchObject({ imageName: 'staging-app', ecsService: 'preview' })
+    })
+  })
+
+  describe('gitVar', () => {
+    const gitOutputs: Record<string, string> = {
+      'rev-parse HEAD': '0123456789abcdef',
+      'rev-parse --abbrev-ref HEAD': 'feature/New Thing',
+      'status --porcelain': ' M src/Config.ts',
+      'log -1 --format=%ct': '1700000000',
+    }
+
+    beforeEach(() => {
+      vi.mocked(utils.execC).mockImplementation(async (_command, args) => {
+        const output = gitOutputs[args.join(' ')]
+        return (output === undefined ? { failed: true, stdout: '' } : { failed: false, stdout: `${output}\n` }) as any
+      })
+    })
+
+    it('should return commit SHAs', async () => {
+      expect(await config.gitVar('longSha')).toBe('0123456789abcdef')
+      expect(await config.gitVar('shortSha')).toBe('01234567')
+    })
+
+    it('should return the branch and its slug', async () => {
+      expect(await config.gitVar('branch')).toBe('feature/New Thing')
+      expect(await config.gitVar('branchSlug')).toBe('feature-new-thing')
+    })
+
+    it('should report whether the working tree is dirty', async () => {
+      expect(await config.gitVar('dirty')).toBe('true')
+    })
+
+    it('should return commit details', async () => {
+      expect(await config.gitVar('commitTimestamp')).toBe('1700000000')
+    })
+
+    it('should return undefined when the command fails or the variable is unknown', async () => {
+      expect(await config.gitVar('tag')).toBeUndefined()
+      expect(await config.gitVar('nonsense')).toBeUndefined()
+    })
+
+    it('should only run each git command once', async () => {
+      await config.gitVar('sha')
+      await config.gitVar('longSha')
+      await config.gitVar('fullSha')
+
+      expect(utils.execC).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('getDockerImageName', () => {
@@ -268,6 +710,85 @@ describe('Config', () => {
     })
   })
 
+  describe('getHooks', () => {
+    it('should return the hooks for a command path', () => {
+      const config = new Config({
+        hooks: {
+          'aws ecs deploy': {
+            after: ['yarn jolt aws cloudfront invalidate', { cmd: 'notify', fail: false }],
+          },
+        },
+      })
+
+      expect(config.getHooks('aws ecs deploy')).toEqual({
+        before: [],
+        after: [
+          { cmd: 'yarn jolt aws cloudfront invalidate', fail: true, timing: 'normal', hidden: false },
+          { cmd: 'notify', fail: false, timing: 'normal', hidden: false },
+        ],
+        onError: [],
+      })
+      expect(config.getHooks('docker build')).toBeUndefined()
+    })
+
+    it('should use the hooks for the current site', () => {
+      const config = new Config({
+        hooks: { 'db reset': { after: ['root'] } },
+        sites: { staging: { hooks: { 'db reset': { after: ['yarn jolt cache flush'] } } } },
+      })
+      config.setSite('staging')
+
+      expect(config.getHooks('db reset')?.after.map((x) => x.cmd)).toEqual(['yarn jolt cache flush'])
+    })
+
+    it('should throw ConfigValidationError for invalid hooks', () => {
+      const config = new Config({ hooks: { 'docker build': { before: [{ name: 'no command' }] } } })
+
+      expect(() => config.getHooks('docker build')).toThrow('Invalid hooks.docker build configuration')
+    })
+  })
+
+  describe('getTasks', () => {
+    it('should expand task steps and fill in defaults', () => {
+      const config = new Config({
+        tasks: {
+          release: {
+            description: 'Build and deploy',
+            steps: ['docker build', { command: 'aws cf invalidate', name: 'invalidate', continueOnError: true }],
+            dependsOn: ['prepare'],
+          },
+          lint: { steps: ['cmd "yarn lint"'] },
+        },
+      })
+
+      expect(config.getTasks()).toEqual({
+        release: {
+          description: 'Build and deploy',
+          steps: [
+            { command: 'docker build', name: 'docker build', continueOnError: false },
+            { command: 'aws cf invalidate', name: 'invalidate', continueOnError: true },
+          ],
+          dependsOn: ['prepare'],
+        },
+        lint: {
+          description: undefined,
+          steps: [{ command: 'cmd "yarn lint"', name: 'cmd "yarn lint"', continueOnError: false }],
+          dependsOn: [],
+        },
+      })
+    })
+
+    it('should return no tasks when none are configured', () => {
+      expect(new Config({}).getTasks()).toEqual({})
+    })
+
+    it('should throw ConfigValidationError for invalid tasks', () => {
+      const config = new Config({ tasks: { release: { steps: [{ name: 'no command' }] } } })
+
+      expect(() => config.getTasks()).toThrow('Invalid tasks.release configuration')
+    })
+  })
+
   describe('getDockerfilePath', () => {
     it('should return configured dockerFile when explicitly set', async () => {
       const config = new Config({ dockerFile: 'custom.Dockerfile' })
@@ -518,12 +1039,9 @@ describe('Config', () => {
   })
 
   describe('parseArg with site variables', () => {
-    beforeEach(async () => {
+    beforeEach(() => {
       // Restore the real parseArg implementation for these tests
       vi.spyOn(Config.prototype, 'parseArg').mockRestore()
-      // Use the real replaceAsync from utils
-      const realUtils = await vi.importActual<typeof utils>('../src/utils.js')
-      vi.mocked(utils.replaceAsync).mockImplementation(realUtils.replaceAsync)
     })
 
     afterEach(() => {
@@ -630,4 +1148,242 @@ describe('Config', () => {
       expect(result).toBe('Deploy target: prod-us-west-2')
     })
   })
+
+  describe('parseArg interpolation', () => {
+    beforeEach(() => {
+      vi.spyOn(Config.prototype, 'parseArg').mockRestore()
+    })
+
+    afterEach(() => {
+      vi.spyOn(Config.prototype, 'parseArg').mockImplementation(function (this: Config, value: string) {
+        return Promise.resolve(value)
+      })
+    })
+
+    it('should resolve the result of the command that hooks are running for', async () => {
+      const config = new Config({})
+      const deploy = { command: 'aws ecs deploy', exitCode: 0, consoleUrls: { ecsService: 'https://console' } }
+      const failed = { command: 'aws ecs deploy', exitCode: 2 }
+
+      expect(
+        await runWithHookResult(deploy, () => config.parseArg('{result:exitCode} {result:consoleUrls.ecsService}')),
+      ).toBe('0 https://console')
+      expect(await runWithHookResult(failed, () => config.parseArg('{result:exitCode} {result:error|none}'))).toBe(
+        '2 none',
+      )
+      expect(await config.parseArg('{result:exitCode}')).toBe('{result:exitCode}')
+    })
+
+    it('should explain each candidate and the placeholders that were resolved', async () => {
+      const config = new Config(
+        {
+          liveFolder: '/srv/live',
+          stagingLiveFolder: '{conf:baseFolder}/staging',
+          baseFolder: '/srv',
+          sites: { staging: {} },
+        },
+        undefined,
+        { liveFolder: '.jolt.json', stagingLiveFolder: '.jolt.local.json' },
+      )
+      config.setSite('staging')
+
+      const explanation = await config.explain('liveFolder')
+
+      expect(explanation.candidates).toEqual([
+        {
+          path: 'JOLT_SITE_STAGING__LIVE_FOLDER',
+          label: 'Env var for the staging site',
+          value: undefined,
+          source: undefined,
+        },
+        { path: 'JOLT_LIVE_FOLDER', label: 'Env var', value: undefined, source: undefined },
+        { path: 'sites.staging.liveFolder', label: 'Site "staging"', value: undefined, source: undefined },
+        {
+          path: 'stagingLiveFolder',
+          label: 'Root key for the staging site',
+          value: '{conf:baseFolder}/staging',
+          source: '.jolt.local.json',
+        },
+        { path: 'liveFolder', label: 'Root config', value: '/srv/live', source: '.jolt.json' },
+      ])
+      expect(explanation.selected?.path).toBe('stagingLiveFolder')
+      expect(explanation.value).toBe('/srv/staging')
+      expect(explanation.trace).toEqual([
+        {
+          lookup: '{conf:baseFolder}',
+          value: '/srv',
+          children: [{ lookup: 'conf:baseFolder', value: '/srv', children: [] }],
+        },
+      ])
+    })
+
+    it('should explain that deployment targets only use the environment', async () => {
+      const config = new Config({ ecsCluster: 'production', environments: { uat: {} } })
+      config.setEnvironment('uat')
+
+      const explanation = await config.explain('ecsCluster')
+
+      expect(explanation.environmentOnly).toBe(true)
+      expect(explanation.candidates.map((x) => x.path)).toEqual([
+        'JOLT_UAT_ECS_CLUSTER',
+        'environments.uat.ecsCluster',
+        'uatEcsCluster',
+      ])
+      expect(explanation.value).toBeUndefined()
+    })
+
+    it('should explain the Terraform fallbacks used for the image name', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({
+        stdout: JSON.stringify({ docker_image_name: { sensitive: false, type: 'string', value: 'tf-app' } }),
+      } as any)
+      const config = new Config({ environments: { uat: {} } })
+      config.setEnvironment('uat')
+
+      const explanation = await config.explain('imageName')
+
+      expect(explanation.helper?.name).toBe('getDockerImageName')
+      expect(explanation.helper?.value).toBe('tf-app-uat')
+      expect(explanation.helper?.trace.map((x) => x.lookup)).toEqual([
+        'tf:uat_docker_image_name',
+        'tf:docker_image_name_uat',
+        'tf:docker_image_name',
+      ])
+    })
+
+    it('should only use Terraform outputs that are strings as the image name', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({
+        stdout: JSON.stringify({
+          docker_image_name: { sensitive: false, type: ['list', 'string'], value: ['app-a', 'app-b'] },
+        }),
+      } as any)
+      const config = new Config()
+
+      expect(await config.tfVar('docker_image_name')).toEqual(['app-a', 'app-b'])
+      expect(await config.getDockerImageName()).toBeUndefined()
+    })
+
+    it('should require lists and maps from Terraform to be converted explicitly', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({
+        stdout: JSON.stringify({
+          ecs: { sensitive: false, type: ['object', {}], value: { cluster: 'app-cluster' } },
+          subnet_ids: { sensitive: false, type: ['list', 'string'], value: ['subnet-a', 'subnet-b'] },
+        }),
+      } as any)
+      const config = new Config()
+
+      expect(await config.parseArg('{tf:ecs.cluster}')).toBe('app-cluster')
+      expect(await config.parseArg('{tf:subnet_ids[0]}')).toBe('subnet-a')
+      expect(await config.parseArg('{tf:subnet_ids|join:,}')).toBe('subnet-a,subnet-b')
+      expect(await config.parseArg('{tf:ecs|json}')).toBe('{"cluster":"app-cluster"}')
+      await expect(config.parseArg('{tf:subnet_ids}')).rejects.toThrow(InterpolationError)
+    })
+
+    it('should use the first config value that is set', async () => {
+      const config = new Config({ liveFolder: '/srv/live' })
+
+      expect(await config.parseArg('{conf:devFolder|conf:liveFolder|/var/www}')).toBe('/srv/live')
+      expect(await config.parseArg('{conf:devFolder|/var/www}')).toBe('/var/www')
+    })
+
+    it('should apply filters and resolve nested placeholders', async () => {
+      const config = new Config({ sites: { staging: { folder: 'Staging Site' } } })
+      config.setSite('staging')
+
+      expect(await config.parseArg('{conf:folder|slug}')).toBe('staging-site')
+      expect(await config.parseArg('{site:name|upper}')).toBe('STAGING')
+      expect(await config.parseArg('{arg:{site:name}Arg}', { stagingArg: 'nested' })).toBe('nested')
+    })
+
+    it('should detect config values that reference themselves', async () => {
+      const config = new Config({ a: '{conf:b}', b: 'x{conf:a}' })
+
+      await expect(config.get('a')).rejects.toThrow('Circular config reference: b -> a -> b')
+    })
+  })
+
+  describe('secret providers', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      vi.spyOn(Config.prototype, 'parseArg').mockRestore()
+      dir = await mkdtemp(path.join(tmpdir(), 'jolt-secrets-'))
+    })
+
+    afterEach(async () => {
+      vi.spyOn(Config.prototype, 'parseArg').mockImplementation(function (this: Config, value: string) {
+        return Promise.resolve(value)
+      })
+      clearSecrets()
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('should read environment variables', async () => {
+      process.env.DB_PASSWORD = 'hunter22'
+
+      expect(await config.parseArg('{env:DB_PASSWORD}')).toBe('hunter22')
+      expect(await config.parseArg('{env:MISSING|default}')).toBe('default')
+      expect(redactSecrets('pass=hunter22')).toBe('pass=hunter22')
+    })
+
+    it('should only mask environment variables with the mask filter', async () => {
+      process.env.HOME_DIR = '/home/jolt'
+      process.env.DB_PASSWORD = 'hunter22'
+
+      expect(await config.parseArg('{env:HOME_DIR}')).toBe('/home/jolt')
+      expect(await config.parseArg('{env:DB_PASSWORD|mask}')).toBe('hunter22')
+      expect(redactSecrets('/home/jolt pass=hunter22')).toBe('/home/jolt pass=********')
+    })
+
+    it('should read trimmed file contents', async () => {
+      const file = path.join(dir, 'secret.txt')
+      await writeFile(file, 'file-secret\n')
+
+      expect(await config.parseArg(`{file:${file}}`)).toBe('file-secret')
+      expect(await config.parseArg(`{file:${path.join(dir, 'missing')}|none}`)).toBe('none')
+    })
+
+    it('should fetch SSM parameters using the aws command override', async () => {
+      process.env.AWS_COMMAND = 'fake-aws'
+      vi.mocked(utils.execC).mockResolvedValue({ stdout: 'ssm-value\n', failed: false } as any)
+
+      expect(await config.parseArg('{ssm:/app/db-pass}')).toBe('ssm-value')
+      expect(await config.parseArg('pass={ssm:/app/db-pass}')).toBe('pass=ssm-value')
+      expect(utils.execC).toHaveBeenCalledTimes(1)
+      expect(utils.execC).toHaveBeenCalledWith(
+        'fake-aws',
+        [
+          'ssm',
+          'get-parameter',
+          '--name=/app/db-pass',
+          '--with-decryption',
+          '--query=Parameter.Value',
+          '--output=text',
+          '--region=eu-west-1',
+        ],
+        { shell: false, reject: false, readOnly: true },
+      )
+    })
+
+    it('should pass on arguments from the aws command override', async () => {
+      process.env.AWS_COMMAND = 'aws --profile client'
+      vi.mocked(utils.execC).mockResolvedValue({ stdout: 'ssm-value\n', failed: false } as any)
+
+      expect(await config.parseArg('{ssm:/app/db-pass}')).toBe('ssm-value')
+      expect(vi.mocked(utils.execC).mock.calls[0][0]).toBe('aws')
+      expect(vi.mocked(utils.execC).mock.calls[0][1]?.slice(0, 3)).toEqual(['--profile', 'client', 'ssm'])
+    })
+
+    it('should fetch a key from a Secrets Manager JSON secret', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({ stdout: '{"password":"sm-secret"}', failed: false } as any)
+
+      expect(await config.parseArg('{secretsmanager:app/db#password}')).toBe('sm-secret')
+      expect(vi.mocked(utils.execC).mock.calls[0][1]).toContain('--secret-id=app/db')
+    })
+
+    it('should leave the placeholder when the lookup fails', async () => {
+      vi.mocked(utils.execC).mockResolvedValue({ stdout: '', failed: true } as any)
+
+      expect(await config.parseArg('{ssm:/missing}')).toBe('{ssm:/missing}')
+    })
+  })
 })
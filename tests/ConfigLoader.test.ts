@@ -0,0 +1,292 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { homedir, tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { findProjectRoot, getUserConfigDir, loadConfig, mergeConfig } from '../src/ConfigLoader.js'
+import { ConfigValidationError } from '../src/errors.js'
+
+describe('ConfigLoader', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'jolt-config-'))
+    // Keep the real user config out of the tests
+    process.env.XDG_CONFIG_HOME = path.join(dir, 'xdg')
+  })
+
+  afterEach(async () => {
+    delete process.env.XDG_CONFIG_HOME
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('loadConfig', () => {
+    it('should return an empty config when no files exist', async () => {
+      const result = await loadConfig(dir)
+
+      expect(result.config).toEqual({})
+      expect(result.files).toEqual([])
+    })
+
+    it('should merge .env values over .jolt.json', async () => {
+      await writeFile(path.join(dir, '.jolt.json'), JSON.stringify({ imageName: 'app', dbPass: 'committed' }))
+      await writeFile(path.join(dir, '.env'), 'DB_PASS=local\nCOMPOSE_COMMAND=podman compose\n')
+
+      const { config, provenance, files, projectFile } = await loadConfig(dir)
+
+      expect(config).toEqual({ imageName: 'app', dbPass: 'local', composeCommand: 'podman compose' })
+      expect(provenance.imageName).toBe(path.join(dir, '.jolt.json'))
+      expect(provenance.dbPass).toBe(path.join(dir, '.env'))
+      expect(files).toEqual([path.join(dir, '.jolt.json'), path.join(dir, '.env')])
+      expect(projectFile).toBe(path.join(dir, '.jolt.json'))
+    })
+
+    it('should merge files in the defined order', async () => {
+      await mkdir(path.join(dir, 'bin'))
+      await writeFile(path.join(dir, '.jolt.json'), JSON.stringify({ a: 'json', b: 'json', c: 'json', d: 'json' }))
+      await writeFile(path.join(dir, '.jolt.local.json'), JSON.stringify({ b: 'local', c: 'local', d: 'local' }))
+      await writeFile(path.join(dir, 'bin', '.env'), 'C=bin\nD=bin\n')
+      await writeFile(path.join(dir, '.env'), 'D=env\n')
+
+      const { config } = await loadConfig(dir)
+
+      expect(config).toEqual({ a: 'json', b: 'local', c: 'bin', d: 'env' })
+    })
+
+    it('should deep merge site config and track nested provenance', async () => {
+      await writeFile(
+        path.join(dir, '.jolt.json'),
+        JSON.stringify({ sites: { staging: { ecsCluster: 'staging', ecsService: 'svc' } } }),
+      )
+      await writeFile(
+        path.join(dir, '.jolt.local.json'),
+        JSON.stringify({ sites: { staging: { ecsCluster: 'mine' } } }),
+      )
+
+      const { config, provenance } = await loadConfig(dir)
+
+      expect(config.sites).toEqual({ staging: { ecsCluster: 'mine', ecsService: 'svc' } })
+      expect(provenance['sites.staging.ecsCluster']).toBe(path.join(dir, '.jolt.local.json'))
+      expect(provenance['sites.staging.ecsService']).toBe(path.join(dir, '.jolt.json'))
+    })
+
+    it('should load YAML config files', async () => {
+      await writeFile(
+        path.join(dir, '.jolt.yaml'),
+        '# Shared config\nimageName: app\nwpUpdates:\n  doNotUpdate:\n    - akismet # Pinned\n',
+      )
+
+      const { config, files, projectFile } = await loadConfig(dir)
+
+      expect(config).toEqual({ imageName: 'app', wpUpdates: { doNotUpdate: ['akismet'] } })
+      expect(files).toEqual([path.join(dir, '.jolt.yaml')])
+      expect(projectFile).toBe(path.join(dir, '.jolt.yaml'))
+    })
+
+    it('should load TypeScript config files, including computed configs', async () => {
+      await writeFile(
+        path.join(dir, 'jolt.config.ts'),
+        "const region: string = 'eu-west-2'\nexport default async () => ({ awsRegion: region, imageName: 'app-' + region })\n",
+      )
+      await writeFile(path.join(dir, '.jolt.local.json'), JSON.stringify({ imageName: 'local' }))
+
+      const { config, provenance } = await loadConfig(dir)
+
+      expect(config).toEqual({ awsRegion: 'eu-west-2', imageName: 'local' })
+      expect(provenance.awsRegion).toBe(path.join(dir, 'jolt.config.ts'))
+    })
+
+    it('should reject config modules that do not export an object', async () => {
+      await writeFile(path.join(dir, 'jolt.config.mjs'), "export default 'nope'\n")
+
+      await expect(loadConfig(dir)).rejects.toThrow(ConfigValidationError)
+    })
+
+    it('should skip empty files', async () => {
+      await writeFile(path.join(dir, '.jolt.json'), '')
+      await writeFile(path.join(dir, '.env'), 'IMAGE_NAME=app\n')
+
+      const { config, files, projectFile } = await loadConfig(dir)
+
+      expect(config).toEqual({ imageName: 'app' })
+      expect(files).toEqual([path.join(dir, '.env')])
+      expect(projectFile).toBe(path.join(dir, '.jolt.json'))
+    })
+  })
+
+  describe('findProjectRoot', () => {
+    it('should find the nearest directory with a config file', async () => {
+      const themeDir = path.join(dir, 'code', 'wp-content', 'themes', 'theme')
+      await mkdir(themeDir, { recursive: true })
+      await mkdir(path.join(dir, '.git'))
+      await writeFile(path.join(dir, 'code', '.jolt.yaml'), 'imageName: app\n')
+
+      expect(await findProjectRoot(themeDir)).toBe(path.join(dir, 'code'))
+    })
+
+    it('should stop at the Git root', async () => {
+      const themeDir = path.join(dir, 'code', 'themes')
+      await mkdir(themeDir, { recursive: true })
+      await writeFile(path.join(dir, '.git'), 'gitdir: ../.git/worktrees/app\n')
+
+      expect(await findProjectRoot(themeDir)).toBe(dir)
+    })
+  })
+
+  describe('config file option', () => {
+    it('should load the given file instead of the project config, keeping local overrides', async () => {
+      await writeFile(path.join(dir, '.jolt.json'), JSON.stringify({ imageName: 'default', awsRegion: 'eu-west-1' }))
+      await writeFile(path.join(dir, 'ci.jolt.json'), JSON.stringify({ imageName: 'ci' }))
+      await writeFile(path.join(dir, '.env'), 'AWS_REGION=eu-west-2\n')
+
+      const { config, files, projectFile } = await loadConfig(dir, 'ci.jolt.json')
+
+      expect(config).toEqual({ imageName: 'ci', awsRegion: 'eu-west-2' })
+      expect(files).toEqual([path.join(dir, 'ci.jolt.json'), path.join(dir, '.env')])
+      expect(projectFile).toBe(path.join(dir, 'ci.jolt.json'))
+    })
+
+    it('should report a config file that does not exist', async () => {
+      await expect(loadConfig(dir, 'missing.json')).rejects.toThrow(ConfigValidationError)
+    })
+
+    it('should report a config file of an unknown type', async () => {
+      await writeFile(path.join(dir, 'jolt.txt'), 'imageName: ci\n')
+
+      await expect(loadConfig(dir, 'jolt.txt')).rejects.toThrow(ConfigValidationError)
+    })
+  })
+
+  describe('user config', () => {
+    it('should use XDG_CONFIG_HOME or ~/.config', () => {
+      expect(getUserConfigDir()).toBe(path.join(dir, 'xdg', 'jolt'))
+
+      process.env.XDG_CONFIG_HOME = 'relative'
+      expect(getUserConfigDir()).toBe(path.join(homedir(), '.config', 'jolt'))
+    })
+
+    it('should merge the user config underneath the project config', async () => {
+      const userDir = path.join(dir, 'xdg', 'jolt')
+      await mkdir(userDir, { recursive: true })
+      await writeFile(path.join(userDir, 'config.yaml'), 'composeCommand: podman compose\nawsRegion: eu-west-2\n')
+      await writeFile(path.join(dir, '.jolt.json'), JSON.stringify({ awsRegion: 'us-east-1' }))
+
+      const { config, provenance, files } = await loadConfig(dir)
+
+      expect(config).toEqual({ composeCommand: 'podman compose', awsRegion: 'us-east-1' })
+      expect(provenance.composeCommand).toBe(path.join(userDir, 'config.yaml'))
+      expect(files).toEqual([path.join(userDir, 'config.yaml'), path.join(dir, '.jolt.json')])
+    })
+  })
+
+  describe('extends', () => {
+    const writeJson = (file: string, data: unknown) => writeFile(path.join(dir, file), JSON.stringify(data))
+
+    it('should merge a local base config underneath the extending file', async () => {
+      await writeJson('base.json', { awsRegion: 'eu-west-2', buildPlatform: 'linux/amd64' })
+      await writeJson('.jolt.json', { extends: './base.json', buildPlatform: 'linux/arm64' })
+
+      const { config, provenance } = await loadConfig(dir)
+
+      expect(config).toEqual({ awsRegion: 'eu-west-2', buildPlatform: 'linux/arm64' })
+      expect(provenance.awsRegion).toBe(path.join(dir, 'base.json'))
+      expect(provenance.buildPlatform).toBe(path.join(dir, '.jolt.json'))
+    })
+
+    it('should resolve base configs from installed npm packages', async () => {
+      const packageDir = path.join(dir, 'node_modules', '@acme', 'jolt-config')
+      await mkdir(packageDir, { recursive: true })
+      await writeFile(
+        path.join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/jolt-config', main: 'jolt.json' }),
+      )
+      await writeFile(path.join(packageDir, 'jolt.json'), JSON.stringify({ composeCommand: 'docker compose' }))
+      await writeJson('.jolt.json', { extends: '@acme/jolt-config' })
+
+      const { config } = await loadConfig(dir)
+
+      expect(config).toEqual({ composeCommand: 'docker compose' })
+    })
+
+    it('should follow nested extends relative to each file', async () => {
+      await mkdir(path.join(dir, 'shared'))
+      await writeFile(path.join(dir, 'shared', 'org.json'), JSON.stringify({ awsRegion: 'eu-west-1' }))
+      await writeFile(
+        path.join(dir, 'shared', 'wp.json'),
+        JSON.stringify({ extends: './org.json', wpCliContainer: 'cli' }),
+      )
+      await writeJson('.jolt.json', { extends: ['./shared/wp.json'] })
+
+      const { config } = await loadConfig(dir)
+
+      expect(config).toEqual({ awsRegion: 'eu-west-1', wpCliContainer: 'cli' })
+    })
+
+    it('should merge sites by key', async () => {
+      await writeJson('base.json', {
+        sites: { staging: { ecsCluster: 'base', ecsService: 'svc' }, live: { ecsCluster: 'live' } },
+      })
+      await writeJson('.jolt.json', { extends: './base.json', sites: { staging: { ecsCluster: 'mine' } } })
+
+      const { config } = await loadConfig(dir)
+
+      expect(config.sites).toEqual({ staging: { ecsCluster: 'mine', ecsService: 'svc' }, live: { ecsCluster: 'live' } })
+    })
+
+    it('should append inherited prepareCommands by default', async () => {
+      await writeJson('base.json', { prepareCommands: ['yarn install'] })
+      await writeJson('.jolt.json', { extends: './base.json', prepareCommands: ['yarn build'] })
+
+      const { config } = await loadConfig(dir)
+
+      expect(config.prepareCommands).toEqual(['yarn install', 'yarn build'])
+    })
+
+    it('should replace inherited prepareCommands when configured', async () => {
+      await writeJson('base.json', { prepareCommands: ['yarn install'] })
+      await writeJson('.jolt.json', {
+        extends: './base.json',
+        prepareCommandsMerge: 'replace',
+        prepareCommands: ['yarn build'],
+      })
+
+      const { config } = await loadConfig(dir)
+
+      expect(config.prepareCommands).toEqual(['yarn build'])
+      expect(config).not.toHaveProperty('prepareCommandsMerge')
+      expect(config).not.toHaveProperty('extends')
+    })
+
+    it('should detect circular extends', async () => {
+      await writeJson('a.json', { extends: './b.json' })
+      await writeJson('b.json', { extends: './a.json' })
+      await writeJson('.jolt.json', { extends: './a.json' })
+
+      await expect(loadConfig(dir)).rejects.toThrow('Circular config extends')
+    })
+
+    it('should report bases that cannot be resolved', async () => {
+      await writeJson('.jolt.json', { extends: 'not-an-installed-package' })
+
+      await expect(loadConfig(dir)).rejects.toThrow('Unable to resolve config "not-an-installed-package"')
+    })
+  })
+
+  describe('mergeConfig', () => {
+    it('should replace arrays rather than concatenating them', () => {
+      const provenance = {}
+      const result = mergeConfig({ prepareCommands: ['a'] }, { prepareCommands: ['b'] }, 'override', provenance)
+
+      expect(result).toEqual({ prepareCommands: ['b'] })
+    })
+
+    it('should drop provenance of nested keys that are replaced by a scalar', () => {
+      const provenance: Record<string, string> = {}
+      const target = {}
+
+      mergeConfig(target, { wpUpdates: { wpRoot: 'code/' } }, 'base', provenance)
+      mergeConfig(target, { wpUpdates: 'none' }, 'override', provenance)
+
+      expect(provenance).toEqual({ wpUpdates: 'override' })
+    })
+  })
+})
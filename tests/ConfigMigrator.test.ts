@@ -0,0 +1,144 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { getEnvKeyPath, isConfigKey, migrateConfig } from '../src/ConfigMigrator.js'
+import type { ConfigFile } from '../src/ConfigWriter.js'
+
+describe('ConfigMigrator', () => {
+  let dir: string
+
+  const configFile = (data: Record<string, unknown>, name = '.jolt.json'): ConfigFile => ({
+    path: path.join(dir, name),
+    format: 'json',
+    data,
+    indent: 2,
+    original: structuredClone(data),
+  })
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'jolt-migrate-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('getEnvKeyPath', () => {
+    it('should camel-case root keys', () => {
+      expect(getEnvKeyPath('ECS_CLUSTER', [])).toEqual(['ecsCluster'])
+      expect(getEnvKeyPath('DEV_FOLDER', ['staging'])).toEqual(['devFolder'])
+    })
+
+    it('should not guess whether a prefix is a site name', () => {
+      expect(getEnvKeyPath('STAGING_ECS_CLUSTER', ['staging'])).toEqual(['stagingEcsCluster'])
+      expect(getEnvKeyPath('LIVE_FOLDER', ['live'])).toEqual(['liveFolder'])
+    })
+
+    it('should put SITE_ keys into sites, even for sites that are not configured yet', () => {
+      expect(getEnvKeyPath('SITE_CLIENT_A__SSH_ACCOUNT', ['client-a'])).toEqual(['sites', 'client-a', 'sshAccount'])
+      expect(getEnvKeyPath('SITE_NEW_SITE__ECS_SERVICE', [])).toEqual(['sites', 'new-site', 'ecsService'])
+    })
+  })
+
+  describe('isConfigKey', () => {
+    it('should accept config keys, including dev, site and environment prefixed ones', () => {
+      expect(isConfigKey('ecsCluster')).toBe(true)
+      expect(isConfigKey('devEcsCluster')).toBe(true)
+      expect(isConfigKey('devFolder')).toBe(true)
+      expect(isConfigKey('stagingEcsCluster', ['dev', 'staging'])).toBe(true)
+      expect(isConfigKey('stagingEcsCluster')).toBe(false)
+      expect(isConfigKey('composeProjectName')).toBe(false)
+      expect(isConfigKey('mysqlRootPassword')).toBe(false)
+    })
+
+    it('should not accept keys that only end with a config key', () => {
+      expect(isConfigKey('dbName')).toBe(true)
+      expect(isConfigKey('wordpressDbName')).toBe(false)
+    })
+  })
+
+  describe('migrateConfig', () => {
+    const localFile = () => configFile({}, '.jolt.local.json')
+
+    it('should return nothing to migrate when there are no legacy files', async () => {
+      const result = await migrateConfig(configFile({ imageName: 'app' }), localFile(), dir)
+
+      expect(result).toEqual({
+        data: { imageName: 'app' },
+        localData: {},
+        files: [],
+        completedFiles: [],
+        warnings: [],
+      })
+    })
+
+    it('should merge bin/.env into the config and .env and credentials into the local config', async () => {
+      await mkdir(path.join(dir, 'bin'))
+      await writeFile(path.join(dir, 'bin', '.env'), 'IMAGE_NAME=old\nAWS_REGION=eu-west-2\nDB_PASS=hunter22\n')
+      await writeFile(path.join(dir, '.env'), 'IMAGE_NAME=new\nSITE_STAGING__ECS_CLUSTER=staging-cluster\n')
+      const file = configFile({ imageName: 'app', sites: { staging: { ecsService: 'svc' } } })
+
+      const result = await migrateConfig(file, localFile(), dir)
+
+      expect(result.files).toEqual(['./bin/.env', '.env'])
+      expect(result.completedFiles).toEqual(['./bin/.env', '.env'])
+      expect(result.data).toEqual({
+        imageName: 'old',
+        awsRegion: 'eu-west-2',
+        sites: { staging: { ecsService: 'svc' } },
+      })
+      expect(result.localData).toEqual({
+        dbPass: 'hunter22',
+        imageName: 'new',
+        sites: { staging: { ecsCluster: 'staging-cluster' } },
+      })
+      // The file itself isn't changed
+      expect(file.data.imageName).toBe('app')
+    })
+
+    it('should keep env files that have values other than Jolt config', async () => {
+      await writeFile(path.join(dir, '.env'), 'DB_NAME=wordpress\nCOMPOSE_PROJECT_NAME=app\n')
+
+      const result = await migrateConfig(configFile({}), localFile(), dir)
+
+      expect(result.localData).toEqual({ dbName: 'wordpress' })
+      expect(result.files).toEqual(['.env'])
+      expect(result.completedFiles).toEqual([])
+      expect(result.warnings).toEqual([
+        "Keeping .env, as it has values that aren't Jolt config: COMPOSE_PROJECT_NAME. Remove DB_NAME from it, or they'll override the migrated config.",
+      ])
+    })
+
+    it('should keep unrelated keys that end with a config key in the env file', async () => {
+      await writeFile(path.join(dir, '.env'), 'WORDPRESS_DB_NAME=wordpress\n')
+
+      const result = await migrateConfig(configFile({}), localFile(), dir)
+
+      expect(result.localData).toEqual({})
+      expect(result.files).toEqual([])
+      expect(result.warnings).toEqual(["Keeping .env, as it has values that aren't Jolt config: WORDPRESS_DB_NAME."])
+    })
+
+    it('should fold the WordPress updater config into wpUpdates', async () => {
+      await writeFile(
+        path.join(dir, '.jolt-wp-updater.json'),
+        JSON.stringify({ doNotUpdate: ['akismet'], wpRoot: 'web/', unknown: true }),
+      )
+
+      const result = await migrateConfig(configFile({}), localFile(), dir)
+
+      expect(result.files).toEqual(['.jolt-wp-updater.json'])
+      expect(result.data).toEqual({ wpUpdates: { doNotUpdate: ['akismet'], wpRoot: 'web/' } })
+    })
+
+    it('should not replace existing wpUpdates', async () => {
+      await writeFile(path.join(dir, '.jolt-wp-updater.json'), JSON.stringify({ doNotUpdate: ['akismet'] }))
+
+      const result = await migrateConfig(configFile({ wpUpdates: { doNotUpdate: [] } }), localFile(), dir)
+
+      expect(result.files).toEqual([])
+      expect(result.warnings).toEqual(['Not migrating .jolt-wp-updater.json because wpUpdates is already set'])
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { findPlaceholders, suggestKey, validateConfig } from '../src/ConfigValidator.js'
+
+describe('ConfigValidator', () => {
+  describe('validateConfig', () => {
+    it('should return no issues for a valid config', () => {
+      expect(validateConfig({ imageName: 'app', sites: { staging: { ecsCluster: 'staging' } } })).toEqual([])
+    })
+
+    it('should report values of the wrong type as errors', () => {
+      const issues = validateConfig({ prepareCommands: 'yarn build' } as any)
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({ path: 'prepareCommands', severity: 'error' })
+    })
+
+    it('should suggest the closest key for likely typos', () => {
+      const issues = validateConfig({ ecsClustr: 'cluster' })
+
+      expect(issues).toEqual([
+        { path: 'ecsClustr', message: 'Unknown key "ecsClustr". Did you mean "ecsCluster"?', severity: 'warning' },
+      ])
+    })
+
+    it('should ignore legacy site-prefixed keys', () => {
+      expect(validateConfig({ sites: { staging: {} }, stagingEcsCluster: 'cluster' })).toEqual([])
+    })
+
+    it('should check keys inside sites', () => {
+      const issues = validateConfig({ sites: { staging: { defaultSite: 'live', imageNme: 'app' } } })
+
+      expect(issues).toContainEqual({
+        path: 'sites.staging.defaultSite',
+        message: `"defaultSite" can't be overridden per site`,
+        severity: 'error',
+      })
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'sites.staging.imageNme', severity: 'warning' }))
+    })
+
+    it('should accept any config key with its own type inside sites', () => {
+      expect(
+        validateConfig({
+          sites: {
+            staging: { dockerBuildArgs: { ENV: 'staging' }, prepareCommands: ['yarn build'] },
+            preview: { extends: 'staging' },
+          },
+        }),
+      ).toEqual([])
+    })
+
+    it('should check keys inside environments', () => {
+      const issues = validateConfig({
+        environments: { uat: { ecsCluster: 'uat', sites: {}, ecsSevice: 'svc' } },
+      } as any)
+
+      expect(issues).toContainEqual({
+        path: 'environments.uat.sites',
+        message: `"sites" can't be overridden per environment`,
+        severity: 'error',
+      })
+      expect(issues).toContainEqual(
+        expect.objectContaining({ path: 'environments.uat.ecsSevice', severity: 'warning' }),
+      )
+    })
+
+    it('should ignore environment-prefixed keys', () => {
+      expect(
+        validateConfig({
+          environments: { uat: {} },
+          uatEcsCluster: 'cluster',
+          sites: { staging: { uatEcsService: 'svc', devEcsService: 'dev-svc' } },
+        }),
+      ).toEqual([])
+    })
+
+    it('should report site extends that are unknown or circular', () => {
+      const issues = validateConfig({
+        sites: { a: { extends: 'b' }, b: { extends: 'a' }, c: { extends: 'missing' } },
+      })
+
+      expect(issues).toEqual([
+        { path: 'sites.a.extends', message: 'Circular site extends: a -> b -> a', severity: 'error' },
+        { path: 'sites.b.extends', message: 'Circular site extends: b -> a -> b', severity: 'error' },
+        { path: 'sites.c.extends', message: 'Site "c" extends unknown site "missing"', severity: 'error' },
+      ])
+    })
+
+    it('should warn about conf placeholders that refer to missing keys', () => {
+      const issues = validateConfig({ imageName: '{conf:imageBase}-app', ecsCluster: '{conf:awsRegion}' })
+
+      expect(issues).toEqual([
+        {
+          path: 'imageName',
+          message: "Placeholder {conf:imageBase} refers to a key that isn't configured",
+          severity: 'warning',
+        },
+      ])
+    })
+
+    it('should not warn about conf placeholders that have a fallback', () => {
+      expect(validateConfig({ imageName: '{conf:imageBase|app}' })).toEqual([])
+    })
+
+    it('should accept conf placeholders for keys that only exist in sites', () => {
+      expect(validateConfig({ imageName: '{conf:siteUrl}', sites: { staging: { siteUrl: 'x' } } } as any)).toEqual([])
+    })
+  })
+
+  describe('suggestKey', () => {
+    it('should ignore keys that are too different', () => {
+      expect(suggestKey('somethingElse', ['ecsCluster', 'imageName'])).toBeUndefined()
+    })
+
+    it('should match regardless of case', () => {
+      expect(suggestKey('imagename', ['imageName'])).toBe('imageName')
+    })
+  })
+
+  describe('findPlaceholders', () => {
+    it('should find placeholders in nested values', () => {
+      expect(findPlaceholders({ a: ['{tf:one}'], b: { c: 'x {conf:two} {Terraform:three}' } })).toEqual([
+        { path: 'a[0]', type: 'tf', name: 'one', hasFallback: false },
+        { path: 'b.c', type: 'conf', name: 'two', hasFallback: false },
+        { path: 'b.c', type: 'terraform', name: 'three', hasFallback: false },
+      ])
+    })
+
+    it('should find fallbacks and nested placeholders', () => {
+      expect(
+        findPlaceholders({ a: '{conf:devFolder|conf:liveFolder|/var/www}', b: '{conf:{site:name}Folder}' }),
+      ).toEqual([
+        { path: 'a', type: 'conf', name: 'devFolder', hasFallback: true },
+        { path: 'a', type: 'conf', name: 'liveFolder', hasFallback: true },
+        { path: 'b', type: 'site', name: 'name', hasFallback: false },
+      ])
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  detectIndent,
+  readConfigFile,
+  serialiseConfig,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfigFile,
+} from '../src/ConfigWriter.js'
+import { ConfigValidationError } from '../src/errors.js'
+
+describe('ConfigWriter', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'jolt-writer-'))
+    file = path.join(dir, '.jolt.json')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('detectIndent', () => {
+    it('should detect spaces and tabs', () => {
+      expect(detectIndent('{\n    "a": 1\n}')).toBe(4)
+      expect(detectIndent('{\n\t"a": 1\n}')).toBe('\t')
+      expect(detectIndent('{}')).toBe(2)
+    })
+  })
+
+  describe('serialiseConfig', () => {
+    const data = { $schema: './schema.json', imageName: 'app', sites: { 'client-a': { ecsCluster: 'a' } } }
+
+    it('should reference the schema with a comment in YAML', () => {
+      expect(serialiseConfig(data, 'yaml')).toBe(
+        '# yaml-language-server: $schema=./schema.json\nimageName: app\nsites:\n  client-a:\n    ecsCluster: a\n',
+      )
+    })
+
+    it('should wrap TypeScript configs in defineConfig()', () => {
+      expect(serialiseConfig(data, 'ts')).toBe(
+        "import { defineConfig } from '@joltdesign/scripts'\n\nexport default defineConfig({\n" +
+          '  imageName: "app",\n  sites: {\n    "client-a": {\n      ecsCluster: "a"\n    }\n  }\n})\n',
+      )
+    })
+  })
+
+  describe('setConfigValue', () => {
+    it('should update existing keys in place and create missing objects', () => {
+      const data: Record<string, unknown> = { imageName: 'app', awsRegion: 'eu-west-1' }
+
+      setConfigValue(data, ['imageName'], 'new-app')
+      setConfigValue(data, ['sites', 'staging', 'ecsCluster'], 'staging')
+
+      expect(Object.keys(data)).toEqual(['imageName', 'awsRegion', 'sites'])
+      expect(data).toEqual({
+        imageName: 'new-app',
+        awsRegion: 'eu-west-1',
+        sites: { staging: { ecsCluster: 'staging' } },
+      })
+    })
+
+    it('should refuse to set a key inside a value that is not an object', () => {
+      expect(() => setConfigValue({ imageName: 'app' }, ['imageName', 'tag'], 'x')).toThrow(ConfigValidationError)
+    })
+  })
+
+  describe('unsetConfigValue', () => {
+    it('should remove keys and report whether they were set', () => {
+      const data = { imageName: 'app', sites: { staging: { ecsCluster: 'staging' } } }
+
+      expect(unsetConfigValue(data, ['sites', 'staging', 'ecsCluster'])).toBe(true)
+      expect(unsetConfigValue(data, ['sites', 'live', 'ecsCluster'])).toBe(false)
+      expect(data).toEqual({ imageName: 'app', sites: { staging: {} } })
+    })
+  })
+
+  describe('readConfigFile and writeConfigFile', () => {
+    it('should keep the existing indentation', async () => {
+      await writeFile(file, '{\n    "imageName": "app"\n}\n')
+
+      const config = await readConfigFile(file)
+      setConfigValue(config.data, ['awsRegion'], 'eu-west-2')
+      await writeConfigFile(config)
+
+      expect(await readFile(file, 'utf-8')).toBe('{\n    "imageName": "app",\n    "awsRegion": "eu-west-2"\n}\n')
+    })
+
+    it('should treat a missing file as an empty config', async () => {
+      const config = await readConfigFile(file)
+      setConfigValue(config.data, ['imageName'], 'app')
+      await writeConfigFile(config)
+
+      expect(JSON.parse(await readFile(file, 'utf-8'))).toEqual({ imageName: 'app' })
+    })
+
+    it('should not save changes that fail validation', async () => {
+      await writeFile(file, '{\n  "imageName": "app"\n}\n')
+
+      const config = await readConfigFile(file)
+      setConfigValue(config.data, ['prepareCommands'], 'yarn build')
+
+      await expect(writeConfigFile(config)).rejects.toThrow('prepareCommands')
+      expect(await readFile(file, 'utf-8')).toBe('{\n  "imageName": "app"\n}\n')
+    })
+
+    it('should not be blocked by errors that were already in the file', async () => {
+      await writeFile(file, JSON.stringify({ prepareCommands: 'yarn build' }))
+
+      const config = await readConfigFile(file)
+      setConfigValue(config.data, ['imageName'], 'app')
+      await writeConfigFile(config)
+
+      expect(JSON.parse(await readFile(file, 'utf-8'))).toEqual({ prepareCommands: 'yarn build', imageName: 'app' })
+    })
+
+    it('should edit YAML files in place, keeping their comments', async () => {
+      const yamlFile = path.join(dir, '.jolt.yaml')
+      await writeFile(yamlFile, '# Shared config\nimageName: app # The app\nawsRegion: eu-west-2\n')
+
+      const config = await readConfigFile(yamlFile)
+      setConfigValue(config.data, ['imageName'], 'new-app')
+      unsetConfigValue(config.data, ['awsRegion'])
+      await writeConfigFile(config)
+
+      expect(await readFile(yamlFile, 'utf-8')).toBe('# Shared config\nimageName: new-app # The app\n')
+    })
+
+    it('should refuse to edit config modules', async () => {
+      await expect(readConfigFile(path.join(dir, 'jolt.config.ts'))).rejects.toThrow(ConfigValidationError)
+    })
+  })
+})
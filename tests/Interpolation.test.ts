@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { InterpolationError } from '../src/errors.js'
+import { Interpolator, parseTemplate, traceInterpolation } from '../src/Interpolation.js'
+
+describe('Interpolation', () => {
+  describe('parseTemplate', () => {
+    it('should split text and placeholders', () => {
+      expect(parseTemplate('a {conf:b} c')).toEqual([
+        { kind: 'text', value: 'a ' },
+        {
+          kind: 'placeholder',
+          source: '{conf:b}',
+          alternatives: [{ kind: 'reference', type: 'conf', name: [{ kind: 'text', value: 'b' }] }],
+          filters: [],
+        },
+        { kind: 'text', value: ' c' },
+      ])
+    })
+
+    it('should separate fallbacks from filters', () => {
+      const [node] = parseTemplate('{conf:a|conf:b|default|upper|trim}')
+
+      expect(node).toMatchObject({
+        alternatives: [
+          { kind: 'reference', type: 'conf' },
+          { kind: 'reference', type: 'conf' },
+          { kind: 'literal', value: [{ kind: 'text', value: 'default' }] },
+        ],
+        filters: ['upper', 'trim'],
+      })
+    })
+
+    it('should leave unknown types and unterminated placeholders as text', () => {
+      expect(parseTemplate('{"a":1} {foo:bar} {conf:a')).toEqual([{ kind: 'text', value: '{"a":1} {foo:bar} {conf:a' }])
+    })
+
+    it('should reject fallbacks after filters', () => {
+      expect(() => parseTemplate('{conf:a|upper|b}')).toThrow(InterpolationError)
+    })
+  })
+
+  describe('Interpolator', () => {
+    const createInterpolator = (values: Record<string, unknown>) => {
+      const interpolator = new Interpolator()
+      interpolator.register(['conf', 'config'], (name) => values[name])
+      interpolator.register('arg', (name, params) => params[name])
+      return interpolator
+    }
+
+    it('should replace placeholders and keep unresolved ones', async () => {
+      const interpolator = createInterpolator({ name: 'app' })
+
+      expect(await interpolator.interpolate('{conf:name}-{conf:missing}')).toBe('app-{conf:missing}')
+    })
+
+    it('should try each fallback in order', async () => {
+      const interpolator = createInterpolator({ liveFolder: '/srv/live' })
+
+      expect(await interpolator.interpolate('{conf:devFolder|conf:liveFolder|/var/www}')).toBe('/srv/live')
+      expect(await interpolator.interpolate('{conf:devFolder|/var/www}')).toBe('/var/www')
+      expect(await interpolator.interpolate('{conf:devFolder|}')).toBe('')
+    })
+
+    it('should apply filters', async () => {
+      const interpolator = createInterpolator({ branch: 'Feature/My Branch', list: ['a', 'b'], obj: { a: 1 } })
+
+      expect(await interpolator.interpolate('{conf:branch|slug}')).toBe('feature-my-branch')
+      expect(await interpolator.interpolate('{conf:branch|upper}')).toBe('FEATURE/MY BRANCH')
+      expect(await interpolator.interpolate('{conf:list|join}')).toBe('a,b')
+      expect(await interpolator.interpolate('{conf:obj|json}')).toBe('{"a":1}')
+      expect(await interpolator.interpolate('{conf:list|join:, }')).toBe('a, b')
+      expect(await interpolator.interpolate('{conf:obj|join:;}')).toBe('1')
+    })
+
+    it('should reject lists and maps that are not converted to a string', async () => {
+      const interpolator = createInterpolator({ list: ['a', 'b'], obj: { a: 1 } })
+
+      await expect(interpolator.interpolate('{conf:list}')).rejects.toThrow(InterpolationError)
+      await expect(interpolator.interpolate('{conf:obj|upper}')).resolves.toBe('{"A":1}')
+      await expect(interpolator.interpolate('-{conf:obj}-')).rejects.toThrow('use |json or |join')
+    })
+
+    it('should resolve nested placeholders', async () => {
+      const interpolator = createInterpolator({ site: 'staging', stagingFolder: '/srv/staging' })
+
+      expect(await interpolator.interpolate('{conf:{conf:site}Folder}')).toBe('/srv/staging')
+      expect(await interpolator.interpolate('{conf:missing|{conf:site}-default}')).toBe('staging-default')
+    })
+
+    it('should pass params to resolvers', async () => {
+      const interpolator = createInterpolator({})
+
+      expect(await interpolator.interpolate('--site={arg:site}', { site: 'live' })).toBe('--site=live')
+    })
+
+    it('should trace each placeholder and the lookups it tried', async () => {
+      const interpolator = createInterpolator({ liveFolder: '/srv/live' })
+
+      const [result, trace] = await traceInterpolation(() =>
+        interpolator.interpolate('{conf:devFolder|conf:liveFolder}/current'),
+      )
+
+      expect(result).toBe('/srv/live/current')
+      expect(trace).toEqual([
+        {
+          lookup: '{conf:devFolder|conf:liveFolder}',
+          value: '/srv/live',
+          children: [
+            { lookup: 'conf:devFolder', value: undefined, children: [] },
+            { lookup: 'conf:liveFolder', value: '/srv/live', children: [] },
+          ],
+        },
+      ])
+    })
+
+    it('should support escaping braces', async () => {
+      const interpolator = createInterpolator({ a: 'x' })
+
+      expect(await interpolator.interpolate('\\{conf:a} {conf:a}')).toBe('{conf:a} x')
+      expect(await interpolator.interpolate('{conf:missing|a\\|b\\}}')).toBe('a|b}')
+      expect(await interpolator.interpolate('C:\\path')).toBe('C:\\path')
+    })
+  })
+})
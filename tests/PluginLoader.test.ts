@@ -0,0 +1,191 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { createJiti } from 'jiti'
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+import JoltCommand from '../src/Command/JoltCommand.js'
+import getConfig from '../src/Config.js'
+import {
+  findPluginFiles,
+  getConfigFileArg,
+  getLoadedPlugins,
+  getPluginCommandPaths,
+  isCommandClass,
+  loadPlugins,
+  loadProjectPlugins,
+} from '../src/PluginLoader.js'
+
+vi.mock('jiti')
+vi.mock('../src/Config.js')
+
+class DeployCommand extends JoltCommand {
+  static paths = [
+    ['client', 'deploy'],
+    ['client', 'ship'],
+  ]
+
+  async command(): Promise<number | undefined> {
+    return 0
+  }
+}
+
+class NotifyCommand extends JoltCommand {
+  static paths = [['notify']]
+
+  async command(): Promise<number | undefined> {
+    return 0
+  }
+}
+
+describe('PluginLoader', () => {
+  let dir: string
+  let jitiImport: Mock
+  let warn: Mock
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    dir = await mkdtemp(path.join(tmpdir(), 'jolt-plugins-'))
+    jitiImport = vi.fn()
+    vi.mocked(createJiti).mockReturnValue({ import: jitiImport } as any)
+    warn = vi.fn()
+    vi.spyOn(console, 'warn').mockImplementation(warn)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('isCommandClass', () => {
+    it('should only accept JoltCommand subclasses', () => {
+      expect(isCommandClass(DeployCommand)).toBe(true)
+      expect(isCommandClass(JoltCommand)).toBe(false)
+      expect(isCommandClass(class {})).toBe(false)
+      expect(isCommandClass('deploy')).toBe(false)
+    })
+
+    it('should accept commands built on another copy of Jolt', () => {
+      // A plugin package with its own dependency on Jolt has its own JoltCommand class
+      class OtherJoltCommand {
+        async execute() {
+          return 0
+        }
+      }
+
+      class PluginCommand extends OtherJoltCommand {
+        static paths = [['plugin']]
+
+        async command() {
+          return 0
+        }
+      }
+
+      expect(isCommandClass(PluginCommand)).toBe(true)
+      expect(isCommandClass(OtherJoltCommand)).toBe(false)
+    })
+  })
+
+  describe('findPluginFiles', () => {
+    it('should find the scripts in the jolt-commands directory', async () => {
+      await mkdir(path.join(dir, 'jolt-commands'))
+
+      for (const file of ['notify.mjs', 'deploy.ts', 'types.d.ts', 'README.md']) {
+        await writeFile(path.join(dir, 'jolt-commands', file), '')
+      }
+
+      expect(await findPluginFiles(dir)).toEqual([
+        path.join(dir, 'jolt-commands', 'deploy.ts'),
+        path.join(dir, 'jolt-commands', 'notify.mjs'),
+      ])
+    })
+
+    it('should return nothing without a jolt-commands directory', async () => {
+      expect(await findPluginFiles(dir)).toEqual([])
+    })
+  })
+
+  describe('loadPlugins', () => {
+    it('should load the commands from the jolt-commands directory and plugin packages', async () => {
+      await mkdir(path.join(dir, 'jolt-commands'))
+      await writeFile(path.join(dir, 'jolt-commands', 'deploy.ts'), '')
+      jitiImport.mockImplementation(async (filePath: string) =>
+        filePath.endsWith('deploy.ts')
+          ? { DeployCommand, default: DeployCommand, helper: () => 'not a command' }
+          : { NotifyCommand },
+      )
+
+      const plugins = await loadPlugins(dir, ['./tools/notify.js'])
+
+      expect(plugins).toEqual([
+        {
+          name: path.join('jolt-commands', 'deploy.ts'),
+          source: 'directory',
+          path: path.join(dir, 'jolt-commands', 'deploy.ts'),
+          commands: [DeployCommand],
+        },
+        {
+          name: './tools/notify.js',
+          source: 'package',
+          path: path.join(dir, 'tools', 'notify.js'),
+          commands: [NotifyCommand],
+        },
+      ])
+      expect(getLoadedPlugins()).toBe(plugins)
+      expect(getPluginCommandPaths(plugins[0])).toEqual(['client deploy', 'client ship'])
+    })
+
+    it('should warn about plugins that cannot be loaded and carry on', async () => {
+      jitiImport.mockImplementation(async (filePath: string) => {
+        if (filePath.endsWith('broken.js')) {
+          throw new Error('Unexpected token')
+        }
+
+        return filePath.endsWith('empty.js') ? { value: 1 } : { NotifyCommand }
+      })
+
+      const plugins = await loadPlugins(dir, ['./broken.js', './empty.js', '@acme/missing', './notify.js'])
+
+      expect(plugins.map((x) => x.name)).toEqual(['./notify.js'])
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        expect.stringContaining('Unable to load plugin ./broken.js: Unexpected token'),
+        expect.stringContaining(
+          "Unable to load plugin ./empty.js: ./empty.js doesn't export any JoltCommand subclasses",
+        ),
+        expect.stringContaining("Unable to load plugin @acme/missing: Cannot find module '@acme/missing'"),
+      ])
+    })
+  })
+
+  describe('loadProjectPlugins', () => {
+    it('should load the plugins from the project root', async () => {
+      await mkdir(path.join(dir, 'jolt-commands'))
+      await writeFile(path.join(dir, 'jolt-commands', 'notify.mjs'), '')
+      vi.mocked(getConfig).mockResolvedValue({ rootDir: dir, internalConfig: {} } as any)
+      jitiImport.mockResolvedValue({ NotifyCommand })
+
+      const plugins = await loadProjectPlugins(['notify'])
+
+      expect(plugins.map((x) => x.commands)).toEqual([[NotifyCommand]])
+    })
+
+    it('should not set up the loader for projects without plugins', async () => {
+      vi.mocked(getConfig).mockResolvedValue({ rootDir: dir, internalConfig: {} } as any)
+
+      expect(await loadProjectPlugins(['docker', 'build'])).toEqual([])
+      expect(createJiti).not.toHaveBeenCalled()
+    })
+
+    it('should not load the config to show the version', async () => {
+      expect(await loadProjectPlugins(['--version'])).toEqual([])
+      expect(getConfig).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getConfigFileArg', () => {
+    it('should find --config in either form', () => {
+      expect(getConfigFileArg(['aws', 'ecs', 'deploy', '--config', 'ci.jolt.json'])).toBe('ci.jolt.json')
+      expect(getConfigFileArg(['--config=ci.jolt.json', 'docker', 'build'])).toBe('ci.jolt.json')
+      expect(getConfigFileArg(['docker', 'build'])).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { clearSecrets, REDACTED, redactSecrets, registerSecret } from '../src/secrets.js'
+
+describe('secrets', () => {
+  afterEach(() => {
+    clearSecrets()
+  })
+
+  it('should redact every occurrence of a registered secret', () => {
+    registerSecret('s3cr3t')
+
+    expect(redactSecrets('a=s3cr3t b=s3cr3t')).toBe(`a=${REDACTED} b=${REDACTED}`)
+  })
+
+  it('should redact longer secrets first', () => {
+    registerSecret('pass')
+    registerSecret('password123')
+
+    expect(redactSecrets('password123')).toBe(REDACTED)
+  })
+
+  it('should ignore very short values', () => {
+    registerSecret('1')
+
+    expect(redactSecrets('port 1')).toBe('port 1')
+  })
+})
@@ -3,6 +3,7 @@ import { execa } from 'execa'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import realWhich from 'which'
 import { ContainerRuntimeError } from '../src/errors.js'
+import { clearSecrets, registerSecret } from '../src/secrets.js'
 import {
   clearWhichCache,
   constToCamel,
@@ -10,8 +11,12 @@ import {
   directoryExists,
   execC,
   fileExists,
+  isDryRun,
   keyToConst,
+  PrefixedStream,
   replaceAsync,
+  runDryRun,
+  splitArgs,
   which,
 } from '../src/utils.js'
 
@@ -128,6 +133,80 @@ describe('utils', () => {
       )
     })
 
+    it('should pipe output to streams without a file descriptor', async () => {
+      const mockExeca = vi.mocked(execa)
+      mockExeca.mockResolvedValueOnce({ stdout: 'success' } as any)
+
+      const stdout = new PrefixedStream(process.stdout, '[site] ')
+      await execC('test', ['arg'], { stdout, stderr: process.stderr })
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'test',
+        ['arg'],
+        expect.objectContaining({ stdout: ['pipe', stdout], stderr: process.stderr }),
+      )
+    })
+
+    describe('Dry-run mode', () => {
+      const context = () => ({
+        stdin: process.stdin,
+        stdout: { write: vi.fn() } as any,
+        stderr: { write: vi.fn() } as any,
+        env: {},
+        colorDepth: 1,
+      })
+
+      it('should print commands with secrets masked instead of running them', async () => {
+        const mockExeca = vi.mocked(execa)
+        mockExeca.mockClear()
+        registerSecret('supersecretpassword')
+        const ctx = context()
+
+        const result = await runDryRun(() =>
+          execC('mysql', ['-u', 'root', '-psupersecretpassword'], { context: ctx, cwd: '/app' }),
+        )
+
+        expect(mockExeca).not.toHaveBeenCalled()
+        expect(result.exitCode).toBe(0)
+        expect(result.stdout).toBe('')
+
+        const output = ctx.stderr.write.mock.calls.map((x: string[]) => x[0]).join('')
+        expect(output).toContain('mysql -u root')
+        expect(output).not.toContain('supersecretpassword')
+        expect(output).toContain('cwd: /app')
+        clearSecrets()
+      })
+
+      it('should show environment variables that the command changes', async () => {
+        const ctx = context()
+
+        await runDryRun(() => execC('aws', ['s3', 'ls'], { context: ctx, env: { AWS_PAGER: '' } }))
+
+        const output = ctx.stderr.write.mock.calls.map((x: string[]) => x[0]).join('')
+        expect(output).toContain('env: AWS_PAGER=')
+      })
+
+      it('should still run read-only commands', async () => {
+        const mockExeca = vi.mocked(execa)
+        mockExeca.mockResolvedValueOnce({ stdout: 'main' } as any)
+
+        const result = await runDryRun(() => execC('git', ['branch', '--show-current'], { readOnly: true }))
+
+        expect(result.stdout).toBe('main')
+        expect(mockExeca).toHaveBeenCalledWith(
+          'git',
+          ['branch', '--show-current'],
+          expect.not.objectContaining({ readOnly: true }),
+        )
+      })
+
+      it('should only apply inside runDryRun()', async () => {
+        expect(isDryRun()).toBe(false)
+        expect(await runDryRun(async () => isDryRun())).toBe(true)
+        expect(isDryRun()).toBe(false)
+      })
+    })
+
     describe('Container runtime error detection', () => {
       const mockStderr = {
         write: vi.fn(),
@@ -338,6 +417,31 @@ describe('utils', () => {
     })
   })
 
+  describe('PrefixedStream', () => {
+    it('should prefix each line, including a last line without a newline once flushed', async () => {
+      const target = { write: vi.fn() }
+      const stream = new PrefixedStream(target as any, '[site] ')
+
+      stream.write('one\ntw')
+      stream.write('o\nthree')
+      await new Promise((resolve) => stream.end(resolve))
+
+      expect(target.write.mock.calls.map((call) => call[0])).toEqual(['[site] one\n', '[site] two\n'])
+
+      stream.flush()
+
+      expect(target.write).toHaveBeenLastCalledWith('[site] three\n')
+    })
+  })
+
+  describe('splitArgs', () => {
+    it('should split on whitespace and keep quoted arguments together', () => {
+      expect(splitArgs('docker build')).toEqual(['docker', 'build'])
+      expect(splitArgs(`  cmd "yarn run lint" --flag='a b'  `)).toEqual(['cmd', 'yarn run lint', '--flag=a b'])
+      expect(splitArgs('cmd ""')).toEqual(['cmd', ''])
+    })
+  })
+
   describe('delay', () => {
     beforeEach(() => {
       vi.useFakeTimers()